@@ -5,7 +5,7 @@
 
 import type { AcceptanceCriterion } from "./types.js";
 import type { MappedCheck, VisualCheckConfig } from "./mapper.js";
-import { toDetoxSelector, selectorToExpression } from "./selector-utils.js";
+import { toDetoxSelector, selectorToElementExpression } from "./selector-utils.js";
 import {
   DEFAULT_LONG_PRESS_DURATION_MS,
   DEFAULT_SCROLL_AMOUNT_PX,
@@ -30,9 +30,9 @@ export function mapElementVisibilityCheck(criterion: AcceptanceCriterion): Mappe
   }
 
   const selector = toDetoxSelector(config.selector);
-  const selectorExpr = selectorToExpression(selector);
+  const elementExpr = selectorToElementExpression(selector);
 
-  const snippet = `await waitFor(element(${selectorExpr})).toBeVisible().withTimeout(10000);`;
+  const snippet = `await waitFor(${elementExpr}).toBeVisible().withTimeout(10000);`;
 
   return {
     type: "detox",
@@ -62,14 +62,14 @@ export function mapTextAssertionCheck(criterion: AcceptanceCriterion): MappedChe
     ? toDetoxSelector(config.selector)
     : { by: "text" as const, value: config.expectedText! };
 
-  const selectorExpr = selectorToExpression(selector);
+  const elementExpr = selectorToElementExpression(selector);
   const escapedText = JSON.stringify(config.expectedText || selector.value);
 
   let snippet: string;
   if (config.textMatchMode === "contains") {
-    snippet = `await expect(element(${selectorExpr})).toHaveText(new RegExp(${escapedText}));`;
+    snippet = `await expect(${elementExpr}).toHaveText(new RegExp(${escapedText}));`;
   } else {
-    snippet = `await expect(element(${selectorExpr})).toHaveText(${escapedText});`;
+    snippet = `await expect(${elementExpr}).toHaveText(${escapedText});`;
   }
 
   return {
@@ -125,33 +125,33 @@ export function mapInteractionCheck(criterion: AcceptanceCriterion): MappedCheck
   }
 
   const selector = toDetoxSelector(config.selector);
-  const selectorExpr = selectorToExpression(selector);
+  const elementExpr = selectorToElementExpression(selector);
 
   let snippet: string;
   switch (config.interactionType) {
     case "tap":
       // For "is tappable" checks, we just verify the element exists and tap it
-      snippet = `const el = element(${selectorExpr});\n` +
+      snippet = `const el = ${elementExpr};\n` +
         `      await expect(el).toBeVisible();\n` +
         `      await el.tap();`;
       break;
 
     case "longPress":
-      snippet = `await element(${selectorExpr}).longPress(${DEFAULT_LONG_PRESS_DURATION_MS});`;
+      snippet = `await ${elementExpr}.longPress(${DEFAULT_LONG_PRESS_DURATION_MS});`;
       break;
 
     case "swipe":
       const direction = config.swipeDirection || "up";
-      snippet = `await element(${selectorExpr}).swipe('${direction}');`;
+      snippet = `await ${elementExpr}.swipe('${direction}');`;
       break;
 
     case "scroll":
-      snippet = `await element(${selectorExpr}).scroll(${DEFAULT_SCROLL_AMOUNT_PX}, 'down');`;
+      snippet = `await ${elementExpr}.scroll(${DEFAULT_SCROLL_AMOUNT_PX}, 'down');`;
       break;
 
     default:
       // Default to tap for generic interaction checks
-      snippet = `await element(${selectorExpr}).tap();`;
+      snippet = `await ${elementExpr}.tap();`;
   }
 
   return {
@@ -185,14 +185,14 @@ export function mapModalCheck(criterion: AcceptanceCriterion): MappedCheck {
   // For modal checks, we typically verify visibility changes
   if (config.selector) {
     const selector = toDetoxSelector(config.selector);
-    const selectorExpr = selectorToExpression(selector);
+    const elementExpr = selectorToElementExpression(selector);
 
     let snippet: string;
     if (isClose) {
-      snippet = `await waitFor(element(${selectorExpr})).not.toBeVisible()` +
+      snippet = `await waitFor(${elementExpr}).not.toBeVisible()` +
         `.withTimeout(${MODAL_VISIBILITY_TIMEOUT_MS});`;
     } else {
-      snippet = `await waitFor(element(${selectorExpr})).toBeVisible()` +
+      snippet = `await waitFor(${elementExpr}).toBeVisible()` +
         `.withTimeout(${MODAL_VISIBILITY_TIMEOUT_MS});`;
     }
 
@@ -222,9 +222,9 @@ export function mapNavigationCheck(criterion: AcceptanceCriterion): MappedCheck
   // This is similar to element visibility but at screen level
   if (config.selector) {
     const selector = toDetoxSelector(config.selector);
-    const selectorExpr = selectorToExpression(selector);
+    const elementExpr = selectorToElementExpression(selector);
 
-    const snippet = `await waitFor(element(${selectorExpr})).toBeVisible().withTimeout(10000);`;
+    const snippet = `await waitFor(${elementExpr}).toBeVisible().withTimeout(10000);`;
 
     return {
       type: "detox",
@@ -262,10 +262,10 @@ export function mapScrollCheck(criterion: AcceptanceCriterion): MappedCheck {
 
   if (config.selector) {
     const selector = toDetoxSelector(config.selector);
-    const selectorExpr = selectorToExpression(selector);
+    const elementExpr = selectorToElementExpression(selector);
 
     const direction = lower.includes("horizontal") ? "right" : "down";
-    const snippet = `await element(${selectorExpr}).scroll(100, '${direction}');`;
+    const snippet = `await ${elementExpr}.scroll(100, '${direction}');`;
 
     return {
       type: "detox",
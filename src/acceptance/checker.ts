@@ -16,6 +16,7 @@ import type {
 import { mapCriterionToCheck } from "./mapper.js";
 import {
   DEFAULT_CRITERION_TIMEOUT_MS,
+  DEFAULT_CRITERION_RETRIES,
   PERCENTAGE_ROUNDING_FACTOR,
 } from "./constants.js";
 import {
@@ -35,10 +36,14 @@ export { executeTestFlow } from "./flow-runner.js";
  */
 export async function executeCriterionCheck(
   criterion: AcceptanceCriterion,
-  options: { captureEvidence?: boolean; timeout?: number } = {}
+  options: { captureEvidence?: boolean; timeout?: number; retries?: number } = {}
 ): Promise<CriterionResult> {
   const startTime = Date.now();
-  const { captureEvidence = true, timeout = DEFAULT_CRITERION_TIMEOUT_MS } = options;
+  const {
+    captureEvidence = true,
+    timeout = DEFAULT_CRITERION_TIMEOUT_MS,
+    retries = DEFAULT_CRITERION_RETRIES,
+  } = options;
 
   try {
     // Map criterion to executable check
@@ -62,7 +67,7 @@ export async function executeCriterionCheck(
 
     // Execute Detox check
     if (mappedCheck.type === "detox" && mappedCheck.detoxSnippet) {
-      return executeDetoxCheck(criterion, mappedCheck, startTime, captureEvidence, timeout);
+      return executeDetoxCheck(criterion, mappedCheck, startTime, captureEvidence, timeout, retries);
     }
 
     return {
@@ -104,6 +109,7 @@ export async function runAcceptanceChecks(
     skipFlows = false,
     skipManual = true,
     timeout = DEFAULT_CRITERION_TIMEOUT_MS,
+    retries = DEFAULT_CRITERION_RETRIES,
   } = options;
 
   // Check prerequisites
@@ -120,6 +126,7 @@ export async function runAcceptanceChecks(
     const allMissingRequirements: MissingRequirement[] = [];
 
     let totalPassed = 0;
+    let totalFlaky = 0;
     let totalFailed = 0;
     let totalSkipped = 0;
     let totalBlocked = 0;
@@ -161,6 +168,7 @@ export async function runAcceptanceChecks(
         const result = await executeCriterionCheck(criterion, {
           captureEvidence: true, // Always capture evidence for reporting
           timeout,
+          retries,
         });
 
         results.push(result);
@@ -175,6 +183,9 @@ export async function runAcceptanceChecks(
           case "pass":
             totalPassed++;
             break;
+          case "flaky":
+            totalFlaky++;
+            break;
           case "fail":
             totalFailed++;
             break;
@@ -228,7 +239,7 @@ export async function runAcceptanceChecks(
     }
 
     // Calculate overall summary
-    const total = totalPassed + totalFailed + totalSkipped + totalBlocked + totalErrors;
+    const total = totalPassed + totalFlaky + totalFailed + totalSkipped + totalBlocked + totalErrors;
     const testable = total - totalSkipped;
     const passRate = testable > 0 ? (totalPassed / testable) * 100 : 0;
     const testableRate = total > 0 ? (testable / total) * 100 : 0;
@@ -236,6 +247,7 @@ export async function runAcceptanceChecks(
     const summary: ReportSummary = {
       total,
       passed: totalPassed,
+      flaky: totalFlaky,
       failed: totalFailed,
       skipped: totalSkipped,
       blocked: totalBlocked,
@@ -264,6 +276,7 @@ export async function runAcceptanceChecks(
 function calculateSummary(results: CriterionResult[]): ReportSummary {
   const counts = {
     passed: 0,
+    flaky: 0,
     failed: 0,
     skipped: 0,
     blocked: 0,
@@ -275,6 +288,9 @@ function calculateSummary(results: CriterionResult[]): ReportSummary {
       case "pass":
         counts.passed++;
         break;
+      case "flaky":
+        counts.flaky++;
+        break;
       case "fail":
         counts.failed++;
         break;
@@ -298,6 +314,7 @@ function calculateSummary(results: CriterionResult[]): ReportSummary {
   return {
     total,
     passed: counts.passed,
+    flaky: counts.flaky,
     failed: counts.failed,
     skipped: counts.skipped,
     blocked: counts.blocked,
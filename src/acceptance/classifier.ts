@@ -8,7 +8,9 @@ import type {
   ElementSelector,
   CheckConfig,
 } from "./types.js";
+import { SelectorSchema } from "../mcp/schemas.js";
 import {
+  CONFIDENCE_SELECTOR_EXPLICIT,
   CONFIDENCE_TESTID_EXPLICIT,
   CONFIDENCE_LABEL_EXPLICIT,
   CONFIDENCE_QUOTED_TEXT,
@@ -193,6 +195,22 @@ export function extractCheckConfig(description: string): CheckConfig {
 export function inferSelectorFromDescription(
   description: string
 ): ElementSelector | undefined {
+  // Check for an explicit JSON selector, e.g. `{"by":"id","value":"order-row","index":2}`
+  const jsonMatch = description.match(/`(\{[^`]*"by"[^`]*\})`/);
+  if (jsonMatch) {
+    try {
+      const parsed = SelectorSchema.safeParse(JSON.parse(jsonMatch[1]));
+      if (parsed.success) {
+        return {
+          ...parsed.data,
+          confidence: CONFIDENCE_SELECTOR_EXPLICIT,
+        };
+      }
+    } catch {
+      // Not valid JSON - fall through to text inference
+    }
+  }
+
   // Check for explicit testID reference
   const testIdMatch = description.match(
     /\btestID[=:\s]+["']?([a-zA-Z0-9_-]+)["']?/i
@@ -7,6 +7,10 @@ export const DEFAULT_CRITERION_TIMEOUT_MS = 30000;
 export const DEFAULT_FLOW_STEP_TIMEOUT_MS = 30000;
 export const MODAL_VISIBILITY_TIMEOUT_MS = 5000;
 
+// Retries for a failing criterion check (opt-in); a check that passes on a retry is reported as flaky
+export const DEFAULT_CRITERION_RETRIES = 0;
+export const CRITERION_RETRY_DELAY_MS = 1000;
+
 // Long press duration (in milliseconds)
 export const DEFAULT_LONG_PRESS_DURATION_MS = 1000;
 
@@ -25,6 +29,7 @@ export const INTERACTION_CONFIDENCE_MULTIPLIER = 0.9;
 export const MODAL_CONFIDENCE_MULTIPLIER = 0.8;
 
 // Selector confidence levels
+export const CONFIDENCE_SELECTOR_EXPLICIT = 1.0;
 export const CONFIDENCE_TESTID_EXPLICIT = 1.0;
 export const CONFIDENCE_LABEL_EXPLICIT = 0.95;
 export const CONFIDENCE_QUOTED_TEXT = 0.7;
@@ -13,29 +13,63 @@ import type { MappedCheck } from "./mapper.js";
 import { inferTestId } from "./parser.js";
 import { runDetoxAction, type RunnerResult } from "../detox/runner.js";
 import { takeScreenshot } from "../simulator/screenshots.js";
+import { logger } from "../core/logger.js";
+import { CRITERION_RETRY_DELAY_MS } from "./constants.js";
 
 /**
- * Execute a Detox-based check
+ * Execute a Detox-based check, retrying a failure up to `retries` times.
+ * A check that only passes on a retry is reported as flaky rather than pass.
  */
 export async function executeDetoxCheck(
   criterion: AcceptanceCriterion,
   mappedCheck: MappedCheck,
   startTime: number,
   captureEvidence: boolean,
-  timeout: number
+  timeout: number,
+  retries: number = 0
 ): Promise<CriterionResult> {
   try {
-    const result = await runDetoxAction({
-      actionName: `check:${criterion.id}`,
-      actionSnippet: mappedCheck.detoxSnippet!,
-      timeoutMs: timeout,
-    });
+    const failures: RunnerResult[] = [];
+    let result: RunnerResult;
+
+    for (let attempt = 1; ; attempt++) {
+      result = await runDetoxAction({
+        actionName: `check:${criterion.id}`,
+        actionSnippet: mappedCheck.detoxSnippet!,
+        timeoutMs: timeout,
+        selector: criterion.config.selector,
+        attempt,
+      });
+
+      if (result.success || attempt > retries) break;
+
+      failures.push(result);
+      logger.info("acceptance", `Check ${criterion.id} failed, retrying (attempt ${attempt + 1} of ${retries + 1})`, {
+        error: result.error?.message,
+      });
+      await new Promise((resolve) => setTimeout(resolve, CRITERION_RETRY_DELAY_MS));
+    }
 
     if (result.success) {
       const evidence: CheckEvidence | undefined = captureEvidence
         ? await captureSuccessEvidence(criterion.id)
         : undefined;
 
+      if (failures.length > 0) {
+        const failureScreenshots = failures.flatMap((failure) => failure.evidence ?? []);
+        return {
+          criterion,
+          status: "flaky",
+          message: `Check passed on attempt ${failures.length + 1} after failing: ${failures[0].error?.message ?? "unknown failure"}`,
+          evidence: {
+            screenshots: [...failureScreenshots, ...(evidence?.screenshots ?? [])],
+            logs: failures[0].error?.details,
+          },
+          elapsedMs: Date.now() - startTime,
+          timestamp: new Date().toISOString(),
+        };
+      }
+
       return {
         criterion,
         status: "pass",
@@ -8,7 +8,7 @@ import type {
   FlowStep,
 } from "./types.js";
 import type { Selector } from "../mcp/schemas.js";
-import { toDetoxSelector, selectorToExpression } from "./selector-utils.js";
+import { toDetoxSelector, selectorToElementExpression } from "./selector-utils.js";
 import {
   mapElementVisibilityCheck,
   mapTextAssertionCheck,
@@ -118,19 +118,19 @@ export function mapFlowStep(step: FlowStep): MappedFlowStep {
   switch (action) {
     case "tap":
       if (detoxSelector) {
-        const expr = selectorToExpression(detoxSelector);
-        detoxSnippet = `await element(${expr}).tap();`;
+        const elementExpr = selectorToElementExpression(detoxSelector);
+        detoxSnippet = `await ${elementExpr}.tap();`;
       }
       break;
 
     case "type":
       if (detoxSelector) {
-        const expr = selectorToExpression(detoxSelector);
+        const elementExpr = selectorToElementExpression(detoxSelector);
         // Extract text to type from description
         const textMatch = description.match(/["']([^"']+)["']/);
         if (textMatch) {
           const text = JSON.stringify(textMatch[1]);
-          detoxSnippet = `const input = element(${expr});\n` +
+          detoxSnippet = `const input = ${elementExpr};\n` +
             `      await input.tap();\n` +
             `      await input.clearText();\n` +
             `      await input.typeText(${text});`;
@@ -140,8 +140,8 @@ export function mapFlowStep(step: FlowStep): MappedFlowStep {
 
     case "verify":
       if (detoxSelector) {
-        const expr = selectorToExpression(detoxSelector);
-        detoxSnippet = `await expect(element(${expr})).toBeVisible();`;
+        const elementExpr = selectorToElementExpression(detoxSelector);
+        detoxSnippet = `await expect(${elementExpr}).toBeVisible();`;
       }
       break;
 
@@ -156,10 +156,10 @@ export function mapFlowStep(step: FlowStep): MappedFlowStep {
 
     case "swipe":
       if (detoxSelector) {
-        const expr = selectorToExpression(detoxSelector);
+        const elementExpr = selectorToElementExpression(detoxSelector);
         const dirMatch = description.match(/\b(up|down|left|right)\b/i);
         const direction = dirMatch ? dirMatch[1].toLowerCase() : "up";
-        detoxSnippet = `await element(${expr}).swipe('${direction}');`;
+        detoxSnippet = `await ${elementExpr}.swipe('${direction}');`;
       }
       break;
   }
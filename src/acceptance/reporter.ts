@@ -67,6 +67,7 @@ function calculateOverallSummary(
 ): ReportSummary {
   let total = 0;
   let passed = 0;
+  let flaky = 0;
   let failed = 0;
   let skipped = 0;
   let blocked = 0;
@@ -75,6 +76,7 @@ function calculateOverallSummary(
   for (const section of sectionReports) {
     total += section.summary.total;
     passed += section.summary.passed;
+    flaky += section.summary.flaky;
     failed += section.summary.failed;
     skipped += section.summary.skipped;
     blocked += section.summary.blocked;
@@ -89,6 +91,9 @@ function calculateOverallSummary(
         case "pass":
           passed++;
           break;
+        case "flaky":
+          flaky++;
+          break;
         case "fail":
           failed++;
           break;
@@ -112,6 +117,7 @@ function calculateOverallSummary(
   return {
     total,
     passed,
+    flaky,
     failed,
     skipped,
     blocked,
@@ -164,6 +170,7 @@ export function generateMarkdownReport(report: AcceptanceReport): string {
   lines.push("| Status | Count |");
   lines.push("|--------|-------|");
   lines.push(`| Passed | ${report.summary.passed} |`);
+  lines.push(`| Flaky (Passed on Retry) | ${report.summary.flaky} |`);
   lines.push(`| Failed | ${report.summary.failed} |`);
   lines.push(`| Blocked (Missing Requirements) | ${report.summary.blocked} |`);
   lines.push(`| Skipped | ${report.summary.skipped} |`);
@@ -241,6 +248,8 @@ export function generateMarkdownReport(report: AcceptanceReport): string {
       } else if (result.status === "blocked" && result.missingRequirements?.length) {
         const req = result.missingRequirements[0];
         lines.push(`  - Missing: \`testID="${req.suggestedValue}"\``);
+      } else if (result.status === "flaky") {
+        lines.push(`  - ${result.message}`);
       }
     }
 
@@ -362,6 +371,9 @@ export function generateSummaryString(report: AcceptanceReport): string {
   lines.push(`**Pass Rate:** ${summary.passRate}% (${summary.passed}/${summary.total - summary.skipped} testable)`);
   lines.push("");
   lines.push(`- Passed: ${summary.passed}`);
+  if (summary.flaky > 0) {
+    lines.push(`- Flaky: ${summary.flaky}`);
+  }
   lines.push(`- Failed: ${summary.failed}`);
   lines.push(`- Blocked: ${summary.blocked}`);
   lines.push(`- Skipped: ${summary.skipped}`);
@@ -382,6 +394,8 @@ function getStatusIcon(status: string): string {
   switch (status) {
     case "pass":
       return "[x]";
+    case "flaky":
+      return "[~]";
     case "fail":
       return "[ ]";
     case "blocked":
@@ -402,6 +416,8 @@ function getStatusLabel(status: string): string {
   switch (status) {
     case "pass":
       return "PASS";
+    case "flaky":
+      return "FLAKY";
     case "fail":
       return "FAIL";
     case "blocked":
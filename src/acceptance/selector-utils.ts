@@ -5,30 +5,26 @@
 
 import type { ElementSelector } from "./types.js";
 import type { Selector } from "../mcp/schemas.js";
+import { selectorToDetoxExpr, buildElementExpr } from "../detox/selectors.js";
 
 /**
  * Convert our ElementSelector to Detox Selector format
  */
 export function toDetoxSelector(selector: ElementSelector): Selector {
-  return {
-    by: selector.by,
-    value: selector.value,
-  };
+  const { confidence: _confidence, ...detoxSelector } = selector;
+  return detoxSelector;
 }
 
 /**
- * Convert selector to Detox expression string
+ * Convert selector to Detox matcher expression string
  */
 export function selectorToExpression(selector: Selector): string {
-  const value = JSON.stringify(selector.value);
-  switch (selector.by) {
-    case "id":
-      return `by.id(${value})`;
-    case "text":
-      return `by.text(${value})`;
-    case "label":
-      return `by.label(${value})`;
-    default:
-      return `by.id(${value})`;
-  }
+  return selectorToDetoxExpr(selector);
+}
+
+/**
+ * Convert selector to a Detox element expression, honouring its index
+ */
+export function selectorToElementExpression(selector: Selector): string {
+  return buildElementExpr(selector);
 }
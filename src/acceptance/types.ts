@@ -2,6 +2,8 @@
  * Type definitions for Acceptance Criteria Testing
  */
 
+import type { Selector } from "../mcp/schemas.js";
+
 /**
  * Type of criterion - determines how it should be tested
  */
@@ -20,13 +22,11 @@ export type CriterionType =
   | "manual";            // Cannot be automated, needs manual check
 
 /**
- * Selector for identifying UI elements
+ * Selector for identifying UI elements (any MCP selector, plus inference confidence)
  */
-export interface ElementSelector {
-  by: "id" | "text" | "label";
-  value: string;
+export type ElementSelector = Selector & {
   confidence: number;  // 0-1, how confident we are in this inference
-}
+};
 
 /**
  * Configuration extracted from criterion text for execution
@@ -137,7 +137,7 @@ export interface MissingRequirement {
 /**
  * Result status for a criterion check
  */
-export type CriterionStatus = "pass" | "fail" | "skip" | "blocked" | "error";
+export type CriterionStatus = "pass" | "flaky" | "fail" | "skip" | "blocked" | "error";
 
 /**
  * Evidence collected during a check
@@ -196,6 +196,7 @@ export interface FlowStepResult {
 export interface ReportSummary {
   total: number;
   passed: number;
+  flaky: number;            // Passed only on a retry; not counted as passed
   failed: number;
   skipped: number;
   blocked: number;
@@ -246,6 +247,7 @@ export interface AcceptanceRunOptions {
   skipManual?: boolean;          // Skip manual criteria (default: true)
   captureEvidenceOnPass?: boolean;
   timeout?: number;              // Per-criterion timeout in ms
+  retries?: number;              // Retries for a failing check; passing on a retry is "flaky"
 }
 
 /**
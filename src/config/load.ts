@@ -42,6 +42,10 @@ export async function loadConfig(configPath?: string): Promise<McpConfig> {
       artifactManager.setRootDir(config.artifactsRoot);
     }
 
+    if (config.flowsDir) {
+      config.flowsDir = resolve(configDir, config.flowsDir);
+    }
+
     if (config.visual.baselineDir) {
       config.visual.baselineDir = resolve(configDir, config.visual.baselineDir);
     }
@@ -4,12 +4,25 @@
 
 import { z } from "zod";
 
+// Detox's own artifact plugins; values are passed to the matching `detox test` flags
+export const DetoxArtifactsConfigSchema = z.object({
+  recordVideos: z.enum(["none", "failing", "all"]).default("none"),
+  takeScreenshots: z.enum(["none", "manual", "failing", "all"]).default("none"),
+  recordLogs: z.enum(["none", "failing", "all"]).default("none"),
+  captureViewHierarchy: z.enum(["disabled", "enabled"]).default("disabled"),
+});
+
 export const DetoxConfigSchema = z.object({
   configuration: z.string().default("ios.sim.debug"),
   reuseSession: z.boolean().default(false),
   jestBinary: z.string().default("node_modules/.bin/jest"),
   detoxBinary: z.string().default("node_modules/.bin/detox"),
   testTimeoutMs: z.number().default(120000),
+  worker: z.boolean().default(true),
+  workerMaxRestarts: z.number().int().min(0).default(3),
+  hierarchyOnFailure: z.boolean().default(true),
+  artifacts: DetoxArtifactsConfigSchema.default({}),
+  buildTimeoutMs: z.number().default(1800000),
 });
 
 export const ExpoConfigSchema = z.object({
@@ -29,6 +42,7 @@ export const LogsConfigSchema = z.object({
 export const McpConfigSchema = z.object({
   projectPath: z.string(),
   artifactsRoot: z.string().optional(),
+  flowsDir: z.string().optional(),
   defaultDeviceName: z.string().default("iPhone 15"),
   detox: DetoxConfigSchema.default({}),
   expo: ExpoConfigSchema.default({}),
@@ -38,6 +52,7 @@ export const McpConfigSchema = z.object({
 
 export type McpConfig = z.infer<typeof McpConfigSchema>;
 export type DetoxConfig = z.infer<typeof DetoxConfigSchema>;
+export type DetoxArtifactsConfig = z.infer<typeof DetoxArtifactsConfigSchema>;
 export type ExpoConfig = z.infer<typeof ExpoConfigSchema>;
 export type VisualConfig = z.infer<typeof VisualConfigSchema>;
 export type LogsConfig = z.infer<typeof LogsConfigSchema>;
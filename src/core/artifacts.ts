@@ -7,7 +7,7 @@ import { join, dirname } from "path";
 import { existsSync } from "fs";
 
 export interface ArtifactInfo {
-  type: "screenshot" | "video" | "diff" | "baseline" | "log" | "report" | "design" | "overlay";
+  type: "screenshot" | "video" | "diff" | "baseline" | "log" | "report" | "design" | "overlay" | "hierarchy";
   path: string;
   createdAt: string;
   metadata?: Record<string, unknown>;
@@ -85,12 +85,42 @@ class ArtifactManager {
     return join(dir, filename);
   }
 
+  async getHierarchyPath(name: string, extension: "json" | "xml" = "json"): Promise<string> {
+    const dir = await this.ensureDir("hierarchy");
+    const timestamp = Date.now();
+    const filename = `${name}_${timestamp}.${extension}`;
+    return join(dir, filename);
+  }
+
+  /**
+   * Directory for the files Detox recorded during one action (videos, logs, ...)
+   */
+  async getDetoxArtifactsDir(name: string): Promise<string> {
+    const timestamp = Date.now();
+    return this.ensureDir(join("detox", `${name}_${timestamp}`));
+  }
+
   getBaselinePath(configuration: string, device: string, name: string): string {
     const baselineDir = process.env.MCP_BASELINE_DIR || join(this.rootDir, "baselines");
     const safeDevice = device.replace(/\s+/g, "_");
     return join(baselineDir, configuration, safeDevice, `${name}.png`);
   }
 
+  /**
+   * Cached app binaries, shared across sessions like baselines
+   */
+  getBuildCacheDir(configuration: string, fingerprint: string): string {
+    const cacheDir = process.env.MCP_BUILD_CACHE_DIR || join(this.rootDir, "build-cache");
+    return join(cacheDir, configuration, fingerprint);
+  }
+
+  /**
+   * JSON store of action and selector outcomes, kept across sessions
+   */
+  getFlakinessStorePath(): string {
+    return process.env.MCP_FLAKINESS_STORE || join(this.rootDir, "flakiness.json");
+  }
+
   async saveBaseline(
     configuration: string,
     device: string,
@@ -7,6 +7,10 @@ export type ErrorCode =
   | "SIM_NOT_FOUND"
   | "SIMCTL_FAILED"
   | "SIMCTL_TIMEOUT"
+  | "SIM_DEVICE_TYPE_NOT_FOUND"
+  | "SIM_RUNTIME_NOT_FOUND"
+  | "APP_NOT_INSTALLED"
+  | "APP_BUNDLE_INVALID"
   | "EXPO_NOT_RUNNING"
   | "EXPO_START_FAILED"
   | "EXPO_CRASHED"
@@ -15,6 +19,14 @@ export type ErrorCode =
   | "DETOX_NOT_READY"
   | "DETOX_SESSION_FAILED"
   | "DETOX_TEST_FAILED"
+  | "DETOX_CONFIG_NOT_FOUND"
+  | "DETOX_CONFIG_INVALID"
+  | "DETOX_BUILD_FAILED"
+  | "DETOX_TESTS_NOT_FOUND"
+  | "DETOX_TEST_PATH_INVALID"
+  | "DETOX_RECORDING_EMPTY"
+  | "DETOX_TEST_EXISTS"
+  | "DETOX_EXPORT_PATH_INVALID"
   | "ELEMENT_NOT_FOUND"
   | "ELEMENT_NOT_VISIBLE"
   | "TIMEOUT"
@@ -30,6 +42,12 @@ export type ErrorCode =
   | "AC_CRITERION_NOT_FOUND"
   | "AC_FLOW_NOT_FOUND"
   | "AC_NO_INPUT"
+  | "FLOW_VARIABLE_NOT_FOUND"
+  | "FLOW_NOT_FOUND"
+  | "FLOW_INVALID"
+  | "FLOW_EXISTS"
+  | "MAESTRO_PARSE_FAILED"
+  | "SNIPPET_REJECTED"
   | "INTERNAL_ERROR";
 
 export interface McpError {
@@ -75,6 +93,14 @@ export const ErrorRemediation: Record<ErrorCode, string> = {
     "Check Xcode installation and that Command Line Tools are properly configured.",
   SIMCTL_TIMEOUT:
     "The simulator operation timed out. Try again or check if the simulator is responsive.",
+  SIM_DEVICE_TYPE_NOT_FOUND:
+    "Check available device types with simulator.list_device_types and use a listed name or identifier.",
+  SIM_RUNTIME_NOT_FOUND:
+    "Check installed runtimes with simulator.list_device_types, or install the runtime from Xcode > Settings > Platforms.",
+  APP_NOT_INSTALLED:
+    "Check installed apps with app.list and install the app first using app.install.",
+  APP_BUNDLE_INVALID:
+    "Pass a built .app bundle (e.g. from detox.build) or a .tar.gz archive containing one.",
   EXPO_NOT_RUNNING:
     "Start Expo/Metro first using expo.start before running UI commands.",
   EXPO_START_FAILED:
@@ -91,6 +117,22 @@ export const ErrorRemediation: Record<ErrorCode, string> = {
     "Detox session initialization failed. Check Detox configuration and that the app is installed.",
   DETOX_TEST_FAILED:
     "The Detox action failed. Check the element selector and app state.",
+  DETOX_CONFIG_NOT_FOUND:
+    "No Detox config found. Add .detoxrc.js, .detoxrc.json or a \"detox\" section to package.json in the project.",
+  DETOX_CONFIG_INVALID:
+    "Detox configuration is invalid. Use detox.configurations to list configurations, build the app with detox.build and create a matching simulator.",
+  DETOX_TESTS_NOT_FOUND:
+    "No test files matched. Paths and globs are relative to the project, e.g. e2e/**/*.test.js.",
+  DETOX_TEST_PATH_INVALID:
+    "Pass test files and globs relative to the project, e.g. e2e/login.test.js, that do not leave the project.",
+  DETOX_RECORDING_EMPTY:
+    "Nothing to export. Start a Detox session with detox.session.start and run ui.* actions; only successful actions are recorded.",
+  DETOX_TEST_EXISTS:
+    "A test file with this name already exists. Use overwrite: true to replace it or pick another name.",
+  DETOX_EXPORT_PATH_INVALID:
+    "Pass a directory relative to the project, e.g. \"e2e\", that does not leave the project.",
+  DETOX_BUILD_FAILED:
+    "The app build failed. Check the build log for the failing step (pods, signing, compile errors) and the configuration's build command.",
   ELEMENT_NOT_FOUND:
     "Element not found. Verify the testID/selector exists in the current screen.",
   ELEMENT_NOT_VISIBLE:
@@ -122,6 +164,18 @@ export const ErrorRemediation: Record<ErrorCode, string> = {
     "Test flow not found. Verify the flow name matches a flow in the acceptance criteria file (e.g., 'Flow 1: ...').",
   AC_NO_INPUT:
     "No input provided. Specify either filePath or content parameter.",
+  FLOW_VARIABLE_NOT_FOUND:
+    "A ${var} reference could not be resolved. Pass it in variables or capture it from an earlier step.",
+  FLOW_NOT_FOUND:
+    "Saved flow not found. Use flow.list to see available flows.",
+  FLOW_INVALID:
+    "Flow definition is invalid. Check the step list and parameter definitions against the flow.run schema.",
+  FLOW_EXISTS:
+    "A flow with this name already exists. Use overwrite: true to replace it.",
+  MAESTRO_PARSE_FAILED:
+    "Failed to parse the Maestro flow. Check that it is valid YAML with an optional header, ---, and a list of commands.",
+  SNIPPET_REJECTED:
+    "The snippet uses something outside the allowlist. Only element, by, expect, waitFor and device calls are allowed; fix the listed violations.",
   INTERNAL_ERROR:
     "An unexpected internal error occurred. Check server logs for details.",
 };
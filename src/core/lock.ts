@@ -156,3 +156,12 @@ export async function withLock<T>(
     lockManager.release(resource);
   }
 }
+
+/**
+ * Lock resource for one simulator. Every tool that drives a simulator (lifecycle, Detox
+ * sessions, suites and actions, app installs) shares it, so they never overlap on the same
+ * device while several devices still run side by side
+ */
+export function deviceResource(udid?: string): string {
+  return udid ? `device:${udid}` : "device";
+}
@@ -2,6 +2,8 @@
  * Global state machine for MCP iOS Detox Server
  */
 
+import type { DetoxArtifactsConfig } from "../config/schema.js";
+
 export type SimulatorState = "unknown" | "booting" | "booted" | "shutdown";
 export type ExpoState = "stopped" | "starting" | "running" | "crashed";
 export type DetoxState = "idle" | "starting" | "ready" | "running" | "failed";
@@ -10,6 +12,8 @@ export interface SimulatorInfo {
   state: SimulatorState;
   udid?: string;
   deviceName?: string;
+  // Short name for addressing the device, e.g. "phone", "tablet" or "alice"
+  role?: string;
 }
 
 export interface ExpoInfo {
@@ -18,67 +22,187 @@ export interface ExpoInfo {
   metroUrl?: string;
 }
 
+export type DetoxRunMode = "worker" | "process";
+
+// Set by app.launch, app.terminate and device.send_to_home
+export type DetoxAppState = "foreground" | "background" | "terminated";
+
 export interface DetoxInfo {
   state: DetoxState;
   sessionId?: string;
   configuration?: string;
+  mode?: DetoxRunMode;
+  synchronization?: boolean;
+  urlBlacklist?: string[];
+  artifacts?: DetoxArtifactsConfig;
+  // UDID the session is pinned to; unset when Detox picks the device from its configuration
+  device?: string;
+  // Unset until the app is launched, terminated or sent home through a tool
+  appState?: DetoxAppState;
 }
 
 export interface GlobalState {
+  // The default device, used when a tool is called without `device`
   simulator: SimulatorInfo;
+  simulators: SimulatorInfo[];
   expo: ExpoInfo;
+  // The Detox session tools use when called without `device`
   detox: DetoxInfo;
+  detoxSessions: Record<string, DetoxInfo>;
 }
 
+// Key of the Detox session that is not pinned to a device
+export const DEFAULT_DETOX_SESSION = "default";
+
+const PRIMARY_ROLE = "primary";
+
 class StateManager {
-  private state: GlobalState;
+  private simulators = new Map<string, SimulatorInfo>();
+  private defaultUdid?: string;
+  private expo: ExpoInfo = { state: "stopped" };
+  private detoxSessions = new Map<string, DetoxInfo>();
 
-  constructor() {
-    this.state = {
-      simulator: { state: "unknown" },
-      expo: { state: "stopped" },
-      detox: { state: "idle" },
+  getState(): GlobalState {
+    return {
+      simulator: this.getSimulator(),
+      simulators: this.getSimulators(),
+      expo: this.getExpo(),
+      detox: this.getDetox(),
+      detoxSessions: Object.fromEntries(
+        [...this.detoxSessions.entries()].map(([key, info]) => [key, { ...info }])
+      ),
     };
   }
 
-  getState(): GlobalState {
-    return { ...this.state };
+  /**
+   * Get a tracked device by UDID, role or name; the default device when no reference is given
+   */
+  getSimulator(device?: string): SimulatorInfo {
+    const info = device ? this.findSimulator(device) : this.defaultUdid ? this.simulators.get(this.defaultUdid) : undefined;
+    return info ? { ...info } : { state: "unknown" };
+  }
+
+  getSimulators(): SimulatorInfo[] {
+    return [...this.simulators.values()].map((info) => ({ ...info }));
+  }
+
+  getDefaultSimulatorUdid(): string | undefined {
+    return this.defaultUdid;
   }
 
-  getSimulator(): SimulatorInfo {
-    return { ...this.state.simulator };
+  findSimulator(device: string): SimulatorInfo | undefined {
+    const simulators = [...this.simulators.values()];
+    return (
+      this.simulators.get(device) ??
+      simulators.find((info) => info.role === device) ??
+      simulators.find((info) => info.deviceName === device)
+    );
   }
 
   getExpo(): ExpoInfo {
-    return { ...this.state.expo };
+    return { ...this.expo };
   }
 
-  getDetox(): DetoxInfo {
-    return { ...this.state.detox };
+  /**
+   * Get a Detox session by key (see resolveDetoxSession); idle when there is none
+   */
+  getDetox(session: string = this.resolveDetoxSession()): DetoxInfo {
+    const info = this.detoxSessions.get(session);
+    return info ? { ...info } : { state: "idle" };
   }
 
-  updateSimulator(update: Partial<SimulatorInfo>): void {
-    this.state.simulator = { ...this.state.simulator, ...update };
+  getDetoxSessions(): Map<string, DetoxInfo> {
+    return new Map(this.detoxSessions);
+  }
+
+  /**
+   * Session key for a device reference: the device's UDID, or when no device is given the
+   * only session, the default device's session or the unpinned session
+   */
+  resolveDetoxSession(device?: string): string {
+    if (device) {
+      const udid = this.findSimulator(device)?.udid ?? device;
+      if (!this.detoxSessions.has(udid) && udid === this.defaultUdid && this.detoxSessions.has(DEFAULT_DETOX_SESSION)) {
+        return DEFAULT_DETOX_SESSION;
+      }
+      return udid;
+    }
+
+    if (this.detoxSessions.size === 1) {
+      return [...this.detoxSessions.keys()][0];
+    }
+    if (this.defaultUdid && this.detoxSessions.has(this.defaultUdid)) {
+      return this.defaultUdid;
+    }
+    return DEFAULT_DETOX_SESSION;
+  }
+
+  /**
+   * Track or update a device; the first tracked device becomes the default and gets the
+   * "primary" role unless another role is given. Roles are unique across devices
+   */
+  updateSimulator(update: Partial<SimulatorInfo>, udid: string | undefined = update.udid ?? this.defaultUdid): void {
+    if (!udid) return;
+
+    const existing = this.simulators.get(udid);
+    const info: SimulatorInfo = { ...(existing ?? { state: "unknown" }), ...update, udid };
+
+    if (!info.role) {
+      info.role = this.findSimulator(PRIMARY_ROLE) ? `device-${this.simulators.size + 1}` : PRIMARY_ROLE;
+    }
+    for (const other of this.simulators.values()) {
+      if (other.udid !== udid && other.role === info.role) {
+        other.role = undefined;
+      }
+    }
+
+    this.simulators.set(udid, info);
+    if (!this.defaultUdid) {
+      this.defaultUdid = udid;
+    }
+  }
+
+  /**
+   * Stop tracking a device; the next booted device becomes the default
+   */
+  removeSimulator(udid: string): void {
+    this.simulators.delete(udid);
+
+    if (this.defaultUdid === udid) {
+      const next =
+        [...this.simulators.values()].find((info) => info.state === "booted") ?? [...this.simulators.values()][0];
+      this.defaultUdid = next?.udid;
+    }
   }
 
   updateExpo(update: Partial<ExpoInfo>): void {
-    this.state.expo = { ...this.state.expo, ...update };
+    this.expo = { ...this.expo, ...update };
   }
 
-  updateDetox(update: Partial<DetoxInfo>): void {
-    this.state.detox = { ...this.state.detox, ...update };
+  updateDetox(update: Partial<DetoxInfo>, session: string = this.resolveDetoxSession()): void {
+    this.detoxSessions.set(session, { ...(this.detoxSessions.get(session) ?? { state: "idle" }), ...update });
   }
 
-  isSimulatorReady(): boolean {
-    return this.state.simulator.state === "booted";
+  removeDetoxSession(session: string): void {
+    this.detoxSessions.delete(session);
+  }
+
+  isSimulatorReady(device?: string): boolean {
+    return this.getSimulator(device).state === "booted";
   }
 
   isExpoRunning(): boolean {
-    return this.state.expo.state === "running";
+    return this.expo.state === "running";
   }
 
-  isDetoxReady(): boolean {
-    return this.state.detox.state === "ready";
+  isDetoxReady(session?: string): boolean {
+    return this.getDetox(session).state === "ready";
+  }
+
+  // False once the app was sent home or terminated; relaunching it would undo that
+  isDetoxAppForeground(session?: string): boolean {
+    const { appState } = this.getDetox(session);
+    return appState !== "background" && appState !== "terminated";
   }
 
   canRunUiCommands(): boolean {
@@ -86,11 +210,10 @@ class StateManager {
   }
 
   reset(): void {
-    this.state = {
-      simulator: { state: "unknown" },
-      expo: { state: "stopped" },
-      detox: { state: "idle" },
-    };
+    this.simulators.clear();
+    this.defaultUdid = undefined;
+    this.expo = { state: "stopped" };
+    this.detoxSessions.clear();
   }
 }
 
@@ -3,8 +3,14 @@
  * Each function generates the JavaScript code to be embedded in the micro-test
  */
 
-import type { Selector, Direction } from "../mcp/schemas.js";
-import { buildElementExpr, selectorToDetoxExpr } from "./selectors.js";
+import type {
+  Selector,
+  Direction,
+  UiBatchAction,
+  AppLaunchOptions,
+  AssertionType,
+} from "../mcp/schemas.js";
+import { buildElementExpr, selectorToDetoxExpr, describeSelector } from "./selectors.js";
 
 export interface TapOptions {
   selector: Selector;
@@ -64,6 +70,106 @@ export function generateScrollSnippet(options: ScrollOptions): string {
   return `await ${el}.scroll(${amount}, '${options.direction}', ${startX}, ${startY});`;
 }
 
+export interface ScrollUntilVisibleOptions {
+  selector: Selector;
+  direction: Direction;
+  scrollSelector?: Selector;
+  amount?: number;
+}
+
+export function generateScrollUntilVisibleSnippet(options: ScrollUntilVisibleOptions): string {
+  const matcher = selectorToDetoxExpr(options.selector);
+  // Without an explicit container, scroll the first React Native scroll view
+  const scrollMatcher = options.scrollSelector
+    ? selectorToDetoxExpr(options.scrollSelector)
+    : "by.type('RCTScrollView')";
+  const amount = options.amount ?? 200;
+
+  return `await waitFor(element(${matcher})).toBeVisible().whileElement(${scrollMatcher}).scroll(${amount}, '${options.direction}');`;
+}
+
+export interface PinchOptions {
+  selector: Selector;
+  scale: number;
+  speed?: "fast" | "slow";
+  angle?: number;
+}
+
+export function generatePinchSnippet(options: PinchOptions): string {
+  const el = buildElementExpr(options.selector);
+  const speed = options.speed ?? "fast";
+  const angle = options.angle ?? 0;
+  return `await ${el}.pinch(${options.scale}, '${speed}', ${angle});`;
+}
+
+export interface MultiTapOptions {
+  selector: Selector;
+  times?: number;
+}
+
+export function generateMultiTapSnippet(options: MultiTapOptions): string {
+  const el = buildElementExpr(options.selector);
+  return `await ${el}.multiTap(${options.times ?? 2});`;
+}
+
+export interface TapAtOptions {
+  x: number;
+  y: number;
+}
+
+export function generateTapAtSnippet(options: TapAtOptions): string {
+  return `await device.tap({ x: ${options.x}, y: ${options.y} });`;
+}
+
+export interface DragOptions {
+  selector: Selector;
+  target?: Selector;
+  point?: { x: number; y: number };
+  duration?: number;
+  startX?: number;
+  startY?: number;
+  targetX?: number;
+  targetY?: number;
+  speed?: "fast" | "slow";
+  holdDuration?: number;
+}
+
+export function generateDragSnippet(options: DragOptions): string {
+  if (!options.target === !options.point) {
+    throw new Error("Drag needs exactly one of target or point");
+  }
+
+  const el = buildElementExpr(options.selector);
+  const duration = options.duration ?? 1000;
+  const startX = options.startX ?? 0.5;
+  const startY = options.startY ?? 0.5;
+  const speed = options.speed ?? "slow";
+  const holdDuration = options.holdDuration ?? 1000;
+
+  if (options.target) {
+    const target = buildElementExpr(options.target);
+    const targetX = options.targetX ?? 0.5;
+    const targetY = options.targetY ?? 0.5;
+    return `await ${el}.longPressAndDrag(${duration}, ${startX}, ${startY}, ${target}, ${targetX}, ${targetY}, '${speed}', ${holdDuration});`;
+  }
+
+  // longPressAndDrag only drops on elements: target the window at the normalized point
+  const { x, y } = options.point!;
+  return `const dropWindow = element(by.type('UIWindow')).atIndex(0);
+      const windowFrame = (await dropWindow.getAttributes()).frame;
+      await ${el}.longPressAndDrag(${duration}, ${startX}, ${startY}, dropWindow, ${x} / windowFrame.width, ${y} / windowFrame.height, '${speed}', ${holdDuration});`;
+}
+
+export interface ScrollToEdgeOptions {
+  selector: Selector;
+  edge: "top" | "bottom" | "left" | "right";
+}
+
+export function generateScrollToEdgeSnippet(options: ScrollToEdgeOptions): string {
+  const el = buildElementExpr(options.selector);
+  return `await ${el}.scrollTo('${options.edge}');`;
+}
+
 export interface TypeOptions {
   selector: Selector;
   text: string;
@@ -87,22 +193,112 @@ export function generateTypeSnippet(options: TypeOptions): string {
   return lines.join("\n      ");
 }
 
-export type KeyType = "return" | "backspace" | "delete";
+export type KeyType = "return" | "backspace" | "delete" | "next" | "dismiss";
+
+// Class names of the view hosting the software keyboard, newest iOS first
+const KEYBOARD_VIEW_TYPES = ["UIInputSetHostView", "UIKeyboardImpl"];
+
+// Gap kept between the tap that dismisses the keyboard and the input or keyboard edges
+const DISMISS_TAP_MARGIN = 20;
+
+/**
+ * Press a keyboard key on the given input, or on the first text field when no selector is given
+ */
+export function generatePressKeySnippet(key: KeyType, selector?: Selector): string {
+  const el = selector ? buildElementExpr(selector) : `element(by.type('UITextField')).atIndex(0)`;
 
-export function generatePressKeySnippet(key: KeyType): string {
   switch (key) {
     case "return":
-      return `await element(by.type('UITextField')).atIndex(0).tapReturnKey();`;
+      return `await ${el}.tapReturnKey();`;
     case "backspace":
-      return `await element(by.type('UITextField')).atIndex(0).tapBackspaceKey();`;
     case "delete":
       // Delete key is same as backspace on iOS
-      return `await element(by.type('UITextField')).atIndex(0).tapBackspaceKey();`;
+      return `await ${el}.tapBackspaceKey();`;
+    case "next":
+      // iOS has no tab key; React Native moves focus from a returnKeyType="next" field on submit.
+      // A field without a next field keeps focus or closes the keyboard, so check both
+      return `const inputEl = ${el};
+      await inputEl.tapReturnKey();
+      ${generateKeyboardProbe()}
+      let focusMoved = keyboard.shown;
+      if (focusMoved) {
+        try {
+          await expect(inputEl).not.toBeFocused();
+        } catch (e) {
+          focusMoved = false;
+        }
+      }
+      if (!focusMoved) {
+        throw new Error('Focus did not move to another input after tapping return; give the field returnKeyType="next" and focus the next field in onSubmitEditing');
+      }`;
+    case "dismiss":
+      return generateDismissKeyboardSnippet(el, selector);
     default:
       throw new Error(`Unsupported key: ${key}`);
   }
 }
 
+/**
+ * Close the keyboard: return on single-line fields, a tap outside the input otherwise
+ * (multi-line UITextViews insert a newline on return)
+ */
+function generateDismissKeyboardSnippet(el: string, selector?: Selector): string {
+  const multilineCheck = selector
+    ? `try {
+        await expect(element(${selectorToDetoxExpr(selector)}.and(by.type('UITextView')))).toExist();
+        multiline = true;
+      } catch (e) {
+        // Not a UITextView
+      }`
+    : "";
+
+  return `const inputEl = ${el};
+      let multiline = false;
+      ${multilineCheck}
+      if (!multiline) {
+        await inputEl.tapReturnKey();
+      }
+      ${generateKeyboardProbe()}
+      if (keyboard.shown) {
+        // Tap the left edge between the input and the keyboard, or above the input when there is no room
+        const inputFrame = (await inputEl.getAttributes()).frame;
+        const inputBottom = inputFrame.y + inputFrame.height;
+        const keyboardTop = keyboard.frame ? keyboard.frame.y : inputBottom;
+        const y = keyboardTop - inputBottom > ${DISMISS_TAP_MARGIN * 2}
+          ? Math.round((inputBottom + keyboardTop) / 2)
+          : Math.max(inputFrame.y - ${DISMISS_TAP_MARGIN}, 1);
+        await device.tap({ x: 1, y });
+        ${generateKeyboardProbe(false)}
+        if (keyboard.shown) {
+          throw new Error('Keyboard is still shown after tapping return and tapping outside the input');
+        }
+      }`;
+}
+
+/**
+ * Report whether the software keyboard is shown, and its frame
+ */
+export function generateKeyboardStateSnippet(): string {
+  return `${generateKeyboardProbe()}
+      capturedData = { keyboard };`;
+}
+
+// Pass declare: false to probe again into an existing keyboard variable
+function generateKeyboardProbe(declare = true): string {
+  return `${declare ? "let " : ""}keyboard = { shown: false };
+      for (const keyboardType of ${JSON.stringify(KEYBOARD_VIEW_TYPES)}) {
+        try {
+          const attributes = await element(by.type(keyboardType)).atIndex(0).getAttributes();
+          if (attributes.visible !== false) {
+            keyboard = { shown: true, frame: attributes.frame };
+            break;
+          }
+        } catch (e) {
+          // Keyboard view not in the hierarchy
+        }
+      }`;
+}
+
 export interface WaitForOptions {
   selector: Selector;
   visible?: boolean;
@@ -164,16 +360,212 @@ export function generateAssertExistsSnippet(options: AssertExistsOptions): strin
   return `await expect(${el}).not.toExist();`;
 }
 
+export interface AssertOptions {
+  selector: Selector;
+  assertion: AssertionType;
+  expected?: string | number | boolean;
+  not?: boolean;
+  percent?: number;
+  tolerance?: number;
+}
+
+export function generateAssertSnippet(options: AssertOptions): string {
+  const el = buildElementExpr(options.selector);
+  const expectation = options.not ? `expect(${el}).not` : `expect(${el})`;
+  return `await ${expectation}.${options.assertion}(${assertionArgs(options).join(", ")});`;
+}
+
+function assertionArgs(options: AssertOptions): string[] {
+  const { assertion, expected } = options;
+
+  switch (assertion) {
+    case "toBeVisible":
+      return options.percent !== undefined ? [String(options.percent)] : [];
+    case "toExist":
+    case "toBeFocused":
+      return [];
+    case "toHaveText":
+    case "toHaveLabel":
+    case "toHaveId":
+    case "toHaveValue":
+      if (expected === undefined) {
+        throw new Error(`${assertion} needs an expected value`);
+      }
+      return [JSON.stringify(String(expected))];
+    case "toHaveToggleValue":
+      if (typeof expected !== "boolean") {
+        throw new Error("toHaveToggleValue needs a boolean expected value");
+      }
+      return [String(expected)];
+    case "toHaveSliderPosition":
+      if (typeof expected !== "number") {
+        throw new Error("toHaveSliderPosition needs a numeric expected position (0-1)");
+      }
+      return options.tolerance !== undefined
+        ? [String(expected), String(options.tolerance)]
+        : [String(expected)];
+    default:
+      throw new Error(`Unsupported assertion: ${assertion}`);
+  }
+}
+
+export function describeAssert(options: AssertOptions): string {
+  const assertion = options.not ? `not.${options.assertion}` : options.assertion;
+  return `assert:${assertion}:${describeSelector(options.selector)}`;
+}
+
 export function generateScreenshotSnippet(name: string): string {
   const escapedName = JSON.stringify(name);
   return `const screenshotPath = await device.takeScreenshot(${escapedName});
       capturedData = { screenshotPath };`;
 }
 
-export function generateLaunchAppSnippet(newInstance: boolean = false): string {
-  return `await device.launchApp({ newInstance: ${newInstance} });`;
+export function generateGetAttributesSnippet(selector: Selector): string {
+  const el = buildElementExpr(selector);
+  return `const attributes = await ${el}.getAttributes();
+      capturedData = { attributes };`;
+}
+
+export function generateViewHierarchySnippet(): string {
+  return `const hierarchyXml = await device.generateViewHierarchyXml();
+      capturedData = { hierarchyXml };`;
+}
+
+export function generateLaunchAppSnippet(options: AppLaunchOptions = { newInstance: false }): string {
+  return `await device.launchApp(${JSON.stringify(options)});`;
+}
+
+export function generateTerminateAppSnippet(): string {
+  return `await device.terminateApp();`;
 }
 
 export function generateReloadReactNativeSnippet(): string {
   return `await device.reloadReactNative();`;
 }
+
+export function generateSetOrientationSnippet(orientation: "portrait" | "landscape"): string {
+  return `await device.setOrientation(${JSON.stringify(orientation)});`;
+}
+
+export interface SyncOptions {
+  synchronization?: boolean;
+  urlBlacklist?: string[];
+}
+
+export function generateSyncSnippet(options: SyncOptions): string {
+  const lines: string[] = [];
+  if (options.urlBlacklist !== undefined) {
+    lines.push(`await device.setURLBlacklist(${JSON.stringify(options.urlBlacklist)});`);
+  }
+  if (options.synchronization === false) {
+    lines.push(`await device.disableSynchronization();`);
+  } else if (options.synchronization === true) {
+    lines.push(`await device.enableSynchronization();`);
+  }
+  return lines.join("\n    ");
+}
+
+/**
+ * Re-apply non-default session sync settings in a new Detox process (micro-test or restarted worker)
+ */
+export function generateSessionSetupSnippet(settings: SyncOptions): string {
+  return generateSyncSnippet({
+    synchronization: settings.synchronization === false ? false : undefined,
+    urlBlacklist: settings.urlBlacklist?.length ? settings.urlBlacklist : undefined,
+  });
+}
+
+export function generateShakeSnippet(): string {
+  return `await device.shake();`;
+}
+
+export function generateSendToHomeSnippet(): string {
+  return `await device.sendToHome();`;
+}
+
+/**
+ * Generate the snippet for one ui.batch action descriptor
+ */
+export function generateBatchActionSnippet(action: UiBatchAction): string {
+  switch (action.action) {
+    case "tap":
+      return generateTapSnippet(action);
+    case "long_press":
+      return generateLongPressSnippet(action);
+    case "swipe":
+      return generateSwipeSnippet(action);
+    case "scroll":
+      return generateScrollSnippet(action);
+    case "type":
+      return generateTypeSnippet(action);
+    case "press_key":
+      return generatePressKeySnippet(action.key, action.selector);
+    case "wait_for":
+      return generateWaitForSnippet(action);
+    case "assert_text":
+      return generateAssertTextSnippet(action);
+    case "assert":
+      return generateAssertSnippet(action);
+    case "pinch":
+      return generatePinchSnippet(action);
+    case "multi_tap":
+      return generateMultiTapSnippet(action);
+    case "tap_at":
+      return generateTapAtSnippet(action);
+    case "drag":
+      return generateDragSnippet(action);
+    case "scroll_to_edge":
+      return generateScrollToEdgeSnippet(action);
+    case "scroll_until_visible":
+      return generateScrollUntilVisibleSnippet(action);
+  }
+}
+
+export function describePressKey(key: KeyType, selector?: Selector): string {
+  return selector ? `pressKey:${key}:${describeSelector(selector)}` : `pressKey:${key}`;
+}
+
+export function describeDrag(options: DragOptions): string {
+  const destination = options.target
+    ? describeSelector(options.target)
+    : `${options.point?.x},${options.point?.y}`;
+  return `drag:${describeSelector(options.selector)}->${destination}`;
+}
+
+/**
+ * Action name used in logs and results, matching the single-action ui.* tools
+ */
+export function describeBatchAction(action: UiBatchAction): string {
+  switch (action.action) {
+    case "tap":
+      return `tap:${describeSelector(action.selector)}`;
+    case "long_press":
+      return `longPress:${describeSelector(action.selector)}`;
+    case "swipe":
+      return `swipe:${action.direction}:${describeSelector(action.selector)}`;
+    case "scroll":
+      return `scroll:${action.direction}:${describeSelector(action.selector)}`;
+    case "type":
+      return `type:${describeSelector(action.selector)}`;
+    case "press_key":
+      return describePressKey(action.key, action.selector);
+    case "wait_for":
+      return `waitFor:${describeSelector(action.selector)}`;
+    case "assert_text":
+      return `assertText:${describeSelector(action.selector)}`;
+    case "assert":
+      return describeAssert(action);
+    case "pinch":
+      return `pinch:${action.scale}:${describeSelector(action.selector)}`;
+    case "multi_tap":
+      return `multiTap:${action.times}:${describeSelector(action.selector)}`;
+    case "tap_at":
+      return `tapAt:${action.x},${action.y}`;
+    case "drag":
+      return describeDrag(action);
+    case "scroll_to_edge":
+      return `scrollTo:${action.edge}:${describeSelector(action.selector)}`;
+    case "scroll_until_visible":
+      return `scrollUntilVisible:${describeSelector(action.selector)}`;
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Detox artifacts
+ * Passes Detox's own artifact flags (videos, screenshots, logs, view hierarchy) to micro-tests
+ * and moves the files Detox writes into the session artifact directory
+ */
+
+import { readdir, rename, cp, rm, mkdir } from "fs/promises";
+import { existsSync } from "fs";
+import { join, relative, dirname, extname, sep } from "path";
+
+import { artifactManager, type ArtifactInfo } from "../core/artifacts.js";
+import { logger } from "../core/logger.js";
+import type { DetoxInfo } from "../core/state.js";
+import type { DetoxArtifactsConfig, McpConfig } from "../config/schema.js";
+import type { DetoxArtifactsOptions } from "../mcp/schemas.js";
+
+export interface CollectedArtifact {
+  path: string;
+  type: ArtifactInfo["type"];
+  // Detox groups artifacts in one folder per test, named after it
+  test?: string;
+}
+
+/**
+ * Effective settings for one action: config, then session, then per-action overrides
+ */
+export function resolveArtifactSettings(
+  config: McpConfig,
+  session: DetoxInfo,
+  override?: DetoxArtifactsOptions
+): DetoxArtifactsConfig {
+  const base = session.artifacts ?? config.detox.artifacts;
+  return mergeArtifactSettings(base, override);
+}
+
+export function mergeArtifactSettings(
+  base: DetoxArtifactsConfig,
+  override?: DetoxArtifactsOptions
+): DetoxArtifactsConfig {
+  const settings = { ...base };
+  for (const [key, value] of Object.entries(override ?? {})) {
+    if (value !== undefined) {
+      (settings as Record<string, unknown>)[key] = value;
+    }
+  }
+  return settings;
+}
+
+export function isRecordingArtifacts(settings: DetoxArtifactsConfig): boolean {
+  return (
+    settings.recordVideos !== "none" ||
+    settings.takeScreenshots !== "none" ||
+    settings.recordLogs !== "none" ||
+    settings.captureViewHierarchy === "enabled"
+  );
+}
+
+/**
+ * `detox test` flags for the enabled artifact plugins
+ */
+export function buildArtifactArgs(settings: DetoxArtifactsConfig, location: string): string[] {
+  // With a trailing separator Detox writes into the directory as-is, without a timestamped subfolder
+  const args = ["--artifacts-location", `${location}/`];
+
+  if (settings.recordVideos !== "none") {
+    args.push("--record-videos", settings.recordVideos);
+  }
+  if (settings.takeScreenshots !== "none") {
+    args.push("--take-screenshots", settings.takeScreenshots);
+  }
+  if (settings.recordLogs !== "none") {
+    args.push("--record-logs", settings.recordLogs);
+  }
+  if (settings.captureViewHierarchy === "enabled") {
+    args.push("--capture-view-hierarchy", "enabled");
+  }
+
+  return args;
+}
+
+/**
+ * Move everything Detox wrote for an action into the session dir and register it in the manifest
+ */
+export async function collectDetoxArtifacts(
+  location: string,
+  actionName: string
+): Promise<CollectedArtifact[]> {
+  if (!existsSync(location)) {
+    return [];
+  }
+
+  const collected: CollectedArtifact[] = [];
+
+  try {
+    const files = await listFiles(location);
+    if (files.length === 0) {
+      return [];
+    }
+
+    const targetDir = await artifactManager.getDetoxArtifactsDir(actionName.replace(/[^\w.=@-]+/g, "_"));
+
+    for (const file of files) {
+      const relativePath = relative(location, file);
+      const target = join(targetDir, relativePath);
+      await mkdir(dirname(target), { recursive: true });
+      await moveFile(file, target);
+
+      const segments = relativePath.split(sep);
+      const test = segments.length > 1 ? segments[0].replace(/^[✓✗]\s*/, "") : undefined;
+      const type = artifactType(file);
+
+      artifactManager.registerArtifact({
+        type,
+        path: target,
+        metadata: { action: actionName, source: "detox", ...(test ? { test } : {}) },
+      });
+      collected.push({ path: target, type, test });
+    }
+
+    logger.info("detox", `Collected ${collected.length} Detox artifact(s) for ${actionName}`);
+  } catch (error) {
+    logger.warn("detox", "Failed to collect Detox artifacts", {
+      location,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  } finally {
+    await rm(location, { recursive: true, force: true }).catch(() => undefined);
+  }
+
+  return collected;
+}
+
+// View hierarchies are written as directory bundles; each one is a single artifact
+const BUNDLE_EXTENSIONS = new Set([".viewhierarchy", ".uihierarchy"]);
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory() && BUNDLE_EXTENSIONS.has(extname(entry.name).toLowerCase())) {
+      files.push(path);
+    } else if (entry.isDirectory()) {
+      files.push(...(await listFiles(path)));
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+
+  return files;
+}
+
+async function moveFile(source: string, target: string): Promise<void> {
+  try {
+    await rename(source, target);
+  } catch (error) {
+    // rename fails across devices (e.g. project and artifacts root on different volumes)
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+    await cp(source, target, { recursive: true });
+    await rm(source, { recursive: true, force: true });
+  }
+}
+
+function artifactType(file: string): ArtifactInfo["type"] {
+  switch (extname(file).toLowerCase()) {
+    case ".mp4":
+    case ".mov":
+      return "video";
+    case ".png":
+    case ".jpg":
+      return "screenshot";
+    case ".viewhierarchy":
+    case ".uihierarchy":
+    case ".xml":
+      return "hierarchy";
+    case ".log":
+    case ".txt":
+      return "log";
+    default:
+      return "report";
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Element assertions
+ * Runs a Detox expectation and, when it fails, reads the element back to report
+ * the actual value next to the expected one
+ */
+
+import type { AssertionType } from "../mcp/schemas.js";
+import { generateAssertSnippet, describeAssert, type AssertOptions } from "./actions.js";
+import { runDetoxAction, type RunnerResult } from "./runner.js";
+import { getElementAttributes, elementText, type ElementAttributes } from "./queries.js";
+
+export interface AssertionOutcome {
+  assertion: AssertionType;
+  negated: boolean;
+  expected: unknown;
+  percent?: number;
+  tolerance?: number;
+  found?: boolean;
+  actual?: unknown;
+  // Why actual is missing when the asserted state cannot be read back
+  note?: string;
+  element?: ElementAttributes;
+}
+
+export interface AssertionResult extends RunnerResult {
+  assertion: AssertionOutcome;
+}
+
+// Focus is not part of the attributes Detox reports
+const FOCUS_UNREADABLE = "focus cannot be read back from the element attributes";
+
+export async function runAssertion(options: AssertOptions, device?: string): Promise<AssertionResult> {
+  const result = await runDetoxAction({
+    actionName: describeAssert(options),
+    actionSnippet: generateAssertSnippet(options),
+    record: "assertion",
+    selector: options.selector,
+    device,
+  });
+
+  const outcome: AssertionOutcome = {
+    assertion: options.assertion,
+    negated: options.not ?? false,
+    expected: expectedValue(options),
+    percent: options.percent,
+    tolerance: options.tolerance,
+  };
+
+  if (result.success) {
+    return { ...result, assertion: outcome };
+  }
+
+  // Read the element back without adding a second set of failure artifacts or a second flake outcome
+  const query = await getElementAttributes(options.selector, { collectEvidence: false, trackFlakiness: false, device });
+  const element = query.success ? query.element : undefined;
+
+  outcome.found = element !== undefined;
+  outcome.element = element;
+  if (options.assertion === "toBeFocused") {
+    outcome.note = FOCUS_UNREADABLE;
+  } else {
+    outcome.actual = actualValue(options.assertion, element);
+  }
+
+  if (result.error) {
+    const actual = outcome.note ?? `got ${JSON.stringify(outcome.actual) ?? "undefined"}`;
+    result.error.message = `Expected ${describeExpectation(outcome)}, ${actual}: ${result.error.message}`;
+  }
+
+  return { ...result, assertion: outcome };
+}
+
+function expectedValue(options: AssertOptions): unknown {
+  switch (options.assertion) {
+    case "toBeVisible":
+    case "toExist":
+    case "toBeFocused":
+      return true;
+    default:
+      return options.expected;
+  }
+}
+
+function actualValue(
+  assertion: Exclude<AssertionType, "toBeFocused">,
+  element: ElementAttributes | undefined
+): unknown {
+  switch (assertion) {
+    case "toExist":
+      return element !== undefined;
+    case "toBeVisible":
+      return element?.visible ?? false;
+    case "toHaveText":
+      return elementText(element);
+    case "toHaveLabel":
+      return element?.label;
+    case "toHaveId":
+      return element?.identifier;
+    case "toHaveValue":
+      return element?.value;
+    case "toHaveToggleValue":
+      return toToggleValue(element?.value);
+    case "toHaveSliderPosition":
+      return element?.normalizedSliderPosition;
+  }
+}
+
+// iOS switches report their value as "1"/"0"
+function toToggleValue(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") return value;
+  if (value === "1" || value === 1) return true;
+  if (value === "0" || value === 0) return false;
+  return undefined;
+}
+
+function describeExpectation(outcome: AssertionOutcome): string {
+  const prefix = outcome.negated ? "not " : "";
+  switch (outcome.assertion) {
+    case "toBeVisible":
+      return outcome.percent !== undefined
+        ? `${prefix}visible (${outcome.percent}%)`
+        : `${prefix}visible`;
+    case "toExist":
+      return `${prefix}existing`;
+    case "toBeFocused":
+      return `${prefix}focused`;
+    case "toHaveSliderPosition":
+      return outcome.tolerance !== undefined
+        ? `${prefix}${outcome.assertion} ${outcome.expected} ±${outcome.tolerance}`
+        : `${prefix}${outcome.assertion} ${outcome.expected}`;
+    default:
+      return `${prefix}${outcome.assertion} ${JSON.stringify(outcome.expected)}`;
+  }
+}
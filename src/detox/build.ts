@@ -0,0 +1,252 @@
+/**
+ * App builds
+ * Runs `detox build` for a configuration and caches the resulting .app by a fingerprint
+ * of the native layer, so JS-only changes skip the rebuild. Only debug builds are cached:
+ * release builds embed the JS bundle, which the fingerprint does not cover
+ */
+
+import { execa } from "execa";
+import { createHash } from "crypto";
+import { readdir, readFile, writeFile, mkdir, rm, cp } from "fs/promises";
+import { existsSync } from "fs";
+import { join, basename, dirname } from "path";
+
+import { createError } from "../core/errors.js";
+import { logger } from "../core/logger.js";
+import { stateManager } from "../core/state.js";
+import { artifactManager } from "../core/artifacts.js";
+import { getConfig } from "../config/load.js";
+import { getDetoxConfiguration } from "./configurations.js";
+
+export interface BuildOptions {
+  configuration?: string;
+  force?: boolean;
+  timeoutMs?: number;
+}
+
+export interface BuildResult {
+  success: boolean;
+  configuration: string;
+  fingerprint: string;
+  cacheHit: boolean;
+  // False for release builds, which embed the JS bundle and are always rebuilt
+  cacheable: boolean;
+  buildTimeMs: number;
+  binaryPath: string;
+  cachePath?: string;
+  logPath?: string;
+}
+
+// Generated or machine-local content under ios/ that does not change the native build
+const FINGERPRINT_EXCLUDES = new Set(["build", "Pods", "DerivedData", "xcuserdata", ".xcode.env.local"]);
+
+const OUTPUT_TAIL_LINES = 40;
+
+/**
+ * Build the app binary for a configuration, restoring it from the cache when the
+ * native fingerprint is unchanged
+ */
+export async function buildApp(options: BuildOptions = {}): Promise<BuildResult> {
+  const config = getConfig();
+  const configuration =
+    options.configuration ?? stateManager.getDetox().configuration ?? config.detox.configuration;
+  const info = await getDetoxConfiguration(configuration);
+
+  if (!info.binaryPath) {
+    throw createError("DETOX_CONFIG_INVALID", `Detox configuration "${configuration}" has no app binaryPath`);
+  }
+  if (!info.build) {
+    throw createError("DETOX_CONFIG_INVALID", `Detox configuration "${configuration}" has no build command`, {
+      details: "Add a build command to the app in the Detox config",
+    });
+  }
+
+  const startedAt = Date.now();
+  const fingerprint = await computeNativeFingerprint(config.projectPath, info.build);
+  const cacheable = !embedsJsBundle(info.build, info.binaryPath);
+  const cachePath = cacheable
+    ? join(artifactManager.getBuildCacheDir(configuration, fingerprint), basename(info.binaryPath))
+    : undefined;
+
+  if (!cacheable) {
+    logger.info("detox", `[build] ${configuration} is a release build with an embedded JS bundle; not using the build cache`);
+  }
+
+  if (cachePath && !options.force && existsSync(cachePath)) {
+    logger.info("detox", `[build] Native fingerprint ${fingerprint} unchanged, restoring ${basename(cachePath)} from cache`);
+    await copyBinary(cachePath, info.binaryPath);
+
+    return {
+      success: true,
+      configuration,
+      fingerprint,
+      cacheHit: true,
+      cacheable,
+      buildTimeMs: Date.now() - startedAt,
+      binaryPath: info.binaryPath,
+      cachePath,
+    };
+  }
+
+  logger.info("detox", `[build] Building ${configuration} (fingerprint ${fingerprint}): ${info.build}`);
+
+  const output: string[] = [];
+  const detoxBinary = join(config.projectPath, config.detox.detoxBinary);
+  const child = execa(detoxBinary, ["build", "--configuration", configuration], {
+    cwd: config.projectPath,
+    timeout: options.timeoutMs ?? config.detox.buildTimeoutMs,
+    reject: false,
+    all: true,
+  });
+
+  child.all?.on("data", (chunk: Buffer) => {
+    for (const line of chunk.toString().split("\n")) {
+      if (line.trim()) {
+        output.push(line);
+        logger.info("detox", `[build] ${line}`);
+      }
+    }
+  });
+
+  const result = await child;
+  const buildTimeMs = Date.now() - startedAt;
+
+  const logPath = await artifactManager.getLogPath(`build-${configuration}`);
+  await writeFile(logPath, output.join("\n"), "utf-8");
+  artifactManager.registerArtifact({
+    type: "log",
+    path: logPath,
+    metadata: { action: "build", configuration, fingerprint },
+  });
+
+  if (result.timedOut || result.exitCode !== 0 || !existsSync(info.binaryPath)) {
+    const reason = result.timedOut
+      ? `timed out after ${buildTimeMs}ms`
+      : result.exitCode !== 0
+        ? `exited with code ${result.exitCode}`
+        : `produced no binary at ${info.binaryPath}`;
+    throw createError("DETOX_BUILD_FAILED", `Build for ${configuration} ${reason}`, {
+      details: `${output.slice(-OUTPUT_TAIL_LINES).join("\n")}\n\nFull log: ${logPath}`,
+    });
+  }
+
+  if (cachePath) {
+    // Keep one cached binary per configuration
+    await rm(dirname(dirname(cachePath)), { recursive: true, force: true });
+    await copyBinary(info.binaryPath, cachePath);
+    logger.info("detox", `[build] Built ${configuration} in ${buildTimeMs}ms, cached as ${fingerprint}`);
+  } else {
+    logger.info("detox", `[build] Built ${configuration} in ${buildTimeMs}ms`);
+  }
+
+  return {
+    success: true,
+    configuration,
+    fingerprint,
+    cacheHit: false,
+    cacheable,
+    buildTimeMs,
+    binaryPath: info.binaryPath,
+    cachePath,
+    logPath,
+  };
+}
+
+/**
+ * Hash of everything that changes the native binary: ios/ sources (including Podfile.lock),
+ * the config plugins in app.json, the native dependencies in package.json (which is all
+ * that changes with Expo CNG, where ios/ is generated) and the build command itself
+ */
+export async function computeNativeFingerprint(projectPath: string, buildCommand: string): Promise<string> {
+  const hash = createHash("sha256");
+  hash.update(`build:${buildCommand}\n`);
+
+  const iosDir = join(projectPath, "ios");
+  if (existsSync(iosDir)) {
+    for (const file of await listFingerprintFiles(iosDir, "ios")) {
+      hash.update(`${file}\n`);
+      hash.update(await readFile(join(projectPath, file)));
+    }
+  }
+
+  const appJsonPath = join(projectPath, "app.json");
+  if (existsSync(appJsonPath)) {
+    const appJson = JSON.parse(await readFile(appJsonPath, "utf-8")) as { expo?: { plugins?: unknown } };
+    hash.update(`plugins:${JSON.stringify(appJson.expo?.plugins ?? [])}\n`);
+  }
+
+  for (const dependency of await listNativeDependencies(projectPath)) {
+    hash.update(`dependency:${dependency}\n`);
+  }
+
+  return hash.digest("hex").slice(0, 16);
+}
+
+/**
+ * Release builds bundle the JS into the .app instead of loading it from Metro
+ */
+function embedsJsBundle(buildCommand: string, binaryPath: string): boolean {
+  return /\brelease\b/i.test(buildCommand) || /Release-iphonesimulator/i.test(binaryPath);
+}
+
+/**
+ * "name@version" of each dependency that ships native code (an ios/ folder, a podspec or an
+ * Expo module config). Dependencies that are not installed count with their declared range.
+ */
+async function listNativeDependencies(projectPath: string): Promise<string[]> {
+  const packageJsonPath = join(projectPath, "package.json");
+  if (!existsSync(packageJsonPath)) {
+    return [];
+  }
+
+  const packageJson = JSON.parse(await readFile(packageJsonPath, "utf-8")) as {
+    dependencies?: Record<string, string>;
+  };
+  const dependencies = packageJson.dependencies ?? {};
+  const native: string[] = [];
+
+  for (const name of Object.keys(dependencies).sort()) {
+    const dir = join(projectPath, "node_modules", name);
+    if (!existsSync(dir)) {
+      native.push(`${name}@${dependencies[name]}`);
+      continue;
+    }
+
+    const entries = await readdir(dir);
+    const isNative =
+      entries.includes("ios") ||
+      entries.includes("expo-module.config.json") ||
+      entries.some((entry) => entry.endsWith(".podspec"));
+    if (isNative) {
+      const { version } = JSON.parse(await readFile(join(dir, "package.json"), "utf-8")) as { version?: string };
+      native.push(`${name}@${version ?? dependencies[name]}`);
+    }
+  }
+
+  return native;
+}
+
+async function listFingerprintFiles(dir: string, relativeDir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  // Sorted so the hash does not depend on directory order
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (FINGERPRINT_EXCLUDES.has(entry.name)) continue;
+
+    const relativePath = join(relativeDir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFingerprintFiles(join(dir, entry.name), relativePath)));
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+
+  return files;
+}
+
+async function copyBinary(source: string, target: string): Promise<void> {
+  await rm(target, { recursive: true, force: true });
+  await mkdir(dirname(target), { recursive: true });
+  await cp(source, target, { recursive: true, verbatimSymlinks: true });
+}
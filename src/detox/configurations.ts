@@ -0,0 +1,365 @@
+/**
+ * Detox configuration introspection
+ * Reads the project's Detox config and checks each configuration's app binary and
+ * simulator before a session spends a slow warmup finding out
+ */
+
+import { readFile } from "fs/promises";
+import { existsSync } from "fs";
+import { join, resolve, relative } from "path";
+import { createRequire } from "module";
+
+import { createError } from "../core/errors.js";
+import { logger } from "../core/logger.js";
+import { getConfig } from "../config/load.js";
+import { listDevices, type SimulatorDevice } from "../simulator/devices.js";
+
+export interface DetoxDeviceQuery {
+  type?: string;
+  name?: string;
+  id?: string;
+  os?: string;
+}
+
+export interface DetoxConfigurationValidation {
+  valid: boolean;
+  binaryExists?: boolean;
+  simulator?: Pick<SimulatorDevice, "udid" | "name" | "runtime" | "state">;
+  issues: string[];
+  warnings: string[];
+}
+
+export interface DetoxConfigurationInfo {
+  name: string;
+  deviceType?: string;
+  device?: string;
+  binaryPath?: string;
+  build?: string;
+  validation?: DetoxConfigurationValidation;
+}
+
+export interface DetoxConfigurationsResult {
+  source: string;
+  selected: string;
+  configurations: DetoxConfigurationInfo[];
+}
+
+interface LoadedDetoxConfig {
+  source: string;
+  config: Record<string, unknown>;
+}
+
+interface ResolvedConfiguration {
+  info: DetoxConfigurationInfo;
+  query?: DetoxDeviceQuery;
+}
+
+// Same lookup order as the Detox CLI
+const CONFIG_FILES = [".detoxrc.js", ".detoxrc.cjs", ".detoxrc.json", ".detoxrc", "detox.config.js", "detox.config.json"];
+
+const SIMULATOR_HINT_COUNT = 5;
+
+const requireConfig = createRequire(import.meta.url);
+
+/**
+ * List the project's Detox configurations, optionally validating binaries and simulators
+ */
+export async function listDetoxConfigurations(
+  options: { validate?: boolean } = {}
+): Promise<DetoxConfigurationsResult> {
+  const { validate = true } = options;
+  const config = getConfig();
+  const loaded = await loadDetoxConfig(config.projectPath);
+  const resolved = resolveConfigurations(loaded.config, config.projectPath);
+
+  if (validate) {
+    const simulators = await loadSimulators();
+    for (const entry of resolved) {
+      entry.info.validation = validateConfiguration(entry, simulators);
+    }
+  }
+
+  return {
+    source: relative(config.projectPath, loaded.source) || loaded.source,
+    selected: config.detox.configuration,
+    configurations: resolved.map((entry) => entry.info),
+  };
+}
+
+/**
+ * Validate one configuration; throws DETOX_CONFIG_INVALID when it is missing or unusable.
+ * A run pinned to a device skips the simulator check since the configuration's query is not used
+ */
+export async function validateDetoxConfiguration(
+  name: string,
+  options: { device?: string } = {}
+): Promise<DetoxConfigurationInfo> {
+  const entry = await findConfiguration(name);
+  const validation = validateConfiguration(entry, options.device ? null : await loadSimulators());
+  entry.info.validation = validation;
+
+  for (const warning of validation.warnings) {
+    logger.warn("detox", `Configuration ${name}: ${warning}`);
+  }
+
+  if (!validation.valid) {
+    throw createError("DETOX_CONFIG_INVALID", `Detox configuration "${name}" is not usable`, {
+      details: validation.issues.join("\n"),
+    });
+  }
+
+  return entry.info;
+}
+
+/**
+ * Look up one configuration without validating it
+ */
+export async function getDetoxConfiguration(name: string): Promise<DetoxConfigurationInfo> {
+  return (await findConfiguration(name)).info;
+}
+
+async function findConfiguration(name: string): Promise<ResolvedConfiguration> {
+  const config = getConfig();
+  const loaded = await loadDetoxConfig(config.projectPath);
+  const resolved = resolveConfigurations(loaded.config, config.projectPath);
+  const entry = resolved.find((candidate) => candidate.info.name === name);
+
+  if (!entry) {
+    throw createError("DETOX_CONFIG_INVALID", `Detox configuration "${name}" not found`, {
+      details: `Configurations in ${loaded.source}: ${resolved.map((c) => c.info.name).join(", ") || "none"}`,
+    });
+  }
+
+  return entry;
+}
+
+async function loadDetoxConfig(projectPath: string): Promise<LoadedDetoxConfig> {
+  for (const file of CONFIG_FILES) {
+    const path = join(projectPath, file);
+    if (!existsSync(path)) continue;
+
+    try {
+      if (file.endsWith(".js") || file.endsWith(".cjs")) {
+        const module = requireFresh(path) as { default?: unknown };
+        return { source: path, config: asRecord(module.default ?? module) };
+      }
+      return { source: path, config: asRecord(JSON.parse(await readFile(path, "utf-8"))) };
+    } catch (error) {
+      throw createError("DETOX_CONFIG_INVALID", `Failed to load Detox config ${file}`, {
+        details: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const packageJsonPath = join(projectPath, "package.json");
+  if (existsSync(packageJsonPath)) {
+    let packageJson: Record<string, unknown>;
+    try {
+      packageJson = asRecord(JSON.parse(await readFile(packageJsonPath, "utf-8")));
+    } catch (error) {
+      throw createError("DETOX_CONFIG_INVALID", "Failed to read package.json", {
+        details: error instanceof Error ? error.message : String(error),
+      });
+    }
+    if (packageJson.detox && typeof packageJson.detox === "object") {
+      return { source: `${packageJsonPath}#detox`, config: asRecord(packageJson.detox) };
+    }
+  }
+
+  throw createError("DETOX_CONFIG_NOT_FOUND", "No Detox config found in project", {
+    details: `Looked for ${CONFIG_FILES.join(", ")} and package.json#detox in ${projectPath}`,
+  });
+}
+
+/**
+ * Flatten both config styles: devices/apps aliases (Detox 18+) and legacy inline
+ * type/binaryPath/device fields on the configuration
+ */
+function resolveConfigurations(detoxConfig: Record<string, unknown>, projectPath: string): ResolvedConfiguration[] {
+  const configurations = asRecord(detoxConfig.configurations);
+  const devices = asRecord(detoxConfig.devices);
+  const apps = asRecord(detoxConfig.apps);
+
+  return Object.entries(configurations).map(([name, raw]) => {
+    const configuration = asRecord(raw);
+
+    let device = configuration.device;
+    if (typeof device === "string" && devices[device]) {
+      device = devices[device];
+    }
+
+    let deviceType: string | undefined;
+    let query: DetoxDeviceQuery | undefined;
+    if (device && typeof device === "object") {
+      const deviceConfig = asRecord(device);
+      deviceType = asString(deviceConfig.type);
+      query = toDeviceQuery(deviceConfig.device);
+    } else {
+      deviceType = asString(configuration.type);
+      query = toDeviceQuery(configuration.device ?? configuration.name);
+    }
+
+    const appRefs = Array.isArray(configuration.apps) ? configuration.apps : [configuration.app ?? configuration];
+    const app = appRefs
+      .map((ref) => (typeof ref === "string" ? asRecord(apps[ref]) : asRecord(ref)))
+      .find((candidate) => typeof candidate.binaryPath === "string");
+    const binaryPath = asString(app?.binaryPath);
+
+    return {
+      info: {
+        name,
+        deviceType,
+        device: query ? describeQuery(query) : undefined,
+        binaryPath: binaryPath ? resolve(projectPath, binaryPath) : undefined,
+        build: asString(app?.build),
+      },
+      query,
+    };
+  });
+}
+
+function validateConfiguration(
+  entry: ResolvedConfiguration,
+  // null when the run is pinned to a device
+  simulators: SimulatorDevice[] | Error | null
+): DetoxConfigurationValidation {
+  const { info, query } = entry;
+  const issues: string[] = [];
+  const warnings: string[] = [];
+  let binaryExists: boolean | undefined;
+  let simulator: SimulatorDevice | undefined;
+
+  if (!info.binaryPath) {
+    issues.push("No app binaryPath configured");
+  } else {
+    binaryExists = existsSync(info.binaryPath);
+    if (!binaryExists) {
+      issues.push(`App binary not found at ${info.binaryPath}; build it first${info.build ? ` (${info.build})` : ""}`);
+    }
+  }
+
+  if (simulators === null) {
+    // The pinned device was already resolved by the caller
+  } else if (info.deviceType !== "ios.simulator") {
+    warnings.push(`Device type ${info.deviceType ?? "(none)"} is not ios.simulator; simulator check skipped`);
+  } else if (!query) {
+    issues.push("No simulator query (device.type, name, id or os) configured");
+  } else if (simulators instanceof Error) {
+    warnings.push(`Could not list simulators: ${simulators.message}`);
+  } else {
+    simulator = findMatchingSimulator(query, simulators);
+    if (!simulator) {
+      const available = simulators
+        .filter((device) => device.isAvailable && device.runtime.startsWith("iOS"))
+        .slice(0, SIMULATOR_HINT_COUNT)
+        .map((device) => `${device.name} (${device.runtime})`);
+      issues.push(
+        `No available simulator matches ${describeQuery(query)}` +
+          (available.length > 0 ? `; available: ${available.join(", ")}` : "")
+      );
+    }
+  }
+
+  return {
+    valid: issues.length === 0,
+    binaryExists,
+    simulator: simulator
+      ? { udid: simulator.udid, name: simulator.name, runtime: simulator.runtime, state: simulator.state }
+      : undefined,
+    issues,
+    warnings,
+  };
+}
+
+async function loadSimulators(): Promise<SimulatorDevice[] | Error> {
+  try {
+    return (await listDevices()).devices;
+  } catch (error) {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+}
+
+/**
+ * Load a CommonJS config the way Detox does, with require, then drop every module the load
+ * added to the require cache (the config and the files it requires) so the next load sees
+ * edits without a server restart. Modules that were already cached before are left alone
+ */
+function requireFresh(path: string): unknown {
+  const cached = new Set(Object.keys(requireConfig.cache));
+  try {
+    return requireConfig(path);
+  } finally {
+    for (const key of Object.keys(requireConfig.cache)) {
+      if (!cached.has(key)) delete requireConfig.cache[key];
+    }
+  }
+}
+
+/**
+ * Match a Detox device query the way Detox does: by device type identifier, name, UDID and OS
+ */
+export function findMatchingSimulator(
+  query: DetoxDeviceQuery,
+  devices: SimulatorDevice[]
+): SimulatorDevice | undefined {
+  return devices.find(
+    (device) =>
+      device.isAvailable &&
+      device.runtime.startsWith("iOS") &&
+      (!query.id || device.udid === query.id) &&
+      (!query.name || device.name === query.name) &&
+      (!query.type || matchesType(device, query.type)) &&
+      (!query.os || matchesOs(device, query.os))
+  );
+}
+
+function matchesType(device: SimulatorDevice, type: string): boolean {
+  // com.apple.CoreSimulator.SimDeviceType.iPhone-15-Pro <-> "iPhone 15 Pro"
+  const identifier = device.deviceTypeIdentifier?.split(".").pop();
+  return normalize(identifier ?? device.name) === normalize(type);
+}
+
+function matchesOs(device: SimulatorDevice, os: string): boolean {
+  // Runtime "iOS-17-0" against "iOS 17.0" or "17"
+  const wanted = os.match(/\d+(\.\d+)*/)?.[0];
+  if (!wanted) return false;
+  const actual = device.runtime.replace(/^iOS-/, "").replace(/-/g, ".");
+  return actual === wanted || actual.startsWith(`${wanted}.`);
+}
+
+function toDeviceQuery(raw: unknown): DetoxDeviceQuery | undefined {
+  if (typeof raw === "string" && raw.trim()) {
+    // Shorthand "iPhone 15, iOS 17.0"
+    const [type, os] = raw.split(",").map((part) => part.trim());
+    return { type, os: os || undefined };
+  }
+
+  const record = asRecord(raw);
+  const query: DetoxDeviceQuery = {
+    type: asString(record.type),
+    name: asString(record.name),
+    id: asString(record.id),
+    os: asString(record.os),
+  };
+  return Object.values(query).some((value) => value !== undefined) ? query : undefined;
+}
+
+function describeQuery(query: DetoxDeviceQuery): string {
+  const parts = [query.type ?? query.name ?? query.id ?? "any"];
+  if (query.type && query.name) parts.push(`name=${query.name}`);
+  if (query.id && (query.type || query.name)) parts.push(`id=${query.id}`);
+  if (query.os) parts.push(query.os);
+  return parts.join(", ");
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
@@ -0,0 +1,129 @@
+/**
+ * Session export
+ * Turns the recorded actions of the current Detox session into a standalone e2e test
+ */
+
+import { writeFile, mkdir } from "fs/promises";
+import { existsSync } from "fs";
+import { join, relative, resolve, isAbsolute } from "path";
+import ejs from "ejs";
+
+import { createError } from "../core/errors.js";
+import { logger } from "../core/logger.js";
+import { stateManager } from "../core/state.js";
+import { getConfig } from "../config/load.js";
+import { loadTemplate, EXPORT_TEMPLATE } from "./templates.js";
+import { sessionRecorder, type RecordedStep } from "./recorder.js";
+
+export interface ExportOptions {
+  name: string;
+  describe?: string;
+  testName?: string;
+  includeAssertions?: boolean;
+  directory?: string;
+  overwrite?: boolean;
+  // Device whose session to export; see stateManager.resolveDetoxSession
+  device?: string;
+}
+
+export interface ExportResult {
+  path: string;
+  relativePath: string;
+  steps: number;
+  assertions: number;
+  skippedAssertions: number;
+}
+
+const DEFAULT_TEST_NAME = "replays the recorded session";
+
+// Indentation of statements inside the it() block
+const STEP_INDENT = "    ";
+
+/**
+ * Write the recorded session as <directory>/<name>.test.js with a single it() block
+ */
+export async function exportDetoxTest(options: ExportOptions): Promise<ExportResult> {
+  const { name, includeAssertions = true, directory = "e2e", overwrite = false } = options;
+  const config = getConfig();
+
+  const session = stateManager.resolveDetoxSession(options.device);
+  const recorded = sessionRecorder.getSteps(session);
+  const steps = includeAssertions ? recorded : recorded.filter((step) => step.kind !== "assertion");
+  if (steps.length === 0) {
+    throw createError("DETOX_RECORDING_EMPTY", "No recorded actions to export", {
+      details:
+        recorded.length > 0
+          ? `The session only recorded ${recorded.length} assertion(s); set includeAssertions: true`
+          : undefined,
+    });
+  }
+
+  const targetDir = resolve(config.projectPath, directory);
+  const relativeDir = relative(config.projectPath, targetDir);
+  if (relativeDir.startsWith("..") || isAbsolute(relativeDir)) {
+    throw createError("DETOX_EXPORT_PATH_INVALID", `Export directory ${directory} is outside the project`, {
+      details: `Resolved to ${targetDir}; the project is ${config.projectPath}`,
+    });
+  }
+
+  const path = join(targetDir, `${name}.test.js`);
+  if (existsSync(path) && !overwrite) {
+    throw createError("DETOX_TEST_EXISTS", `Test file ${relative(config.projectPath, path)} already exists`, {
+      details: `Existing file: ${path}`,
+    });
+  }
+
+  const template = await loadTemplate(EXPORT_TEMPLATE);
+  const content = ejs.render(template, {
+    timestamp: new Date().toISOString(),
+    describeName: options.describe ?? name,
+    // The header is a line comment, so the title must stay on one line
+    title: (options.describe ?? name).replace(/\s+/g, " "),
+    testName: options.testName ?? DEFAULT_TEST_NAME,
+    // A fresh app instance so the test does not depend on where the session left off
+    launchOptions: { ...sessionRecorder.getLaunchOptions(session), newInstance: true },
+    usesCapturedData: steps.some((step) => /\bcapturedData\b/.test(step.snippet)),
+    steps: steps.map((step, index) => ({
+      comment: `${index + 1}. ${step.kind === "assertion" ? "Assert" : "Action"}: ${step.name}`.replace(/\s+/g, " "),
+      code: formatStep(step),
+    })),
+  });
+
+  await mkdir(targetDir, { recursive: true });
+  await writeFile(path, content, "utf-8");
+
+  const assertions = steps.filter((step) => step.kind === "assertion").length;
+  logger.info("detox", `Exported ${steps.length} recorded step(s) to ${path}`);
+
+  return {
+    path,
+    relativePath: relative(config.projectPath, path),
+    steps: steps.length,
+    assertions,
+    skippedAssertions: recorded.length - steps.length,
+  };
+}
+
+/**
+ * Re-indent a snippet for the it() block. Snippets that declare variables get their own
+ * block scope so two steps can both declare e.g. `inputEl`.
+ */
+function formatStep(step: RecordedStep): string {
+  const lines = step.snippet.trim().split("\n");
+  const [first, ...rest] = lines;
+  const indents = rest
+    .filter((line) => line.trim())
+    .map((line) => line.match(/^\s*/)![0].length);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  const body = [first.trim(), ...rest.map((line) => line.slice(common).trimEnd())];
+
+  if (!/^\s*(const|let|var)\s/m.test(step.snippet)) {
+    return body.map((line) => (line ? STEP_INDENT + line : line)).join("\n");
+  }
+
+  return [
+    `${STEP_INDENT}{`,
+    ...body.map((line) => (line ? `${STEP_INDENT}  ${line}` : line)),
+    `${STEP_INDENT}}`,
+  ].join("\n");
+}
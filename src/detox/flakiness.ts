@@ -0,0 +1,232 @@
+/**
+ * Flake tracker
+ * Records the outcome of every Detox action per action name and per selector in a JSON
+ * store, so selectors that only pass some of the time are visible instead of hidden by retries
+ */
+
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { existsSync } from "fs";
+import { dirname } from "path";
+
+import { logger } from "../core/logger.js";
+import { artifactManager } from "../core/artifacts.js";
+import type { Selector } from "../mcp/schemas.js";
+import { describeSelector } from "./selectors.js";
+
+export type StabilityStatus = "stable" | "flaky" | "broken";
+export type FlakeEntryKind = "action" | "selector";
+type Outcome = "pass" | "fail";
+
+export interface FlakeEntry {
+  key: string;
+  kind: FlakeEntryKind;
+  runs: number;
+  passes: number;
+  failures: number;
+  // Passes that needed more than one attempt
+  retryPasses: number;
+  consecutiveFailures: number;
+  recent: Outcome[];
+  lastErrorCode?: string;
+  lastError?: string;
+  lastRunAt: string;
+}
+
+export interface FlakeEntryReport extends FlakeEntry {
+  status: StabilityStatus;
+  passRate: number;
+}
+
+export interface FlakinessReport {
+  storePath: string;
+  summary: Record<FlakeEntryKind, Record<StabilityStatus, number>>;
+  actions: FlakeEntryReport[];
+  selectors: FlakeEntryReport[];
+}
+
+export interface FlakeOutcome {
+  actionName: string;
+  selector?: Selector;
+  success: boolean;
+  // 1 for the first try; anything higher is a retry of the same check
+  attempt?: number;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+interface FlakeStore {
+  version: 1;
+  entries: FlakeEntry[];
+}
+
+// Outcomes kept per entry for classification
+const RECENT_WINDOW = 20;
+// Failures in a row after which an entry counts as broken rather than flaky
+const BROKEN_STREAK = 3;
+
+const STATUS_ORDER: StabilityStatus[] = ["broken", "flaky", "stable"];
+
+class FlakeTracker {
+  private entries: Map<string, FlakeEntry> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  /**
+   * Record one attempt of an action; never throws so tracking cannot fail an action
+   */
+  async record(outcome: FlakeOutcome): Promise<void> {
+    try {
+      const entries = await this.load();
+      const retried = (outcome.attempt ?? 1) > 1;
+
+      this.update(entries, "action", outcome.actionName, outcome, retried);
+      if (outcome.selector) {
+        this.update(entries, "selector", describeSelector(outcome.selector), outcome, retried);
+      }
+
+      await this.save();
+    } catch (error) {
+      logger.warn("detox", "Failed to record action outcome for flake tracking", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  async getReport(filter: { status?: StabilityStatus; kind?: FlakeEntryKind } = {}): Promise<FlakinessReport> {
+    const entries = await this.load();
+    const summary: FlakinessReport["summary"] = {
+      action: { stable: 0, flaky: 0, broken: 0 },
+      selector: { stable: 0, flaky: 0, broken: 0 },
+    };
+    const reports: FlakeEntryReport[] = [];
+
+    for (const entry of entries.values()) {
+      const status = classify(entry);
+      summary[entry.kind][status]++;
+      if (filter.status && status !== filter.status) continue;
+      if (filter.kind && entry.kind !== filter.kind) continue;
+      reports.push({
+        ...entry,
+        status,
+        passRate: Math.round((entry.passes / entry.runs) * 1000) / 10,
+      });
+    }
+
+    reports.sort(
+      (a, b) =>
+        STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+        a.passRate - b.passRate ||
+        a.key.localeCompare(b.key)
+    );
+
+    return {
+      storePath: artifactManager.getFlakinessStorePath(),
+      summary,
+      actions: reports.filter((report) => report.kind === "action"),
+      selectors: reports.filter((report) => report.kind === "selector"),
+    };
+  }
+
+  /**
+   * Forget all recorded outcomes; returns how many entries were removed
+   */
+  async reset(): Promise<number> {
+    const entries = await this.load();
+    const count = entries.size;
+    entries.clear();
+    await this.save();
+    return count;
+  }
+
+  private update(
+    entries: Map<string, FlakeEntry>,
+    kind: FlakeEntryKind,
+    key: string,
+    outcome: FlakeOutcome,
+    retried: boolean
+  ): void {
+    const id = entryId(kind, key);
+    const entry = entries.get(id) ?? {
+      key,
+      kind,
+      runs: 0,
+      passes: 0,
+      failures: 0,
+      retryPasses: 0,
+      consecutiveFailures: 0,
+      recent: [],
+      lastRunAt: "",
+    };
+
+    entry.runs++;
+    entry.lastRunAt = new Date().toISOString();
+    entry.recent = [...entry.recent, outcome.success ? "pass" : "fail"].slice(-RECENT_WINDOW) as Outcome[];
+
+    if (outcome.success) {
+      entry.passes++;
+      entry.consecutiveFailures = 0;
+      if (retried) entry.retryPasses++;
+    } else {
+      entry.failures++;
+      entry.consecutiveFailures++;
+      entry.lastErrorCode = outcome.errorCode;
+      entry.lastError = outcome.errorMessage;
+    }
+
+    entries.set(id, entry);
+  }
+
+  private async load(): Promise<Map<string, FlakeEntry>> {
+    if (this.entries) return this.entries;
+
+    const entries = new Map<string, FlakeEntry>();
+    const path = artifactManager.getFlakinessStorePath();
+
+    if (existsSync(path)) {
+      try {
+        const store = JSON.parse(await readFile(path, "utf-8")) as FlakeStore;
+        for (const entry of store.entries ?? []) {
+          entries.set(entryId(entry.kind, entry.key), entry);
+        }
+      } catch (error) {
+        logger.warn("detox", `Ignoring unreadable flakiness store ${path}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    this.entries = entries;
+    return entries;
+  }
+
+  private save(): Promise<void> {
+    const path = artifactManager.getFlakinessStorePath();
+    const store: FlakeStore = { version: 1, entries: [...(this.entries?.values() ?? [])] };
+    const content = JSON.stringify(store, null, 2);
+
+    // Serialize writes so a slow write cannot overwrite a newer one
+    this.pendingWrite = this.pendingWrite.catch(() => undefined).then(async () => {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, content, "utf-8");
+    });
+    return this.pendingWrite;
+  }
+}
+
+/**
+ * broken: never passed recently or failing BROKEN_STREAK times in a row;
+ * flaky: mixed outcomes in the recent window; stable: only passes
+ */
+function classify(entry: FlakeEntry): StabilityStatus {
+  const recentFailures = entry.recent.filter((outcome) => outcome === "fail").length;
+
+  if (entry.consecutiveFailures >= BROKEN_STREAK || recentFailures === entry.recent.length) {
+    return "broken";
+  }
+  return recentFailures > 0 ? "flaky" : "stable";
+}
+
+function entryId(kind: FlakeEntryKind, key: string): string {
+  return `${kind}:${key}`;
+}
+
+export const flakeTracker = new FlakeTracker();
@@ -0,0 +1,278 @@
+/**
+ * Native view hierarchy
+ * Parses Detox's generateViewHierarchyXml() output into a pruned JSON tree
+ */
+
+import type { ElementFrame } from "./queries.js";
+
+export interface HierarchyNode {
+  class: string;
+  testID?: string;
+  label?: string;
+  text?: string;
+  frame?: ElementFrame;
+  visible?: boolean;
+  accessible?: boolean;
+  children?: HierarchyNode[];
+  truncated?: number;
+}
+
+export interface HierarchyOptions {
+  compact?: boolean;
+  accessibleOnly?: boolean;
+  visibleOnly?: boolean;
+  maxDepth?: number;
+}
+
+export interface HierarchySummary {
+  nodeCount: number;
+  testIDs: string[];
+  labels: string[];
+  texts: string[];
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+}
+
+// Attribute names differ between Detox versions; first match wins
+const TEST_ID_ATTRIBUTES = ["testID", "id", "identifier", "accessibilityIdentifier"];
+const LABEL_ATTRIBUTES = ["label", "accessibilityLabel"];
+const TEXT_ATTRIBUTES = ["text", "value", "title"];
+const CLASS_ATTRIBUTES = ["class", "className", "type"];
+
+const SUMMARY_LIMIT = 100;
+
+/**
+ * Parse hierarchy XML into the full (unpruned) node tree
+ */
+export function parseViewHierarchyXml(xml: string): HierarchyNode[] {
+  return parseXml(xml).map(toHierarchyNode);
+}
+
+/**
+ * Prune a hierarchy for display: drop wrappers without testID, label or text (unless
+ * compact is false), apply the accessible/visible filters and cap depth
+ */
+export function pruneHierarchy(
+  nodes: HierarchyNode[],
+  options: HierarchyOptions = {}
+): HierarchyNode[] {
+  const pruned = nodes.flatMap((node) => pruneNode(node, options));
+  return options.maxDepth !== undefined ? capDepth(pruned, options.maxDepth, 1) : pruned;
+}
+
+export function summarizeHierarchy(nodes: HierarchyNode[]): HierarchySummary {
+  const testIDs = new Set<string>();
+  const labels = new Set<string>();
+  const texts = new Set<string>();
+  let nodeCount = 0;
+
+  const visit = (node: HierarchyNode) => {
+    nodeCount++;
+    if (node.testID) testIDs.add(node.testID);
+    if (node.label) labels.add(node.label);
+    if (node.text) texts.add(node.text);
+    node.children?.forEach(visit);
+  };
+  nodes.forEach(visit);
+
+  return {
+    nodeCount,
+    testIDs: [...testIDs].slice(0, SUMMARY_LIMIT),
+    labels: [...labels].slice(0, SUMMARY_LIMIT),
+    texts: [...texts].slice(0, SUMMARY_LIMIT),
+  };
+}
+
+function isInformative(node: HierarchyNode): boolean {
+  return Boolean(node.testID || node.label || node.text);
+}
+
+function pruneNode(node: HierarchyNode, options: HierarchyOptions): HierarchyNode[] {
+  // Hidden views hide their whole subtree
+  if (options.visibleOnly && node.visible === false) {
+    return [];
+  }
+
+  const children = (node.children ?? []).flatMap((child) => pruneNode(child, options));
+  const keep = options.accessibleOnly
+    ? node.accessible === true
+    : options.compact === false || isInformative(node);
+
+  if (!keep) {
+    // Lift the children of filtered or uninformative wrapper views
+    return children;
+  }
+
+  const { children: _children, ...rest } = node;
+  return [children.length > 0 ? { ...rest, children } : rest];
+}
+
+function capDepth(nodes: HierarchyNode[], maxDepth: number, depth: number): HierarchyNode[] {
+  return nodes.map((node) => {
+    if (!node.children) return node;
+    if (depth >= maxDepth) {
+      const { children, ...rest } = node;
+      return { ...rest, truncated: countNodes(children) };
+    }
+    return { ...node, children: capDepth(node.children, maxDepth, depth + 1) };
+  });
+}
+
+function countNodes(nodes: HierarchyNode[]): number {
+  return nodes.reduce((total, node) => total + 1 + countNodes(node.children ?? []), 0);
+}
+
+function toHierarchyNode(element: XmlElement): HierarchyNode {
+  const attrs = element.attributes;
+  const node: HierarchyNode = {
+    class: pick(attrs, CLASS_ATTRIBUTES) ?? element.name,
+  };
+
+  const testID = pick(attrs, TEST_ID_ATTRIBUTES);
+  const label = pick(attrs, LABEL_ATTRIBUTES);
+  const text = pick(attrs, TEXT_ATTRIBUTES);
+  if (testID) node.testID = testID;
+  if (label) node.label = label;
+  if (text && text !== label) node.text = text;
+
+  const frame = toFrame(attrs);
+  if (frame) node.frame = frame;
+
+  const visible = toVisible(attrs, frame);
+  if (visible !== undefined) node.visible = visible;
+
+  node.accessible =
+    toBoolean(attrs.isAccessibilityElement ?? attrs.accessible) ?? Boolean(testID || label);
+
+  const children = element.children.map(toHierarchyNode);
+  if (children.length > 0) node.children = children;
+
+  return node;
+}
+
+function pick(attrs: Record<string, string>, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = attrs[name];
+    if (value !== undefined && value !== "") {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function toFrame(attrs: Record<string, string>): ElementFrame | undefined {
+  const values = ["x", "y", "width", "height"].map((key) => Number(attrs[key]));
+  if (values.some((value) => Number.isNaN(value)) || attrs.width === undefined) {
+    return undefined;
+  }
+  const [x, y, width, height] = values;
+  return { x, y, width, height };
+}
+
+function toVisible(attrs: Record<string, string>, frame?: ElementFrame): boolean | undefined {
+  if (attrs.visibility !== undefined) {
+    return attrs.visibility === "visible";
+  }
+  const hidden = toBoolean(attrs.hidden ?? attrs.isHidden);
+  if (hidden !== undefined) {
+    return !hidden;
+  }
+  const alpha = attrs.alpha !== undefined ? Number(attrs.alpha) : undefined;
+  if (alpha === 0) {
+    return false;
+  }
+  if (frame && (frame.width === 0 || frame.height === 0)) {
+    return false;
+  }
+  return undefined;
+}
+
+function toBoolean(value: string | undefined): boolean | undefined {
+  if (value === undefined) return undefined;
+  if (value === "true" || value === "1" || value === "YES") return true;
+  if (value === "false" || value === "0" || value === "NO") return false;
+  return undefined;
+}
+
+/**
+ * Minimal XML element parser: elements and attributes only (text content, comments,
+ * processing instructions and CDATA are skipped)
+ */
+function parseXml(xml: string): XmlElement[] {
+  const roots: XmlElement[] = [];
+  const stack: XmlElement[] = [];
+  const tagPattern = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<[?!][\s\S]*?>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+
+  for (const match of xml.matchAll(tagPattern)) {
+    const [, closingName, openingName, attributeText, selfClosing] = match;
+
+    if (closingName) {
+      // Pop back to the matching element, tolerating unclosed children
+      const index = stack.map((e) => e.name).lastIndexOf(closingName);
+      if (index !== -1) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    if (!openingName) {
+      continue;
+    }
+
+    const element: XmlElement = {
+      name: openingName,
+      attributes: parseAttributes(attributeText ?? ""),
+      children: [],
+    };
+
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.children.push(element);
+    } else {
+      roots.push(element);
+    }
+
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  // The document element is a container (e.g. <ViewHierarchy>), not a view
+  if (roots.length === 1 && Object.keys(roots[0].attributes).length === 0) {
+    return roots[0].children;
+  }
+  return roots;
+}
+
+export function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(/([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+}
+
+export function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "amp":
+        return "&";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+      default:
+        return code[1].toLowerCase() === "x"
+          ? String.fromCodePoint(parseInt(code.slice(2), 16))
+          : String.fromCodePoint(parseInt(code.slice(1), 10));
+    }
+  });
+}
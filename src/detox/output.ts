@@ -3,8 +3,37 @@
  * Extracts MCP result markers from test stdout
  */
 
-import { createError } from "../core/errors.js";
+import { createError, type ErrorCode } from "../core/errors.js";
 import { logger } from "../core/logger.js";
+import { parseAttributes, decodeEntities } from "./hierarchy.js";
+
+export interface ActionStepResult {
+  index: number;
+  name: string;
+  ok: boolean;
+  elapsedMs: number;
+  error?: {
+    message: string;
+    name: string;
+  };
+}
+
+export type BusyResourceKind =
+  | "network"
+  | "js-timers"
+  | "native-timers"
+  | "animations"
+  | "dispatch-queue"
+  | "run-loop"
+  | "layout"
+  | "bridge"
+  | "other";
+
+export interface BusyResource {
+  kind: BusyResourceKind;
+  description: string;
+  items?: string[];
+}
 
 export interface DetoxActionResult {
   ok: boolean;
@@ -15,11 +44,106 @@ export interface DetoxActionResult {
     name: string;
     stack?: string;
   };
+  actions?: ActionStepResult[];
+  failedIndex?: number;
+  hierarchyXml?: string;
+  busyResources?: BusyResource[];
+}
+
+export interface DetoxErrorInfo {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+export interface JestTestResult {
+  file?: string;
+  fullName: string;
+  status: string;
+  durationMs?: number;
+  failureMessages: string[];
+  error?: DetoxErrorInfo;
+}
+
+/**
+ * Summary of the Jest --json report written for a micro-test run
+ */
+export interface JestReport {
+  success: boolean;
+  numPassedTests: number;
+  numFailedTests: number;
+  tests: JestTestResult[];
+  // Suite-level failure, e.g. a syntax error or a crash in beforeAll
+  execError?: DetoxErrorInfo;
+  suiteErrors: Array<{ file?: string; error: DetoxErrorInfo }>;
 }
 
 const MCP_RESULT_PATTERN = /\[MCP_RESULT\](.*?)\[\/MCP_RESULT\]/s;
+const MCP_ACTION_PATTERN = /\[MCP_ACTION\](.*?)\[\/MCP_ACTION\]/gs;
+const BUSY_HEADER_PATTERN = /The app is busy with the following tasks:/g;
+
+// First match wins; JS timers must be checked before native timers
+const BUSY_KINDS: Array<[BusyResourceKind, RegExp]> = [
+  ["network", /network/i],
+  ["js-timers", /javascript timer|js timer/i],
+  ["native-timers", /timer/i],
+  ["animations", /animation/i],
+  ["dispatch-queue", /dispatch queue/i],
+  ["run-loop", /run ?loop/i],
+  ["layout", /layout/i],
+  ["bridge", /bridge|react native|javascript/i],
+];
+
+export function parseDetoxOutput(
+  stdout: string,
+  stderr: string = "",
+  report: JestReport | null = null
+): DetoxActionResult {
+  const result = parseResultMarker(stdout, report);
+  const actions = parseActionMarkers(stdout);
+
+  if (!result.ok) {
+    const busyResources = parseBusyResources(`${stdout}\n${stderr}\n${result.error?.message ?? ""}`);
+    if (busyResources.length > 0) {
+      result.busyResources = busyResources;
+      if (result.error) {
+        result.error.message += `; app busy with: ${summarizeBusyResources(busyResources)}`;
+      }
+    }
+  }
+
+  if (actions.length > 0) {
+    result.actions = actions;
+    const failed = actions.find((action) => !action.ok);
+    if (failed && result.failedIndex === undefined) {
+      result.failedIndex = failed.index;
+    }
+  }
 
-export function parseDetoxOutput(stdout: string): DetoxActionResult {
+  return result;
+}
+
+/**
+ * Extract per-action markers emitted by batched micro-tests
+ */
+export function parseActionMarkers(stdout: string): ActionStepResult[] {
+  const actions: ActionStepResult[] = [];
+
+  for (const match of stdout.matchAll(MCP_ACTION_PATTERN)) {
+    try {
+      actions.push(JSON.parse(match[1]) as ActionStepResult);
+    } catch (error) {
+      logger.warn("detox", "Failed to parse MCP_ACTION JSON", {
+        raw: match[1],
+        error: error instanceof Error ? error.message : "Unknown",
+      });
+    }
+  }
+
+  return actions.sort((a, b) => a.index - b.index);
+}
+
+function parseResultMarker(stdout: string, report: JestReport | null): DetoxActionResult {
   const match = stdout.match(MCP_RESULT_PATTERN);
 
   if (!match) {
@@ -27,7 +151,13 @@ export function parseDetoxOutput(stdout: string): DetoxActionResult {
       stdout: stdout.slice(-1000),
     });
 
-    // Try to detect common Detox errors
+    // The test never reached its result marker (crash, hook failure, Jest timeout)
+    const failure = report ? getReportFailure(report) : null;
+    if (failure) {
+      return { ok: false, error: failure };
+    }
+
+    // No report (older Detox CLI that drops Jest flags): fall back to scanning stdout
     if (stdout.includes("Element not found")) {
       return {
         ok: false,
@@ -76,8 +206,76 @@ export function parseDetoxOutput(stdout: string): DetoxActionResult {
   }
 }
 
-export function detectTestFailure(stdout: string, stderr: string): string | null {
-  // Check for Jest test failures
+/**
+ * Parse the last "app is busy" report Detox logs while it waits for the app to idle
+ * (network requests, timers, animations, ...)
+ */
+export function parseBusyResources(output: string): BusyResource[] {
+  const headers = [...output.matchAll(BUSY_HEADER_PATTERN)];
+  const last = headers[headers.length - 1];
+  if (last?.index === undefined) {
+    return [];
+  }
+
+  const resources: BusyResource[] = [];
+  const lines = output.slice(last.index + last[0].length).split("\n");
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const bullet = line.match(/^[•*]\s*(.+)$/);
+    if (bullet) {
+      const description = bullet[1];
+      const kind = BUSY_KINDS.find(([, pattern]) => pattern.test(description))?.[0] ?? "other";
+      resources.push({ kind, description });
+      continue;
+    }
+
+    const current = resources[resources.length - 1];
+    const item = line.match(/^-\s*(.+)$/);
+    if (item && current) {
+      current.items = [...(current.items ?? []), item[1]];
+      continue;
+    }
+
+    // "+ Fire date: ..." lines detail the previous item
+    const detail = line.match(/^\+\s*(.+)$/);
+    if (detail && current?.items?.length) {
+      current.items[current.items.length - 1] += ` ${detail[1]}`;
+      continue;
+    }
+
+    // Anything else ends the report (the next log line)
+    break;
+  }
+
+  return resources;
+}
+
+export function summarizeBusyResources(resources: BusyResource[]): string {
+  return resources
+    .map((resource) => (resource.items ? `${resource.kind} (${resource.items.length})` : resource.kind))
+    .join(", ");
+}
+
+export function detectTestFailure(
+  stdout: string,
+  stderr: string,
+  report: JestReport | null = null
+): string | null {
+  // A busy app is the root cause of most synchronization timeouts
+  const busyResources = parseBusyResources(`${stdout}\n${stderr}`);
+  if (busyResources.length > 0) {
+    return `Detox timed out waiting for the app to become idle; busy with: ${summarizeBusyResources(busyResources)}`;
+  }
+
+  if (report) {
+    const failure = getReportFailure(report);
+    return failure ? `${failure.name}: ${failure.message}` : null;
+  }
+
+  // No report: fall back to scanning the Jest/Detox console output
   if (stdout.includes("FAIL") || stderr.includes("FAIL")) {
     const failMatch = stdout.match(/●\s+(.+)/);
     if (failMatch) {
@@ -86,7 +284,6 @@ export function detectTestFailure(stdout: string, stderr: string): string | null
     return "Test failed";
   }
 
-  // Check for Detox errors
   if (stderr.includes("DetoxError")) {
     const errorMatch = stderr.match(/DetoxError:\s+(.+)/);
     if (errorMatch) {
@@ -94,7 +291,6 @@ export function detectTestFailure(stdout: string, stderr: string): string | null
     }
   }
 
-  // Check for element not found
   if (stdout.includes("Cannot find") || stderr.includes("Cannot find")) {
     return "Element not found";
   }
@@ -102,6 +298,161 @@ export function detectTestFailure(stdout: string, stderr: string): string | null
   return null;
 }
 
+/**
+ * Parse the JSON written by `jest --json --outputFile`
+ */
+export function parseJestReport(json: string): JestReport | null {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(json) as Record<string, unknown>;
+  } catch (error) {
+    logger.warn("detox", "Failed to parse Jest JSON report", {
+      error: error instanceof Error ? error.message : "Unknown",
+    });
+    return null;
+  }
+
+  const suites = Array.isArray(raw.testResults) ? (raw.testResults as Record<string, unknown>[]) : [];
+  const tests: JestTestResult[] = [];
+  const suiteErrors: JestReport["suiteErrors"] = [];
+
+  for (const suite of suites) {
+    const file = typeof suite.name === "string" ? suite.name : undefined;
+    const assertions = Array.isArray(suite.assertionResults)
+      ? (suite.assertionResults as Record<string, unknown>[])
+      : [];
+
+    for (const assertion of assertions) {
+      const failureMessages = Array.isArray(assertion.failureMessages)
+        ? (assertion.failureMessages as string[])
+        : [];
+      tests.push({
+        file,
+        fullName: String(assertion.fullName ?? assertion.title ?? ""),
+        status: String(assertion.status ?? "unknown"),
+        durationMs: typeof assertion.duration === "number" ? assertion.duration : undefined,
+        failureMessages,
+        error: toErrorInfo(assertion.failureDetails, failureMessages[0]),
+      });
+    }
+
+    // Jest reports hook and suite failures on the suite, with no failed assertion
+    const hasFailedTest = tests.some((test) => test.file === file && test.status === "failed");
+    if (suite.status === "failed" && !hasFailedTest && typeof suite.message === "string" && suite.message) {
+      const error = toErrorInfo(suite.testExecError ? [suite.testExecError] : undefined, suite.message);
+      if (error) suiteErrors.push({ file, error });
+    }
+  }
+
+  return {
+    success: raw.success === true,
+    numPassedTests: typeof raw.numPassedTests === "number" ? raw.numPassedTests : 0,
+    numFailedTests: typeof raw.numFailedTests === "number" ? raw.numFailedTests : 0,
+    tests,
+    execError: suiteErrors[0]?.error,
+    suiteErrors,
+  };
+}
+
+/**
+ * Parse a JUnit XML report (e.g. from jest-junit) into the same shape as the Jest JSON report
+ */
+export function parseJUnitReport(xml: string): JestReport {
+  const tests: JestTestResult[] = [];
+
+  for (const match of xml.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g)) {
+    const attributes = parseAttributes(match[1]);
+    const body = match[2] ?? "";
+    const failure = body.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+    const skipped = /<skipped\b/.test(body);
+
+    // Prefer the element body (message and stack) over the message attribute
+    const failureText = failure
+      ? (failure[3] !== undefined ? decodeXml(failure[3]) : parseAttributes(failure[2]).message ?? "").trim()
+      : "";
+    const name = attributes.name ?? "";
+    const classname = attributes.classname;
+
+    tests.push({
+      file: attributes.file,
+      fullName: classname && !name.startsWith(classname) ? `${classname} ${name}` : name,
+      status: failure ? "failed" : skipped ? "pending" : "passed",
+      durationMs: attributes.time !== undefined ? Math.round(Number(attributes.time) * 1000) : undefined,
+      failureMessages: failureText ? [failureText] : [],
+      error: toErrorInfo(undefined, failureText || undefined),
+    });
+  }
+
+  const numFailedTests = tests.filter((test) => test.status === "failed").length;
+  return {
+    success: numFailedTests === 0,
+    numPassedTests: tests.filter((test) => test.status === "passed").length,
+    numFailedTests,
+    tests,
+    suiteErrors: [],
+  };
+}
+
+function decodeXml(text: string): string {
+  const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  return cdata ? cdata[1] : decodeEntities(text);
+}
+
+function getReportFailure(report: JestReport): DetoxErrorInfo | null {
+  const failed = report.tests.find((test) => test.status === "failed");
+  return failed?.error ?? report.execError ?? null;
+}
+
+function toErrorInfo(details: unknown, failureMessage: string | undefined): DetoxErrorInfo | undefined {
+  // failureDetails holds the thrown error objects (Jest 27+); keep their class name
+  const detail = Array.isArray(details) ? (details[0] as Record<string, unknown> | undefined) : undefined;
+  const text = stripAnsi(failureMessage ?? "");
+
+  if (detail && typeof detail.message === "string") {
+    return {
+      name: typeof detail.name === "string" ? detail.name : errorNameFromText(text),
+      message: stripAnsi(detail.message),
+      stack: typeof detail.stack === "string" ? stripAnsi(detail.stack) : text || undefined,
+    };
+  }
+
+  if (!text) return undefined;
+
+  const firstLine = text.split("\n").find((line) => line.trim()) ?? text;
+  return {
+    name: errorNameFromText(text),
+    message: firstLine.replace(/^\s*\w*Error:\s*/, ""),
+    stack: text,
+  };
+}
+
+function errorNameFromText(text: string): string {
+  return text.match(/^\s*(\w*Error):/)?.[1] ?? "Error";
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, "");
+}
+
+/**
+ * Map a Detox/Jest error to the MCP error code describing it
+ */
+export function classifyDetoxError(error: { name?: string; message?: string } | undefined): ErrorCode {
+  const name = error?.name ?? "";
+  const message = error?.message ?? "";
+
+  if (/timeout/i.test(name) || /timed? ?out|exceeded timeout|app busy with/i.test(message)) {
+    return "TIMEOUT";
+  }
+  if (/no elements? found|cannot find (ui )?element|element not found|no element matching/i.test(message)) {
+    return "ELEMENT_NOT_FOUND";
+  }
+  if (/not visible|visibility percent|not hittable/i.test(message)) {
+    return "ELEMENT_NOT_VISIBLE";
+  }
+  return "DETOX_TEST_FAILED";
+}
+
 export function extractScreenshotPath(result: DetoxActionResult): string | null {
   if (result.data && typeof result.data.screenshotPath === "string") {
     return result.data.screenshotPath;
@@ -0,0 +1,214 @@
+/**
+ * Element queries
+ * Reads element attributes back from the app via Detox getAttributes()
+ */
+
+import { writeFile } from "fs/promises";
+import type { Selector } from "../mcp/schemas.js";
+import { artifactManager } from "../core/artifacts.js";
+import {
+  generateGetAttributesSnippet,
+  generateViewHierarchySnippet,
+  generateKeyboardStateSnippet,
+} from "./actions.js";
+import { describeSelector } from "./selectors.js";
+import { runDetoxAction, type RunnerResult } from "./runner.js";
+import {
+  parseViewHierarchyXml,
+  pruneHierarchy,
+  summarizeHierarchy,
+  type HierarchyNode,
+  type HierarchyOptions,
+  type HierarchySummary,
+} from "./hierarchy.js";
+
+export interface ElementFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ElementAttributes {
+  text?: string;
+  label?: string;
+  value?: unknown;
+  placeholder?: string;
+  enabled?: boolean;
+  visible?: boolean;
+  frame?: ElementFrame;
+  identifier?: string;
+  normalizedSliderPosition?: number;
+}
+
+export interface ElementQueryResult extends RunnerResult {
+  matchCount?: number;
+  element?: ElementAttributes;
+  elements?: ElementAttributes[];
+}
+
+export interface KeyboardQueryResult extends RunnerResult {
+  shown?: boolean;
+  frame?: ElementFrame;
+}
+
+export interface HierarchyQueryResult extends RunnerResult {
+  summary?: HierarchySummary;
+  nodes?: HierarchyNode[];
+  xmlPath?: string;
+}
+
+/**
+ * Read attributes of the element matching the selector, or of all matches
+ */
+export async function getElementAttributes(
+  selector: Selector,
+  options: { all?: boolean; collectEvidence?: boolean; trackFlakiness?: boolean; device?: string } = {}
+): Promise<ElementQueryResult> {
+  const result = await runDetoxAction({
+    actionName: `getAttributes:${describeSelector(selector)}`,
+    actionSnippet: generateGetAttributesSnippet(selector),
+    captureData: true,
+    collectEvidence: options.collectEvidence,
+    trackFlakiness: options.trackFlakiness,
+    device: options.device,
+  });
+
+  if (!result.success) {
+    return result;
+  }
+
+  const elements = normalizeAttributes(result.data?.attributes);
+
+  return {
+    success: true,
+    elapsedMs: result.elapsedMs,
+    matchCount: elements.length,
+    ...(options.all ? { elements } : { element: elements[0] }),
+  };
+}
+
+/**
+ * Check whether the software keyboard is shown
+ */
+export async function getKeyboardState(device?: string): Promise<KeyboardQueryResult> {
+  const result = await runDetoxAction({
+    actionName: "keyboard",
+    actionSnippet: generateKeyboardStateSnippet(),
+    captureData: true,
+    // A state probe, not an interaction that can be flaky
+    trackFlakiness: false,
+    device,
+  });
+
+  if (!result.success) {
+    return result;
+  }
+
+  const keyboard = (result.data?.keyboard ?? {}) as Record<string, unknown>;
+
+  return {
+    success: true,
+    elapsedMs: result.elapsedMs,
+    shown: keyboard.shown === true,
+    frame: asFrame(keyboard.frame),
+  };
+}
+
+/**
+ * Capture the native view hierarchy as a pruned JSON tree.
+ * The raw XML is kept as an artifact for anything the pruned tree leaves out.
+ */
+export async function getViewHierarchy(
+  options: HierarchyOptions = {},
+  device?: string
+): Promise<HierarchyQueryResult> {
+  const result = await runDetoxAction({
+    actionName: "viewHierarchy",
+    actionSnippet: generateViewHierarchySnippet(),
+    captureData: true,
+    trackFlakiness: false,
+    device,
+  });
+
+  if (!result.success) {
+    return result;
+  }
+
+  const xml = typeof result.data?.hierarchyXml === "string" ? result.data.hierarchyXml : "";
+  const xmlPath = await artifactManager.getHierarchyPath("view-hierarchy", "xml");
+  await writeFile(xmlPath, xml, "utf-8");
+  artifactManager.registerArtifact({ type: "hierarchy", path: xmlPath });
+
+  const nodes = pruneHierarchy(parseViewHierarchyXml(xml), options);
+
+  return {
+    success: true,
+    elapsedMs: result.elapsedMs,
+    summary: summarizeHierarchy(nodes),
+    nodes,
+    xmlPath,
+  };
+}
+
+/**
+ * Text shown by an element: its text, falling back to label and value
+ */
+export function elementText(attributes: ElementAttributes | undefined): string | undefined {
+  if (!attributes) return undefined;
+  if (attributes.text !== undefined) return attributes.text;
+  if (attributes.label !== undefined) return attributes.label;
+  return typeof attributes.value === "string" ? attributes.value : undefined;
+}
+
+/**
+ * Detox returns a single attributes object, or { elements: [...] } when several elements match
+ */
+export function normalizeAttributes(raw: unknown): ElementAttributes[] {
+  if (!raw || typeof raw !== "object") {
+    return [];
+  }
+
+  const record = raw as Record<string, unknown>;
+  const items = Array.isArray(record.elements) ? record.elements : [record];
+
+  return items
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === "object")
+    .map(pickAttributes);
+}
+
+function pickAttributes(item: Record<string, unknown>): ElementAttributes {
+  return {
+    text: asString(item.text),
+    label: asString(item.label),
+    value: item.value ?? undefined,
+    placeholder: asString(item.placeholder),
+    enabled: asBoolean(item.enabled),
+    visible: asBoolean(item.visible),
+    frame: asFrame(item.frame),
+    identifier: asString(item.identifier),
+    normalizedSliderPosition: asNumber(item.normalizedSliderPosition),
+  };
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === "number" ? value : undefined;
+}
+
+function asBoolean(value: unknown): boolean | undefined {
+  return typeof value === "boolean" ? value : undefined;
+}
+
+function asFrame(value: unknown): ElementFrame | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const frame = value as Record<string, unknown>;
+  const { x, y, width, height } = frame;
+  if ([x, y, width, height].every((n) => typeof n === "number")) {
+    return { x, y, width, height } as ElementFrame;
+  }
+  return undefined;
+}
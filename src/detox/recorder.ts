@@ -0,0 +1,48 @@
+/**
+ * Session recorder
+ * Keeps the snippets of successful actions in each Detox session so they can
+ * be exported as a regular e2e test
+ */
+
+import type { AppLaunchOptions } from "../mcp/schemas.js";
+import { DEFAULT_LAUNCH_OPTIONS } from "./templates.js";
+
+export type RecordedStepKind = "action" | "assertion";
+
+export interface RecordedStep {
+  name: string;
+  snippet: string;
+  kind: RecordedStepKind;
+  recordedAt: string;
+}
+
+interface Recording {
+  steps: RecordedStep[];
+  launchOptions: AppLaunchOptions;
+}
+
+class SessionRecorder {
+  // Keyed like the Detox sessions in the state manager
+  private recordings = new Map<string, Recording>();
+
+  /**
+   * Start a new recording; called when a Detox session starts
+   */
+  start(session: string, launchOptions: AppLaunchOptions = DEFAULT_LAUNCH_OPTIONS): void {
+    this.recordings.set(session, { steps: [], launchOptions });
+  }
+
+  record(session: string, step: { name: string; snippet: string; kind: RecordedStepKind }): void {
+    this.recordings.get(session)?.steps.push({ ...step, recordedAt: new Date().toISOString() });
+  }
+
+  getSteps(session: string): RecordedStep[] {
+    return [...(this.recordings.get(session)?.steps ?? [])];
+  }
+
+  getLaunchOptions(session: string): AppLaunchOptions {
+    return this.recordings.get(session)?.launchOptions ?? DEFAULT_LAUNCH_OPTIONS;
+  }
+}
+
+export const sessionRecorder = new SessionRecorder();
@@ -4,41 +4,82 @@
  */
 
 import { execa } from "execa";
-import { writeFile, mkdir, unlink, readFile } from "fs/promises";
-import { join, dirname } from "path";
+import { writeFile, readFile, mkdir, unlink } from "fs/promises";
+import { join } from "path";
 import { existsSync } from "fs";
 import ejs from "ejs";
 import { v4 as uuidv4 } from "uuid";
 
-import { createError } from "../core/errors.js";
+import { createError, McpOperationError } from "../core/errors.js";
 import { logger } from "../core/logger.js";
-import { stateManager } from "../core/state.js";
+import { withLock, deviceResource } from "../core/lock.js";
+import { stateManager, DEFAULT_DETOX_SESSION, type DetoxAppState, type DetoxInfo, type DetoxRunMode } from "../core/state.js";
 import { artifactManager } from "../core/artifacts.js";
 import { getConfig, hasConfig } from "../config/load.js";
-import { parseDetoxOutput, detectTestFailure, type DetoxActionResult } from "./output.js";
+import type { McpConfig } from "../config/schema.js";
+import type { DetoxArtifactsConfig } from "../config/schema.js";
+import type { AppLaunchOptions, DetoxArtifactsOptions, Selector } from "../mcp/schemas.js";
+import {
+  parseDetoxOutput,
+  detectTestFailure,
+  parseJestReport,
+  classifyDetoxError,
+  type JestReport,
+  type DetoxActionResult,
+  type ActionStepResult,
+  type BusyResource,
+} from "./output.js";
+import {
+  loadTemplate,
+  getDetoxTestDir,
+  ACTION_TEMPLATE,
+  DEFAULT_LAUNCH_OPTIONS,
+  type ActionStep,
+} from "./templates.js";
+import { getDetoxWorker, type WorkerStatus } from "./worker.js";
+import {
+  parseViewHierarchyXml,
+  pruneHierarchy,
+  summarizeHierarchy,
+  type HierarchySummary,
+} from "./hierarchy.js";
+import { generateSessionSetupSnippet, generateSyncSnippet, type SyncOptions } from "./actions.js";
 import { takeScreenshot } from "../simulator/screenshots.js";
-
-// Load template at module level
-let templateContent: string | null = null;
-
-async function loadTemplate(): Promise<string> {
-  if (templateContent) return templateContent;
-
-  const templatePath = join(
-    dirname(new URL(import.meta.url).pathname),
-    "../../scripts/detox-action-template.ejs"
-  );
-
-  templateContent = await readFile(templatePath, "utf-8");
-  return templateContent;
-}
+import { requireDevice, resolveDeviceUdid } from "../simulator/devices.js";
+import { validateDetoxConfiguration } from "./configurations.js";
+import {
+  resolveArtifactSettings,
+  mergeArtifactSettings,
+  isRecordingArtifacts,
+  buildArtifactArgs,
+  collectDetoxArtifacts,
+} from "./artifacts.js";
+import { sessionRecorder, type RecordedStepKind } from "./recorder.js";
+import { flakeTracker } from "./flakiness.js";
 
 export interface RunnerOptions {
   actionName: string;
   actionSnippet: string;
   launchApp?: boolean;
   captureData?: boolean;
+  // Set false for follow-up reads that should not add failure artifacts
+  collectEvidence?: boolean;
   timeoutMs?: number;
+  // Detox artifact flags for this action, on top of the session settings
+  artifacts?: DetoxArtifactsOptions;
+  // Record the snippet for session.export_detox_test when the action succeeds
+  record?: RecordedStepKind;
+  // App state the action leaves behind when it succeeds. While the app is in the background
+  // or terminated, per-action micro-tests do not relaunch it in beforeAll
+  appState?: DetoxAppState;
+  // Element the action targets, tracked for flakiness alongside the action name
+  selector?: Selector;
+  // Attempt number when the caller retries the same action (1 = first try)
+  attempt?: number;
+  // Set false for follow-up and probe reads so they do not count towards flakiness
+  trackFlakiness?: boolean;
+  // Simulator UDID, name or role whose Detox session runs the action
+  device?: string;
 }
 
 export interface RunnerResult {
@@ -49,20 +90,137 @@ export interface RunnerResult {
     code: string;
     message: string;
     details?: string;
+    busyResources?: BusyResource[];
   };
   evidence?: string[];
+  hierarchy?: HierarchySummary;
+  // Files recorded by Detox itself (videos, logs, ...), moved into the session dir
+  artifacts?: string[];
+}
+
+export interface BatchRunnerOptions {
+  actionName?: string;
+  steps: ActionStep[];
+  launchApp?: boolean;
+  timeoutMs?: number;
+  artifacts?: DetoxArtifactsOptions;
+  device?: string;
+}
+
+export interface BatchRunnerResult extends RunnerResult {
+  totalActions: number;
+  completedActions: number;
+  failedIndex?: number;
+  actions: ActionStepResult[];
+}
+
+interface ActionRequest {
+  session: string;
+  actionName: string;
+  actionSnippet: string;
+  steps?: ActionStep[];
+  launchApp: boolean;
+  captureData: boolean;
+  captureHierarchy: boolean;
+  timeout: number;
+  artifacts: DetoxArtifactsConfig;
+}
+
+interface ActionExecution {
+  result: DetoxActionResult;
+  failure?: string | null;
+  artifacts?: string[];
 }
 
 export async function runDetoxAction(options: RunnerOptions): Promise<RunnerResult> {
-  const { actionName, actionSnippet, launchApp = true, captureData = false, timeoutMs } = options;
+  const { result } = await runAction(options);
+  return result;
+}
+
+/**
+ * Run several action snippets in a single micro-test (or worker call),
+ * stopping at the first failing step
+ */
+export async function runDetoxBatch(options: BatchRunnerOptions): Promise<BatchRunnerResult> {
+  const { steps } = options;
+  const actionName = options.actionName ?? `batch:${steps.length}`;
+
+  const { result, execution } = await runAction(
+    {
+      actionName,
+      actionSnippet: steps.map((step) => step.snippet).join("\n"),
+      launchApp: options.launchApp,
+      timeoutMs: options.timeoutMs,
+      artifacts: options.artifacts,
+      device: options.device,
+    },
+    steps
+  );
+  const session = stateManager.resolveDetoxSession(options.device);
+
+  const actions = execution.result.actions ?? [];
+
+  // Steps that completed before a failure still happened on the device
+  for (const action of actions) {
+    const step = steps[action.index];
+    if (!step) continue;
+
+    if (action.ok && step.record) {
+      sessionRecorder.record(session, { name: step.name, snippet: step.snippet, kind: step.record });
+    }
+    await flakeTracker.record({
+      actionName: step.name,
+      selector: step.selector,
+      success: action.ok,
+      errorCode: action.ok ? undefined : classifyDetoxError(action.error),
+      errorMessage: action.error?.message,
+    });
+  }
+  const failedIndex = result.success
+    ? undefined
+    : execution.result.failedIndex ?? actions.find((action) => !action.ok)?.index;
+
+  if (!result.success && result.error && failedIndex !== undefined) {
+    result.error.message = `Action ${failedIndex} (${steps[failedIndex]?.name}) failed: ${result.error.message}`;
+  }
+
+  return {
+    ...result,
+    totalActions: steps.length,
+    completedActions: actions.filter((action) => action.ok).length,
+    failedIndex,
+    actions,
+  };
+}
+
+async function runAction(
+  options: RunnerOptions,
+  steps?: ActionStep[]
+): Promise<{ result: RunnerResult; execution: ActionExecution }> {
+  const {
+    actionName,
+    actionSnippet,
+    launchApp = true,
+    captureData = false,
+    collectEvidence = true,
+    trackFlakiness = true,
+    timeoutMs,
+  } = options;
 
   logger.info("detox", `Running action: ${actionName}`);
 
   // Validate state
-  if (!stateManager.isDetoxReady()) {
-    throw createError("DETOX_NOT_READY", "Detox session not ready", {
-      details: "Call detox.session.start first",
-    });
+  const session = stateManager.resolveDetoxSession(options.device);
+  if (!stateManager.isDetoxReady(session)) {
+    throw createError(
+      "DETOX_NOT_READY",
+      options.device ? `No ready Detox session on device ${options.device}` : "Detox session not ready",
+      {
+        details: options.device
+          ? `Call detox.session.start with device: "${options.device}" first`
+          : "Call detox.session.start first",
+      }
+    );
   }
 
   if (!hasConfig()) {
@@ -72,10 +230,184 @@ export async function runDetoxAction(options: RunnerOptions): Promise<RunnerResu
   const config = getConfig();
   const timeout = timeoutMs ?? config.detox.testTimeoutMs;
 
+  const request: ActionRequest = {
+    session,
+    actionName,
+    actionSnippet,
+    steps,
+    launchApp: launchApp && stateManager.isDetoxAppForeground(session),
+    captureData,
+    captureHierarchy: collectEvidence && config.detox.hierarchyOnFailure,
+    timeout,
+    artifacts: resolveArtifactSettings(config, stateManager.getDetox(session), options.artifacts),
+  };
+
+  // Unpinned sessions run on the default device; either way actions take its device lock
+  const udid = stateManager.getDetox(session).device ?? (await resolveDeviceUdid());
+
+  // Detox records artifacts per test, so recording actions get their own micro-test
+  const execution = await withLock(deviceResource(udid), actionName, async () =>
+    (isRecordingArtifacts(request.artifacts) ? null : await executeInWorker(request)) ??
+    (await executeInProcess(config, request))
+  );
+
+  const actionResult = execution.result;
+
+  // Batches are tracked per step by runDetoxBatch
+  if (!steps && trackFlakiness) {
+    await flakeTracker.record({
+      actionName,
+      selector: options.selector,
+      success: actionResult.ok,
+      attempt: options.attempt,
+      errorCode: actionResult.ok ? undefined : classifyDetoxError(actionResult.error),
+      errorMessage: actionResult.error?.message,
+    });
+  }
+
+  if (actionResult.ok) {
+    logger.info("detox", `Action ${actionName} completed successfully`, {
+      elapsedMs: actionResult.elapsedMs,
+    });
+
+    if (options.record) {
+      sessionRecorder.record(session, { name: actionName, snippet: actionSnippet, kind: options.record });
+    }
+    if (options.appState) {
+      stateManager.updateDetox({ appState: options.appState }, session);
+    }
+
+    return {
+      result: {
+        success: true,
+        elapsedMs: actionResult.elapsedMs,
+        data: actionResult.data,
+        artifacts: execution.artifacts,
+      },
+      execution,
+    };
+  }
+
+  if (!collectEvidence) {
+    return {
+      result: {
+        success: false,
+        elapsedMs: actionResult.elapsedMs,
+        error: {
+          code: classifyDetoxError(actionResult.error),
+          message: actionResult.error?.message ?? execution.failure ?? "Action failed",
+          details: actionResult.error?.stack,
+          busyResources: actionResult.busyResources,
+        },
+        artifacts: execution.artifacts,
+      },
+      execution,
+    };
+  }
+
+  // Action failed - collect evidence
+  const evidence: string[] = [];
+  // Selector descriptions may contain path separators (e.g. regex values)
+  const evidenceName = `error-${actionName}`.replace(/[^\w.=@-]+/g, "_");
+
+  try {
+    const screenshot = await takeScreenshot(evidenceName, stateManager.getDetox(session).device);
+    evidence.push(screenshot.path);
+  } catch {
+    logger.warn("detox", "Failed to capture error screenshot");
+  }
+
+  const logEvidence = logger.formatForEvidence("detox", 150);
+  const logPath = await artifactManager.getLogPath(evidenceName);
+  await writeFile(logPath, logEvidence, "utf-8");
+  evidence.push(logPath);
+
+  let hierarchy: HierarchySummary | undefined;
+  if (actionResult.hierarchyXml) {
+    try {
+      const nodes = pruneHierarchy(parseViewHierarchyXml(actionResult.hierarchyXml), {
+        visibleOnly: true,
+      });
+      const hierarchyPath = await artifactManager.getHierarchyPath(evidenceName);
+      await writeFile(hierarchyPath, JSON.stringify(nodes, null, 2), "utf-8");
+      artifactManager.registerArtifact({
+        type: "hierarchy",
+        path: hierarchyPath,
+        metadata: { action: actionName },
+      });
+      evidence.push(hierarchyPath);
+      hierarchy = summarizeHierarchy(nodes);
+    } catch (error) {
+      logger.warn("detox", "Failed to process view hierarchy", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return {
+    result: {
+      success: false,
+      elapsedMs: actionResult.elapsedMs,
+      error: {
+        code: classifyDetoxError(actionResult.error),
+        message: actionResult.error?.message ?? execution.failure ?? "Action failed",
+        details: actionResult.error?.stack,
+        busyResources: actionResult.busyResources,
+      },
+      evidence,
+      hierarchy,
+      artifacts: execution.artifacts,
+    },
+    execution,
+  };
+}
+
+/**
+ * Run the snippet in the persistent worker.
+ * Returns null when the worker is not available so the caller can fall back to a one-off test.
+ */
+async function executeInWorker(request: ActionRequest): Promise<ActionExecution | null> {
+  const worker = getDetoxWorker(request.session);
+  if (stateManager.getDetox(request.session).mode !== "worker" || !worker.isActive()) {
+    return null;
+  }
+
+  try {
+    const result = await worker.execute({
+      actionName: request.actionName,
+      snippet: request.actionSnippet,
+      steps: request.steps,
+      captureData: request.captureData,
+      captureHierarchy: request.captureHierarchy,
+      timeoutMs: request.timeout,
+    });
+    return { result };
+  } catch (error) {
+    if (error instanceof McpOperationError && error.code === "DETOX_NOT_READY") {
+      logger.warn("detox", "Detox worker unavailable, running action as a one-off test", {
+        details: error.details,
+      });
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Generate a micro-test for the snippet and run it with `detox test`
+ */
+async function executeInProcess(config: McpConfig, request: ActionRequest): Promise<ActionExecution> {
+  const { actionName, actionSnippet, steps, launchApp, captureData, captureHierarchy, timeout } = request;
+  const detoxState = stateManager.getDetox(request.session);
+
   // Generate unique test file
   const testId = uuidv4().slice(0, 8);
-  const testDir = join(config.projectPath, ".mcp-detox-tmp");
+  const testDir = getDetoxTestDir(config.projectPath);
   const testFile = join(testDir, `mcp-action-${testId}.test.js`);
+  const reportFile = join(testDir, `mcp-action-${testId}.results.json`);
+  const artifactsDir = isRecordingArtifacts(request.artifacts)
+    ? join(testDir, `mcp-artifacts-${testId}`)
+    : null;
 
   try {
     // Ensure test directory exists
@@ -84,13 +416,17 @@ export async function runDetoxAction(options: RunnerOptions): Promise<RunnerResu
     }
 
     // Generate test file from template
-    const template = await loadTemplate();
+    const template = await loadTemplate(ACTION_TEMPLATE);
     const testCode = ejs.render(template, {
       timestamp: new Date().toISOString(),
       actionName,
       actionSnippet,
+      steps: steps ?? null,
       launchApp,
+      launchOptions: DEFAULT_LAUNCH_OPTIONS,
+      setupSnippet: generateSessionSetupSnippet(detoxState),
       captureData,
+      captureHierarchy,
     });
 
     await writeFile(testFile, testCode, "utf-8");
@@ -101,9 +437,14 @@ export async function runDetoxAction(options: RunnerOptions): Promise<RunnerResu
     const args = [
       "test",
       "--configuration",
-      config.detox.configuration,
+      detoxState.configuration ?? config.detox.configuration,
       "--testNamePattern",
       "^mcp_action run$",
+      ...deviceArgs(detoxState),
+      "--json",
+      "--outputFile",
+      reportFile,
+      ...(artifactsDir ? buildArtifactArgs(request.artifacts, artifactsDir) : []),
       testFile,
     ];
 
@@ -131,63 +472,52 @@ export async function runDetoxAction(options: RunnerOptions): Promise<RunnerResu
       logger.debug("detox", `stderr: ${result.stderr.slice(-1000)}`);
     }
 
-    // Parse result
-    const actionResult = parseDetoxOutput(result.stdout);
-
-    if (actionResult.ok) {
-      logger.info("detox", `Action ${actionName} completed successfully`, {
-        elapsedMs: actionResult.elapsedMs,
-      });
-
-      return {
-        success: true,
-        elapsedMs: actionResult.elapsedMs,
-        data: actionResult.data,
-      };
-    }
-
-    // Action failed - collect evidence
-    const evidence: string[] = [];
-
-    try {
-      const screenshot = await takeScreenshot(`error-${actionName}`);
-      evidence.push(screenshot.path);
-    } catch {
-      logger.warn("detox", "Failed to capture error screenshot");
+    // Parse result; the Jest report carries the error class when the marker is missing
+    const report = await readJestReport(reportFile);
+    const actionResult = parseDetoxOutput(result.stdout, result.stderr, report);
+    if (actionResult.elapsedMs === undefined && report?.tests[0]?.durationMs !== undefined) {
+      actionResult.elapsedMs = report.tests[0].durationMs;
     }
 
-    const logEvidence = logger.formatForEvidence("detox", 150);
-    const logPath = await artifactManager.getLogPath(`error-${actionName}`);
-    await writeFile(logPath, logEvidence, "utf-8");
-    evidence.push(logPath);
-
-    const failure = detectTestFailure(result.stdout, result.stderr);
-
     return {
-      success: false,
-      elapsedMs: actionResult.elapsedMs,
-      error: {
-        code: "DETOX_TEST_FAILED",
-        message: actionResult.error?.message ?? failure ?? "Action failed",
-        details: actionResult.error?.stack,
-      },
-      evidence,
+      result: actionResult,
+      failure: actionResult.ok ? null : detectTestFailure(result.stdout, result.stderr, report),
+      artifacts: artifactsDir
+        ? (await collectDetoxArtifacts(artifactsDir, actionName)).map((artifact) => artifact.path)
+        : undefined,
     };
   } finally {
-    // Cleanup test file
+    // Cleanup test and report files
     try {
       if (existsSync(testFile)) {
         await unlink(testFile);
       }
+      if (existsSync(reportFile)) {
+        await unlink(reportFile);
+      }
     } catch {
       // Ignore cleanup errors
     }
   }
 }
 
-export async function startDetoxSession(configuration?: string): Promise<{
+async function readJestReport(reportFile: string): Promise<JestReport | null> {
+  if (!existsSync(reportFile)) {
+    logger.debug("detox", "No Jest JSON report written; falling back to console output");
+    return null;
+  }
+  return parseJestReport(await readFile(reportFile, "utf-8"));
+}
+
+export async function startDetoxSession(
+  configuration?: string,
+  options: { worker?: boolean; launch?: AppLaunchOptions; artifacts?: DetoxArtifactsOptions; device?: string } = {}
+): Promise<{
   sessionId: string;
   configuration: string;
+  mode: DetoxRunMode;
+  artifacts: DetoxArtifactsConfig;
+  device?: string;
 }> {
   logger.info("detox", "Starting Detox session");
 
@@ -197,95 +527,202 @@ export async function startDetoxSession(configuration?: string): Promise<{
 
   const config = getConfig();
   const detoxConfig = configuration ?? config.detox.configuration;
+  const artifacts = mergeArtifactSettings(config.detox.artifacts, options.artifacts);
+  const recording = isRecordingArtifacts(artifacts);
+  const wantsWorker = options.worker ?? config.detox.worker;
+  const useWorker = wantsWorker && !recording;
   const sessionId = uuidv4();
 
-  stateManager.updateDetox({
-    state: "starting",
-    configuration: detoxConfig,
-  });
+  // A session pinned to a device is keyed by its UDID; otherwise Detox picks the device
+  const device = options.device ? (await requireDevice(options.device)).udid : undefined;
+  const session = device ?? DEFAULT_DETOX_SESSION;
 
-  // Run a warmup/healthcheck action
-  try {
-    // Generate a simple noop test to warm up Detox
-    const template = await loadTemplate();
-    const warmupCode = ejs.render(template, {
-      timestamp: new Date().toISOString(),
-      actionName: "warmup",
-      actionSnippet: "// Warmup - no action",
-      launchApp: true,
-      captureData: false,
-    });
-
-    const testDir = join(config.projectPath, ".mcp-detox-tmp");
-    const testFile = join(testDir, "mcp-warmup.test.js");
-
-    if (!existsSync(testDir)) {
-      await mkdir(testDir, { recursive: true });
-    }
-
-    await writeFile(testFile, warmupCode, "utf-8");
+  if (recording && wantsWorker) {
+    logger.warn("detox", "Detox artifacts are recorded per test; running actions as one-off micro-tests");
+  }
 
-    const detoxBinary = join(config.projectPath, config.detox.detoxBinary);
-    const args = [
-      "test",
-      "--configuration",
-      detoxConfig,
-      "--testNamePattern",
-      "^mcp_action run$",
-      testFile,
-    ];
+  // Fail fast on a missing binary or simulator instead of after a slow warmup
+  await validateDetoxConfiguration(detoxConfig, { device });
 
-    const result = await execa(detoxBinary, args, {
-      cwd: config.projectPath,
-      timeout: config.detox.testTimeoutMs,
-      reject: false,
-    });
+  stateManager.updateDetox(
+    {
+      state: "starting",
+      configuration: detoxConfig,
+      artifacts,
+      device,
+      appState: undefined,
+    },
+    session
+  );
 
-    // Cleanup
-    try {
-      await unlink(testFile);
-    } catch {
-      // Ignore
+  try {
+    let mode: DetoxRunMode = "process";
+
+    if (useWorker) {
+      try {
+        // The worker launches the app itself, so it doubles as the warmup
+        await getDetoxWorker(session).start(detoxConfig, options.launch, device);
+        mode = "worker";
+      } catch (error) {
+        logger.warn("detox", "Detox worker failed to start, falling back to per-action processes", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
     }
 
-    if (result.exitCode !== 0) {
-      stateManager.updateDetox({ state: "failed" });
-      throw createError("DETOX_SESSION_FAILED", "Failed to start Detox session", {
-        details: result.stderr || result.stdout,
-      });
+    if (mode === "process") {
+      await runWarmup(config, detoxConfig, session, device, options.launch);
     }
 
-    stateManager.updateDetox({
-      state: "ready",
-      sessionId,
-    });
+    stateManager.updateDetox(
+      {
+        state: "ready",
+        sessionId,
+        mode,
+      },
+      session
+    );
+    sessionRecorder.start(session, options.launch);
 
-    logger.info("detox", `Detox session started: ${sessionId}`);
+    logger.info("detox", `Detox session started: ${sessionId} (${mode} mode)${device ? ` on ${device}` : ""}`);
 
     return {
       sessionId,
       configuration: detoxConfig,
+      mode,
+      artifacts,
+      device,
     };
   } catch (error) {
-    stateManager.updateDetox({ state: "failed" });
+    stateManager.updateDetox({ state: "failed" }, session);
     throw error;
   }
 }
 
-export async function stopDetoxSession(): Promise<void> {
+/**
+ * Run a no-op micro-test to build the Detox session and launch the app
+ */
+async function runWarmup(
+  config: McpConfig,
+  detoxConfig: string,
+  session: string,
+  device: string | undefined,
+  launchOptions: AppLaunchOptions = DEFAULT_LAUNCH_OPTIONS
+): Promise<void> {
+  const template = await loadTemplate(ACTION_TEMPLATE);
+  const warmupCode = ejs.render(template, {
+    timestamp: new Date().toISOString(),
+    actionName: "warmup",
+    actionSnippet: "// Warmup - no action",
+    steps: null,
+    launchApp: true,
+    launchOptions,
+    setupSnippet: null,
+    captureData: false,
+    captureHierarchy: false,
+  });
+
+  const testDir = getDetoxTestDir(config.projectPath);
+  const testFile = join(testDir, `mcp-warmup-${session}.test.js`);
+
+  if (!existsSync(testDir)) {
+    await mkdir(testDir, { recursive: true });
+  }
+
+  await writeFile(testFile, warmupCode, "utf-8");
+
+  const detoxBinary = join(config.projectPath, config.detox.detoxBinary);
+  const args = [
+    "test",
+    "--configuration",
+    detoxConfig,
+    "--testNamePattern",
+    "^mcp_action run$",
+    ...(device ? ["--device-name", device] : []),
+    testFile,
+  ];
+
+  const result = await execa(detoxBinary, args, {
+    cwd: config.projectPath,
+    timeout: config.detox.testTimeoutMs,
+    reject: false,
+  });
+
+  // Cleanup
+  try {
+    await unlink(testFile);
+  } catch {
+    // Ignore
+  }
+
+  if (result.exitCode !== 0) {
+    throw createError("DETOX_SESSION_FAILED", "Failed to start Detox session", {
+      details: result.stderr || result.stdout,
+    });
+  }
+}
+
+export interface DetoxSyncResult extends RunnerResult {
+  synchronization: boolean;
+  urlBlacklist: string[];
+}
+
+/**
+ * Change synchronization settings of the running session. They are re-applied in every
+ * new Detox process (per-action micro-tests, worker restarts) until the session stops.
+ */
+export async function setDetoxSync(options: SyncOptions, device?: string): Promise<DetoxSyncResult> {
+  const snippet = generateSyncSnippet(options);
+  const session = stateManager.resolveDetoxSession(device);
+  let result: RunnerResult = { success: true };
+
+  if (snippet) {
+    result = await runDetoxAction({
+      actionName: "sync",
+      actionSnippet: snippet,
+      launchApp: false,
+      record: "action",
+      device,
+    });
+
+    if (result.success) {
+      const current = stateManager.getDetox(session);
+      stateManager.updateDetox(
+        {
+          synchronization: options.synchronization ?? current.synchronization,
+          urlBlacklist: options.urlBlacklist ?? current.urlBlacklist,
+        },
+        session
+      );
+    }
+  }
+
+  const detoxState = stateManager.getDetox(session);
+  return {
+    ...result,
+    synchronization: detoxState.synchronization ?? true,
+    urlBlacklist: detoxState.urlBlacklist ?? [],
+  };
+}
+
+export async function stopDetoxSession(device?: string): Promise<void> {
   logger.info("detox", "Stopping Detox session");
 
-  const detoxState = stateManager.getDetox();
+  const session = stateManager.resolveDetoxSession(device);
+  const detoxState = stateManager.getDetox(session);
 
   if (detoxState.state === "idle") {
     logger.info("detox", "No active session to stop");
     return;
   }
 
-  // Cleanup temp directory
-  if (hasConfig()) {
+  await getDetoxWorker(session).stop();
+  stateManager.removeDetoxSession(session);
+
+  // Cleanup temp directory once no other session uses it
+  if (hasConfig() && stateManager.getDetoxSessions().size === 0) {
     const config = getConfig();
-    const testDir = join(config.projectPath, ".mcp-detox-tmp");
+    const testDir = getDetoxTestDir(config.projectPath);
 
     try {
       const { rm } = await import("fs/promises");
@@ -295,25 +732,37 @@ export async function stopDetoxSession(): Promise<void> {
     }
   }
 
-  stateManager.updateDetox({
-    state: "idle",
-    sessionId: undefined,
-    configuration: undefined,
-  });
-
   logger.info("detox", "Detox session stopped");
 }
 
-export async function healthCheck(): Promise<{
+export async function healthCheck(device?: string): Promise<{
   ready: boolean;
   state: string;
   sessionId?: string;
+  mode?: DetoxRunMode;
+  device?: string;
+  synchronization: boolean;
+  urlBlacklist: string[];
+  worker?: WorkerStatus;
 }> {
-  const detoxState = stateManager.getDetox();
+  const session = stateManager.resolveDetoxSession(device);
+  const detoxState = stateManager.getDetox(session);
 
   return {
     ready: detoxState.state === "ready",
     state: detoxState.state,
     sessionId: detoxState.sessionId,
+    mode: detoxState.mode,
+    device: detoxState.device,
+    synchronization: detoxState.synchronization ?? true,
+    urlBlacklist: detoxState.urlBlacklist ?? [],
+    worker: detoxState.mode === "worker" ? getDetoxWorker(session).getStatus() : undefined,
   };
 }
+
+/**
+ * Pin a `detox test` run to the session's simulator; Detox accepts a UDID as device name
+ */
+function deviceArgs(detoxState: DetoxInfo): string[] {
+  return detoxState.device ? ["--device-name", detoxState.device] : [];
+}
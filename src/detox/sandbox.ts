@@ -0,0 +1,607 @@
+/**
+ * Snippet sandbox
+ * Parses agent-written Detox snippets and checks them against an allowlist before they
+ * are embedded in a micro-test. This is a guardrail for generated code, not a VM boundary.
+ */
+
+import { parse, type Node } from "acorn";
+import { createError } from "../core/errors.js";
+import type { DetoxArtifactsOptions } from "../mcp/schemas.js";
+import { runDetoxAction, type RunnerResult } from "./runner.js";
+
+export interface SnippetViolation {
+  rule: string;
+  message: string;
+  line: number;
+  column: number;
+  excerpt: string;
+}
+
+export interface SnippetValidation {
+  ok: boolean;
+  violations: SnippetViolation[];
+}
+
+export interface SnippetRunOptions {
+  snippet: string;
+  name?: string;
+  launchApp?: boolean;
+  timeoutMs?: number;
+  artifacts?: DetoxArtifactsOptions;
+  device?: string;
+}
+
+export interface SnippetRunResult extends RunnerResult {
+  violations?: SnippetViolation[];
+}
+
+// Globals injected by the micro-test and worker
+const DETOX_GLOBALS = ["element", "by", "expect", "waitFor", "device", "capturedData"];
+
+const SAFE_GLOBALS = [
+  "JSON",
+  "Math",
+  "Number",
+  "String",
+  "Boolean",
+  "Array",
+  "Date",
+  "RegExp",
+  "Promise",
+  "Error",
+  "console",
+  "undefined",
+  "NaN",
+  "Infinity",
+  "parseInt",
+  "parseFloat",
+  "isNaN",
+  "setTimeout",
+];
+
+const FORBIDDEN_GLOBALS: Record<string, string> = {
+  require: "module loading is not allowed",
+  module: "module loading is not allowed",
+  exports: "module loading is not allowed",
+  process: "process access is not allowed",
+  global: "global object access is not allowed",
+  globalThis: "global object access is not allowed",
+  window: "global object access is not allowed",
+  self: "global object access is not allowed",
+  eval: "dynamic code evaluation is not allowed",
+  Function: "dynamic code evaluation is not allowed",
+  Reflect: "reflection is not allowed",
+  Proxy: "reflection is not allowed",
+  Object: "reflection is not allowed",
+  fs: "filesystem access is not allowed",
+  __dirname: "filesystem access is not allowed",
+  __filename: "filesystem access is not allowed",
+  Buffer: "filesystem access is not allowed",
+  fetch: "network access is not allowed",
+  XMLHttpRequest: "network access is not allowed",
+  WebSocket: "network access is not allowed",
+};
+
+// Property names that lead back to Function, the prototype chain or the global object
+const FORBIDDEN_PROPERTIES: Record<string, string> = {
+  constructor: "gives access to the prototype chain",
+  __proto__: "gives access to the prototype chain",
+  prototype: "gives access to the prototype chain",
+  __defineGetter__: "gives access to the prototype chain",
+  __defineSetter__: "gives access to the prototype chain",
+  // V8 stack frame hooks: call sites expose the caller's this and function
+  prepareStackTrace: "exposes stack frames and their receivers",
+  getThis: "exposes stack frames and their receivers",
+  getFunction: "exposes stack frames and their receivers",
+};
+
+// Injected globals a declaration must not shadow, or their allowlists would stop applying
+const SHADOWING_FORBIDDEN = ["element", "by", "expect", "waitFor", "device"];
+
+const FORBIDDEN_NODES: Record<string, string> = {
+  ImportExpression: "dynamic import() is not allowed",
+  ImportDeclaration: "import statements are not allowed",
+  ExportNamedDeclaration: "export statements are not allowed",
+  ExportDefaultDeclaration: "export statements are not allowed",
+  ExportAllDeclaration: "export statements are not allowed",
+  MetaProperty: "import.meta and new.target are not allowed",
+  WithStatement: "with statements are not allowed",
+  ThisExpression: "'this' is not allowed; use the injected Detox globals",
+};
+
+const DEVICE_METHODS = [
+  "launchApp",
+  "relaunchApp",
+  "terminateApp",
+  "sendToHome",
+  "reloadReactNative",
+  "installApp",
+  "uninstallApp",
+  "selectApp",
+  "openURL",
+  "sendUserActivity",
+  "sendUserNotification",
+  "setOrientation",
+  "setLocation",
+  "setURLBlacklist",
+  "enableSynchronization",
+  "disableSynchronization",
+  "resetContentAndSettings",
+  "getPlatform",
+  "takeScreenshot",
+  "captureViewHierarchy",
+  "generateViewHierarchyXml",
+  "shake",
+  "tap",
+  "longPress",
+  "setBiometricEnrollment",
+  "matchFace",
+  "unmatchFace",
+  "matchFinger",
+  "unmatchFinger",
+  "clearKeychain",
+  "setStatusBar",
+  "resetStatusBar",
+  "appLaunchArgs",
+  "id",
+  "name",
+];
+
+// Globals that are functions; destructuring or aliasing them can reach their constructor
+const FUNCTION_GLOBALS = [
+  "element",
+  "by",
+  "expect",
+  "waitFor",
+  "Number",
+  "String",
+  "Boolean",
+  "Array",
+  "Date",
+  "RegExp",
+  "Promise",
+  "Error",
+  "parseInt",
+  "parseFloat",
+  "isNaN",
+  "setTimeout",
+];
+
+const EXCERPT_LENGTH = 80;
+
+type AstNode = Node & Record<string, unknown>;
+
+/**
+ * Validate a snippet and run it through the Detox runner. Values assigned to
+ * capturedData are returned as data.
+ */
+export async function runSnippet(options: SnippetRunOptions): Promise<SnippetRunResult> {
+  const validation = validateSnippet(options.snippet);
+
+  if (!validation.ok) {
+    const error = createError(
+      "SNIPPET_REJECTED",
+      `Snippet rejected: ${validation.violations.length} violation(s)`,
+      {
+        details: validation.violations
+          .map((v) => `${v.line}:${v.column} [${v.rule}] ${v.message}`)
+          .join("\n"),
+      }
+    );
+    return {
+      success: false,
+      error: { code: error.code, message: error.message, details: error.details },
+      violations: validation.violations,
+    };
+  }
+
+  return runDetoxAction({
+    actionName: `snippet:${options.name ?? "custom"}`,
+    actionSnippet: options.snippet,
+    launchApp: options.launchApp,
+    captureData: true,
+    timeoutMs: options.timeoutMs,
+    artifacts: options.artifacts,
+    record: "action",
+    device: options.device,
+  });
+}
+
+/**
+ * Check a snippet against the allowlist; every violation is reported, not just the first
+ */
+export function validateSnippet(code: string): SnippetValidation {
+  let program: AstNode;
+  try {
+    program = parse(code, {
+      ecmaVersion: "latest",
+      sourceType: "script",
+      allowAwaitOutsideFunction: true,
+      locations: true,
+    }) as unknown as AstNode;
+  } catch (error) {
+    const loc = (error as { loc?: { line: number; column: number } }).loc;
+    return {
+      ok: false,
+      violations: [
+        {
+          rule: "syntax",
+          message: error instanceof Error ? error.message : String(error),
+          line: loc?.line ?? 1,
+          column: loc?.column ?? 0,
+          excerpt: excerptAt(code, loc?.line ?? 1),
+        },
+      ],
+    };
+  }
+
+  const declared = collectDeclaredNames(program);
+  const functionNames = collectFunctionNames(program);
+  const violations: SnippetViolation[] = [];
+
+  const report = (node: AstNode, rule: string, message: string) => {
+    violations.push({
+      rule,
+      message,
+      line: node.loc?.start.line ?? 1,
+      column: node.loc?.start.column ?? 0,
+      excerpt: truncate(code.slice(node.start, node.end)),
+    });
+  };
+
+  walk(program, null, null, (node, parent, key) => {
+    const forbiddenNode = FORBIDDEN_NODES[node.type];
+    if (forbiddenNode) {
+      report(node, "forbidden-syntax", forbiddenNode);
+      return;
+    }
+
+    if (node.type === "Identifier" && isReference(parent, key)) {
+      const name = node.name as string;
+      const forbidden = FORBIDDEN_GLOBALS[name];
+      const isMemberObject = parent?.type === "MemberExpression" && key === "object";
+      if (forbidden) {
+        report(node, "forbidden-global", `'${name}': ${forbidden}`);
+      } else if (name === "device" && !isMemberObject) {
+        // An alias would skip the device method allowlist in checkMember
+        report(node, "device-alias", "device can only be used as device.<method>, not aliased or passed around");
+      } else if (!declared.has(name) && !DETOX_GLOBALS.includes(name) && !SAFE_GLOBALS.includes(name)) {
+        report(node, "unknown-global", `'${name}' is not an allowed global (allowed: ${DETOX_GLOBALS.join(", ")})`);
+      }
+      return;
+    }
+
+    if (node.type === "MemberExpression") {
+      checkMember(node, report);
+      return;
+    }
+
+    if (node.type === "ObjectPattern") {
+      checkPatternKeys(node, report);
+      return;
+    }
+
+    for (const pattern of bindingPatterns(node)) {
+      checkShadowing(pattern, report);
+    }
+
+    if (node.type === "VariableDeclarator" && node.init) {
+      checkBinding(node.id as AstNode, node.init as AstNode, functionNames, report);
+      return;
+    }
+
+    if (node.type === "AssignmentExpression") {
+      checkGlobalMutation(node.left as AstNode, report);
+      checkBinding(node.left as AstNode, node.right as AstNode, functionNames, report);
+      return;
+    }
+
+    if (node.type === "UpdateExpression" || (node.type === "UnaryExpression" && node.operator === "delete")) {
+      checkGlobalMutation(node.argument as AstNode, report);
+    } else if (node.type === "ForInStatement" || node.type === "ForOfStatement") {
+      checkGlobalMutation(node.left as AstNode, report);
+    }
+
+    // Also catches names passed to helpers, e.g. getOwnPropertyDescriptor(x, "constructor")
+    const isMemberKey = parent?.type === "MemberExpression" && key === "property";
+    if (
+      node.type === "Literal" &&
+      typeof node.value === "string" &&
+      Object.hasOwn(FORBIDDEN_PROPERTIES, node.value) &&
+      !isMemberKey
+    ) {
+      report(node, "forbidden-property", `'${node.value}' ${FORBIDDEN_PROPERTIES[node.value]}`);
+    }
+  });
+
+  return { ok: violations.length === 0, violations };
+}
+
+function checkMember(
+  node: AstNode,
+  report: (node: AstNode, rule: string, message: string) => void
+): void {
+  const property = node.property as AstNode;
+  const object = node.object as AstNode;
+
+  let name: string | undefined;
+  if (!node.computed) {
+    name = property.name as string;
+  } else if (property.type === "Literal") {
+    name = String(property.value);
+  } else {
+    report(node, "dynamic-property", "Computed property access needs a literal key");
+    return;
+  }
+
+  if (Object.hasOwn(FORBIDDEN_PROPERTIES, name)) {
+    report(property, "forbidden-property", `'${name}' ${FORBIDDEN_PROPERTIES[name]}`);
+    return;
+  }
+
+  if (object.type === "Identifier" && object.name === "device") {
+    if (!DEVICE_METHODS.includes(name)) {
+      report(property, "unknown-device-method", `device.${name} is not an allowed Detox device method`);
+    }
+  }
+}
+
+/**
+ * Destructured keys are property reads too: `const { constructor: F } = fn` is `fn.constructor`
+ */
+function checkPatternKeys(
+  pattern: AstNode,
+  report: (node: AstNode, rule: string, message: string) => void
+): void {
+  for (const property of pattern.properties as AstNode[]) {
+    if (property.type !== "Property") continue;
+
+    const key = property.key as AstNode;
+    let name: string;
+    if (!property.computed) {
+      name = (key.name as string | undefined) ?? String(key.value);
+    } else if (key.type === "Literal") {
+      name = String(key.value);
+    } else {
+      report(key, "dynamic-property", "Computed destructuring keys need a literal key");
+      continue;
+    }
+
+    if (Object.hasOwn(FORBIDDEN_PROPERTIES, name)) {
+      report(key, "forbidden-property", `'${name}' ${FORBIDDEN_PROPERTIES[name]}`);
+    }
+  }
+}
+
+/**
+ * Reject changing the injected and built-in globals, e.g. `Error.prepareStackTrace = ...`,
+ * which would alter how later Detox and server code behaves. Destructuring targets count too
+ */
+function checkGlobalMutation(
+  target: AstNode,
+  report: (node: AstNode, rule: string, message: string) => void
+): void {
+  switch (target.type) {
+    case "ObjectPattern":
+      for (const property of target.properties as AstNode[]) {
+        checkGlobalMutation((property.type === "RestElement" ? property.argument : property.value) as AstNode, report);
+      }
+      return;
+    case "ArrayPattern":
+      for (const element of target.elements as (AstNode | null)[]) {
+        if (element) checkGlobalMutation(element, report);
+      }
+      return;
+    case "RestElement":
+      checkGlobalMutation(target.argument as AstNode, report);
+      return;
+    case "AssignmentPattern":
+      checkGlobalMutation(target.left as AstNode, report);
+      return;
+    case "MemberExpression":
+      break;
+    default:
+      return;
+  }
+
+  let object = target;
+  while (object.type === "MemberExpression") {
+    object = object.object as AstNode;
+  }
+
+  // Scopes are flattened, so a local with a global's name is treated as the global
+  const name = object.type === "Identifier" ? (object.name as string) : undefined;
+  if (name && name !== "capturedData" && (DETOX_GLOBALS.includes(name) || SAFE_GLOBALS.includes(name))) {
+    report(target, "global-mutation", `Changing properties of '${name}' is not allowed`);
+  }
+}
+
+/**
+ * Reject declarations that shadow an injected Detox global: `device`, `element` and the
+ * other allowlists are checked by name, so a shadowing binding anywhere would switch them off
+ */
+function checkShadowing(
+  pattern: AstNode,
+  report: (node: AstNode, rule: string, message: string) => void
+): void {
+  const names = new Set<string>();
+  collectPatternNames(pattern, names);
+
+  for (const name of names) {
+    if (SHADOWING_FORBIDDEN.includes(name)) {
+      report(pattern, "shadowed-global", `'${name}' is injected by Detox and cannot be redeclared`);
+    }
+  }
+}
+
+/**
+ * Reject destructuring from function values and aliasing them, e.g. `const { call } = fn`,
+ * `const F = Promise` or `const launch = device.launchApp`
+ */
+function checkBinding(
+  target: AstNode,
+  source: AstNode,
+  functionNames: Set<string>,
+  report: (node: AstNode, rule: string, message: string) => void
+): void {
+  const isPattern = target.type === "ObjectPattern" || target.type === "ArrayPattern";
+  const isFunctionExpression =
+    source.type === "FunctionExpression" ||
+    source.type === "ArrowFunctionExpression" ||
+    source.type === "ClassExpression";
+  const isFunctionName =
+    source.type === "Identifier" &&
+    (functionNames.has(source.name as string) || FUNCTION_GLOBALS.includes(source.name as string));
+  const isDeviceMember =
+    source.type === "MemberExpression" &&
+    (source.object as AstNode).type === "Identifier" &&
+    (source.object as AstNode).name === "device";
+
+  if (isPattern && (isFunctionExpression || isFunctionName || isDeviceMember)) {
+    report(source, "function-destructuring", "Destructuring from a function value is not allowed");
+  } else if (!isPattern && (isFunctionName || isDeviceMember)) {
+    report(source, "function-alias", "Aliasing a function value is not allowed; call it directly");
+  }
+}
+
+/**
+ * Whether an Identifier is a variable reference rather than a property key or label
+ */
+function isReference(parent: AstNode | null, key: string | null): boolean {
+  if (!parent) return true;
+
+  switch (parent.type) {
+    case "MemberExpression":
+      return key !== "property" || parent.computed === true;
+    case "Property":
+    case "MethodDefinition":
+    case "PropertyDefinition":
+      return key !== "key" || parent.computed === true;
+    case "LabeledStatement":
+    case "BreakStatement":
+    case "ContinueStatement":
+      return false;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Names declared anywhere in the snippet. Scopes are flattened, which only ever allows more;
+ * the injected Detox globals cannot be shadowed (checkShadowing), so their checks always apply
+ */
+function collectDeclaredNames(program: AstNode): Set<string> {
+  const names = new Set<string>();
+
+  walk(program, null, null, (node) => {
+    for (const pattern of bindingPatterns(node)) {
+      collectPatternNames(pattern, names);
+    }
+  });
+
+  return names;
+}
+
+/**
+ * Binding patterns a node declares: variables, function names and parameters, classes and catch params
+ */
+function bindingPatterns(node: AstNode): AstNode[] {
+  switch (node.type) {
+    case "VariableDeclarator":
+      return [node.id as AstNode];
+    case "FunctionDeclaration":
+    case "FunctionExpression":
+    case "ArrowFunctionExpression":
+      return [...(node.id ? [node.id as AstNode] : []), ...(node.params as AstNode[])];
+    case "ClassDeclaration":
+    case "ClassExpression":
+      return node.id ? [node.id as AstNode] : [];
+    case "CatchClause":
+      return node.param ? [node.param as AstNode] : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Names bound to functions: declarations and variables initialized with a function or class
+ */
+function collectFunctionNames(program: AstNode): Set<string> {
+  const names = new Set<string>();
+
+  walk(program, null, null, (node) => {
+    if ((node.type === "FunctionDeclaration" || node.type === "ClassDeclaration") && node.id) {
+      names.add((node.id as AstNode).name as string);
+    } else if (
+      node.type === "VariableDeclarator" &&
+      (node.id as AstNode).type === "Identifier" &&
+      ["FunctionExpression", "ArrowFunctionExpression", "ClassExpression"].includes(
+        (node.init as AstNode | null)?.type ?? ""
+      )
+    ) {
+      names.add((node.id as AstNode).name as string);
+    }
+  });
+
+  return names;
+}
+
+function collectPatternNames(pattern: AstNode, names: Set<string>): void {
+  switch (pattern.type) {
+    case "Identifier":
+      names.add(pattern.name as string);
+      break;
+    case "ObjectPattern":
+      for (const property of pattern.properties as AstNode[]) {
+        collectPatternNames(
+          (property.type === "RestElement" ? property.argument : property.value) as AstNode,
+          names
+        );
+      }
+      break;
+    case "ArrayPattern":
+      for (const element of pattern.elements as (AstNode | null)[]) {
+        if (element) collectPatternNames(element, names);
+      }
+      break;
+    case "RestElement":
+      collectPatternNames(pattern.argument as AstNode, names);
+      break;
+    case "AssignmentPattern":
+      collectPatternNames(pattern.left as AstNode, names);
+      break;
+  }
+}
+
+function walk(
+  node: AstNode,
+  parent: AstNode | null,
+  key: string | null,
+  visit: (node: AstNode, parent: AstNode | null, key: string | null) => void
+): void {
+  visit(node, parent, key);
+
+  for (const [childKey, value] of Object.entries(node)) {
+    if (childKey === "loc") continue;
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        if (isNode(item)) walk(item, node, childKey, visit);
+      }
+    } else if (isNode(value)) {
+      walk(value, node, childKey, visit);
+    }
+  }
+}
+
+function isNode(value: unknown): value is AstNode {
+  return !!value && typeof value === "object" && typeof (value as { type?: unknown }).type === "string";
+}
+
+function truncate(text: string): string {
+  const singleLine = text.replace(/\s+/g, " ");
+  return singleLine.length > EXCERPT_LENGTH ? `${singleLine.slice(0, EXCERPT_LENGTH)}...` : singleLine;
+}
+
+function excerptAt(code: string, line: number): string {
+  return truncate(code.split("\n")[line - 1] ?? "");
+}
@@ -3,34 +3,84 @@
  * Converts MCP selector format to Detox matcher expressions
  */
 
-import type { Selector } from "../mcp/schemas.js";
+import type { Matcher, Selector } from "../mcp/schemas.js";
 
-export type SelectorType = "id" | "text" | "label";
+export type SelectorType = Matcher["by"];
 
-export function selectorToDetoxExpr(selector: Selector): string {
-  switch (selector.by) {
+/**
+ * Build the Detox matcher for a selector, including nested and/ancestor/descendant matchers.
+ * The selector index is applied to the element, see buildElementExpr.
+ */
+export function selectorToDetoxExpr(selector: Matcher): string {
+  let matcher = baseMatcherExpr(selector);
+
+  for (const extra of selector.and ?? []) {
+    matcher = `${matcher}.and(${selectorToDetoxExpr(extra)})`;
+  }
+
+  return buildMatcherWithModifiers(matcher, {
+    ancestor: selector.withAncestor,
+    descendant: selector.withDescendant,
+  });
+}
+
+function baseMatcherExpr(matcher: Matcher): string {
+  const value = matcher.regex
+    ? `new RegExp(${JSON.stringify(matcher.value)})`
+    : JSON.stringify(matcher.value);
+
+  switch (matcher.by) {
     case "id":
-      return `by.id(${JSON.stringify(selector.value)})`;
+      return `by.id(${value})`;
     case "text":
-      return `by.text(${JSON.stringify(selector.value)})`;
+      return `by.text(${value})`;
     case "label":
-      return `by.label(${JSON.stringify(selector.value)})`;
+      return `by.label(${value})`;
+    case "type":
+      return `by.type(${JSON.stringify(matcher.value)})`;
+    case "traits":
+      return `by.traits(${JSON.stringify(parseTraits(matcher.value))})`;
     default:
-      throw new Error(`Unsupported selector type: ${(selector as Selector).by}`);
+      throw new Error(`Unsupported selector type: ${(matcher as Matcher).by}`);
   }
 }
 
-export function describeSelector(selector: Selector): string {
-  return `${selector.by}="${selector.value}"`;
+function parseTraits(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((trait) => trait.trim())
+    .filter(Boolean);
+}
+
+export function describeSelector(selector: Matcher & { index?: number }): string {
+  let description = selector.regex
+    ? `${selector.by}=/${selector.value}/`
+    : `${selector.by}="${selector.value}"`;
+
+  for (const extra of selector.and ?? []) {
+    description += `&${describeSelector(extra)}`;
+  }
+  if (selector.withAncestor) {
+    description += ` in(${describeSelector(selector.withAncestor)})`;
+  }
+  if (selector.withDescendant) {
+    description += ` has(${describeSelector(selector.withDescendant)})`;
+  }
+  if (selector.index !== undefined) {
+    description += `[${selector.index}]`;
+  }
+
+  return description;
 }
 
 /**
- * Build a Detox element expression with optional index
+ * Build a Detox element expression, picking the selector's index (or an explicit one)
  */
 export function buildElementExpr(selector: Selector, index?: number): string {
   const matcher = selectorToDetoxExpr(selector);
-  if (index !== undefined) {
-    return `element(${matcher}).atIndex(${index})`;
+  const atIndex = index ?? selector.index;
+  if (atIndex !== undefined) {
+    return `element(${matcher}).atIndex(${atIndex})`;
   }
   return `element(${matcher})`;
 }
@@ -39,24 +89,23 @@ export function buildElementExpr(selector: Selector, index?: number): string {
  * Supported matcher modifiers
  */
 export interface MatcherModifiers {
-  index?: number;
-  ancestor?: Selector;
-  descendant?: Selector;
+  ancestor?: Matcher;
+  descendant?: Matcher;
 }
 
 export function buildMatcherWithModifiers(
-  selector: Selector,
+  matcher: string,
   modifiers?: MatcherModifiers
 ): string {
-  let matcher = selectorToDetoxExpr(selector);
+  let expr = matcher;
 
   if (modifiers?.ancestor) {
-    matcher = `${matcher}.withAncestor(${selectorToDetoxExpr(modifiers.ancestor)})`;
+    expr = `${expr}.withAncestor(${selectorToDetoxExpr(modifiers.ancestor)})`;
   }
 
   if (modifiers?.descendant) {
-    matcher = `${matcher}.withDescendant(${selectorToDetoxExpr(modifiers.descendant)})`;
+    expr = `${expr}.withDescendant(${selectorToDetoxExpr(modifiers.descendant)})`;
   }
 
-  return matcher;
+  return expr;
 }
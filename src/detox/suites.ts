@@ -0,0 +1,427 @@
+/**
+ * Detox suite runs
+ * Runs the project's own e2e tests with `detox test` and reports per-test results,
+ * retrying failed files so flaky tests can be told apart from broken ones
+ */
+
+import { execa } from "execa";
+import { readFile, readdir, writeFile, mkdir, unlink } from "fs/promises";
+import { existsSync } from "fs";
+import { join, relative, resolve, isAbsolute } from "path";
+import { v4 as uuidv4 } from "uuid";
+
+import { createError, type ErrorCode } from "../core/errors.js";
+import { logger } from "../core/logger.js";
+import { stateManager } from "../core/state.js";
+import { artifactManager } from "../core/artifacts.js";
+import { getConfig } from "../config/load.js";
+import { requireDevice } from "../simulator/devices.js";
+import type { DetoxArtifactsConfig, McpConfig } from "../config/schema.js";
+import type { DetoxArtifactsOptions } from "../mcp/schemas.js";
+import { getDetoxTestDir } from "./templates.js";
+import { validateDetoxConfiguration } from "./configurations.js";
+import {
+  parseJestReport,
+  parseJUnitReport,
+  classifyDetoxError,
+  type JestReport,
+  type DetoxErrorInfo,
+} from "./output.js";
+import {
+  mergeArtifactSettings,
+  isRecordingArtifacts,
+  buildArtifactArgs,
+  collectDetoxArtifacts,
+  type CollectedArtifact,
+} from "./artifacts.js";
+
+export interface SuiteRunOptions {
+  files?: string[];
+  testNamePattern?: string;
+  configuration?: string;
+  retries?: number;
+  shard?: string;
+  junitPath?: string;
+  artifacts?: DetoxArtifactsOptions;
+  timeoutMs?: number;
+  // Simulator UDID, name or role to run on instead of the configuration's device
+  device?: string;
+}
+
+export interface SuiteTestResult {
+  file?: string;
+  fullName: string;
+  status: string;
+  durationMs?: number;
+  attempts: number;
+  flaky: boolean;
+  code?: ErrorCode;
+  error?: DetoxErrorInfo;
+  failureMessages: string[];
+  artifacts?: string[];
+}
+
+export interface SuiteRunResult {
+  success: boolean;
+  configuration: string;
+  files: string[];
+  durationMs: number;
+  attempts: number;
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+    flaky: number;
+  };
+  tests: SuiteTestResult[];
+  suiteErrors: Array<{ file?: string; error: DetoxErrorInfo }>;
+  artifacts: string[];
+  logPath: string;
+}
+
+interface AttemptResult {
+  report: JestReport | null;
+  exitCode?: number;
+  output: string[];
+  artifacts: CollectedArtifact[];
+}
+
+const DEFAULT_SUITE_TIMEOUT_MS = 1800000;
+
+// Evidence for failing tests when neither config nor the caller asks for something else
+const FAILING_TEST_ARTIFACTS: DetoxArtifactsConfig = {
+  recordVideos: "failing",
+  takeScreenshots: "failing",
+  recordLogs: "failing",
+  captureViewHierarchy: "disabled",
+};
+
+const SKIPPED_STATUSES = ["pending", "skipped", "todo", "disabled"];
+
+const IGNORED_DIRS = new Set(["node_modules", ".git", "ios", "android"]);
+
+const OUTPUT_TAIL_LINES = 40;
+
+/**
+ * Run the project's Detox tests and return per-test results
+ */
+export async function runTestSuites(options: SuiteRunOptions = {}): Promise<SuiteRunResult> {
+  const config = getConfig();
+  const session = stateManager.getDetox(stateManager.resolveDetoxSession(options.device));
+  const configuration = options.configuration ?? session.configuration ?? config.detox.configuration;
+  const device = options.device ? (await requireDevice(options.device)).udid : undefined;
+
+  await validateDetoxConfiguration(configuration, { device });
+
+  if (session.mode === "worker") {
+    logger.warn("detox", "A Detox worker is running; the suite will relaunch the app it is attached to");
+  }
+
+  const files = options.files?.length ? await resolveTestFiles(config.projectPath, options.files) : [];
+  const base = isRecordingArtifacts(config.detox.artifacts) ? config.detox.artifacts : FAILING_TEST_ARTIFACTS;
+  const artifactSettings = mergeArtifactSettings(base, options.artifacts);
+  const retries = options.retries ?? 0;
+
+  const startedAt = Date.now();
+  const results = new Map<string, SuiteTestResult>();
+  const output: string[] = [];
+  const artifacts: string[] = [];
+  let suiteErrors: SuiteRunResult["suiteErrors"] = [];
+  let selection = files;
+  let attempts = 0;
+
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    attempts = attempt;
+    logger.info(
+      "detox",
+      `[tests] Attempt ${attempt}/${retries + 1}: ${selection.length > 0 ? selection.join(" ") : "all tests"}`
+    );
+
+    // Retries run only this shard's failed files; jest would re-shard that smaller set and could skip them
+    const shard = selection === files ? options.shard : undefined;
+    const run = await runAttempt(config, configuration, device, selection, shard, artifactSettings, options, attempt);
+    output.push(...run.output);
+
+    if (!run.report) {
+      if (attempt === 1) {
+        throw createError("DETOX_TEST_FAILED", `detox test exited with code ${run.exitCode} without a test report`, {
+          details: run.output.slice(-OUTPUT_TAIL_LINES).join("\n"),
+        });
+      }
+      break;
+    }
+
+    mergeAttempt(results, run.report, config.projectPath);
+    suiteErrors = run.report.suiteErrors.map((suiteError) => ({
+      ...suiteError,
+      file: suiteError.file ? relative(config.projectPath, suiteError.file) : undefined,
+    }));
+    attachArtifacts(results, run.artifacts);
+    artifacts.push(...run.artifacts.map((artifact) => artifact.path));
+
+    const failed = [...results.values()].filter((test) => test.status === "failed");
+    if (failed.length === 0 && suiteErrors.length === 0) break;
+
+    // Re-run only the files that failed; fall back to the full selection when a report has no file names
+    const failedFiles = [...failed.map((test) => test.file), ...suiteErrors.map((error) => error.file)];
+    selection = failedFiles.every((file) => file !== undefined)
+      ? [...new Set(failedFiles as string[])]
+      : files;
+  }
+
+  const logPath = await artifactManager.getLogPath(`tests-${configuration}`);
+  await writeFile(logPath, output.join("\n"), "utf-8");
+  artifactManager.registerArtifact({ type: "log", path: logPath, metadata: { action: "detox.run_tests", configuration } });
+
+  const tests = [...results.values()];
+  const summary = {
+    total: tests.length,
+    passed: tests.filter((test) => test.status === "passed").length,
+    failed: tests.filter((test) => test.status === "failed").length,
+    skipped: tests.filter((test) => SKIPPED_STATUSES.includes(test.status)).length,
+    flaky: tests.filter((test) => test.flaky).length,
+  };
+
+  logger.info("detox", `[tests] ${summary.passed} passed, ${summary.failed} failed, ${summary.flaky} flaky`);
+
+  return {
+    success: summary.failed === 0 && suiteErrors.length === 0,
+    configuration,
+    files,
+    durationMs: Date.now() - startedAt,
+    attempts,
+    summary,
+    tests,
+    suiteErrors,
+    artifacts,
+    logPath,
+  };
+}
+
+async function runAttempt(
+  config: McpConfig,
+  configuration: string,
+  device: string | undefined,
+  files: string[],
+  shard: string | undefined,
+  artifactSettings: DetoxArtifactsConfig,
+  options: SuiteRunOptions,
+  attempt: number
+): Promise<AttemptResult> {
+  const runId = uuidv4().slice(0, 8);
+  const testDir = getDetoxTestDir(config.projectPath);
+  const reportFile = join(testDir, `mcp-suite-${runId}.results.json`);
+  const artifactsDir = isRecordingArtifacts(artifactSettings) ? join(testDir, `mcp-suite-artifacts-${runId}`) : null;
+
+  if (!existsSync(testDir)) {
+    await mkdir(testDir, { recursive: true });
+  }
+
+  const args = [
+    "test",
+    "--configuration",
+    configuration,
+    "--json",
+    "--outputFile",
+    reportFile,
+    ...(artifactsDir ? buildArtifactArgs(artifactSettings, artifactsDir) : []),
+    ...(options.testNamePattern ? ["--testNamePattern", options.testNamePattern] : []),
+    ...(shard ? ["--shard", shard] : []),
+    ...(device ? ["--device-name", device] : []),
+    ...files,
+  ];
+
+  const detoxBinary = join(config.projectPath, config.detox.detoxBinary);
+  logger.debug("detox", `Executing: ${detoxBinary} ${args.join(" ")}`);
+
+  const output: string[] = [];
+  const child = execa(detoxBinary, args, {
+    cwd: config.projectPath,
+    timeout: options.timeoutMs ?? DEFAULT_SUITE_TIMEOUT_MS,
+    reject: false,
+    all: true,
+  });
+
+  child.all?.on("data", (chunk: Buffer) => {
+    for (const line of chunk.toString().split("\n")) {
+      if (line.trim()) {
+        output.push(line);
+        logger.info("detox", `[tests] ${line}`);
+      }
+    }
+  });
+
+  const result = await child;
+
+  try {
+    const report = await readReport(reportFile, options.junitPath && resolve(config.projectPath, options.junitPath));
+    const artifacts = artifactsDir ? await collectDetoxArtifacts(artifactsDir, `run_tests:attempt-${attempt}`) : [];
+    return { report, exitCode: result.exitCode, output, artifacts };
+  } finally {
+    if (existsSync(reportFile)) {
+      await unlink(reportFile).catch(() => undefined);
+    }
+  }
+}
+
+async function readReport(reportFile: string, junitPath: string | undefined): Promise<JestReport | null> {
+  if (existsSync(reportFile)) {
+    return parseJestReport(await readFile(reportFile, "utf-8"));
+  }
+  if (junitPath && existsSync(junitPath)) {
+    logger.info("detox", `No Jest JSON report; reading JUnit results from ${junitPath}`);
+    return parseJUnitReport(await readFile(junitPath, "utf-8"));
+  }
+  return null;
+}
+
+/**
+ * Fold one attempt into the results; a failure followed by a pass marks the test flaky
+ */
+function mergeAttempt(results: Map<string, SuiteTestResult>, report: JestReport, projectPath: string): void {
+  for (const test of report.tests) {
+    const file = test.file ? (isAbsolute(test.file) ? relative(projectPath, test.file) : test.file) : undefined;
+    const key = `${file ?? ""}::${test.fullName}`;
+    const previous = results.get(key);
+    const failed = test.status === "failed";
+
+    results.set(key, {
+      file,
+      fullName: test.fullName,
+      status: test.status,
+      durationMs: test.durationMs,
+      attempts: (previous?.attempts ?? 0) + 1,
+      flaky: (previous?.flaky ?? false) || (previous?.status === "failed" && test.status === "passed"),
+      code: failed ? classifyDetoxError(test.error) : undefined,
+      error: failed ? test.error : undefined,
+      failureMessages: failed ? test.failureMessages : previous?.failureMessages ?? [],
+      artifacts: previous?.artifacts,
+    });
+  }
+}
+
+function attachArtifacts(results: Map<string, SuiteTestResult>, artifacts: CollectedArtifact[]): void {
+  for (const artifact of artifacts) {
+    if (!artifact.test) continue;
+    const testKey = normalizeTestName(artifact.test);
+    for (const test of results.values()) {
+      if (normalizeTestName(test.fullName) === testKey) {
+        test.artifacts = [...(test.artifacts ?? []), artifact.path];
+      }
+    }
+  }
+}
+
+// Detox folder names replace characters that are invalid in paths
+function normalizeTestName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Expand file paths and globs (*, **, ?, {a,b}) relative to the project
+ */
+export async function resolveTestFiles(projectPath: string, patterns: string[]): Promise<string[]> {
+  const files = new Set<string>();
+  const unmatched: string[] = [];
+
+  for (const pattern of patterns) {
+    const normalized = pattern.replace(/^\.\//, "");
+
+    // Only the static part of a glob decides where the walk starts
+    const staticPart = normalized.split(/[*?{]/)[0];
+    const target = resolve(projectPath, staticPart);
+    const relativeTarget = relative(projectPath, target);
+    if (relativeTarget.startsWith("..") || isAbsolute(relativeTarget)) {
+      throw createError("DETOX_TEST_PATH_INVALID", `Test path ${pattern} is outside the project`, {
+        details: `Resolved to ${target}; the project is ${projectPath}`,
+      });
+    }
+
+    if (!/[*?{]/.test(normalized)) {
+      if (existsSync(resolve(projectPath, normalized))) {
+        files.add(normalized);
+      } else {
+        unmatched.push(pattern);
+      }
+      continue;
+    }
+
+    // Walk only below the static part of the pattern
+    const segments = normalized.split("/");
+    const staticSegments = segments.slice(0, segments.findIndex((segment) => /[*?{]/.test(segment)));
+    const root = staticSegments.join("/");
+    const matcher = globToRegExp(normalized);
+
+    const matches = existsSync(join(projectPath, root))
+      ? (await listFiles(join(projectPath, root), root)).filter((file) => matcher.test(file))
+      : [];
+
+    if (matches.length === 0) unmatched.push(pattern);
+    matches.forEach((file) => files.add(file));
+  }
+
+  if (files.size === 0) {
+    throw createError("DETOX_TESTS_NOT_FOUND", "No test files match the given paths", {
+      details: `Unmatched: ${unmatched.join(", ")}`,
+    });
+  }
+  if (unmatched.length > 0) {
+    logger.warn("detox", `No test files match: ${unmatched.join(", ")}`);
+  }
+
+  return [...files].sort();
+}
+
+async function listFiles(dir: string, relativeDir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    if (entry.name.startsWith(".") || IGNORED_DIRS.has(entry.name)) continue;
+
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(join(dir, entry.name), relativePath)));
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+
+  return files;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" matches zero or more directories
+      i++;
+      if (glob[i + 1] === "/") {
+        i++;
+        pattern += "(?:.*/)?";
+      } else {
+        pattern += ".*";
+      }
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else if (char === "{" && glob.indexOf("}", i) > i) {
+      const end = glob.indexOf("}", i);
+      pattern += `(?:${glob.slice(i + 1, end).split(",").map(escapeRegExp).join("|")})`;
+      i = end;
+    } else {
+      pattern += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
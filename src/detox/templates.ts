@@ -0,0 +1,54 @@
+/**
+ * Detox test templates
+ * Loads the EJS templates used to generate micro-tests and the worker
+ */
+
+import { readFile } from "fs/promises";
+import { join, dirname } from "path";
+import type { AppLaunchOptions, Selector } from "../mcp/schemas.js";
+import type { RecordedStepKind } from "./recorder.js";
+
+export const ACTION_TEMPLATE = "detox-action-template.ejs";
+export const WORKER_TEMPLATE = "detox-worker-template.ejs";
+export const EXPORT_TEMPLATE = "detox-export-template.ejs";
+
+/**
+ * A named snippet rendered as one step of a batched test
+ */
+export interface ActionStep {
+  name: string;
+  snippet: string;
+  // Recorded for session.export_detox_test when the step succeeds
+  record?: RecordedStepKind;
+  // Element the step targets, for flake tracking
+  selector?: Selector;
+}
+
+/**
+ * Launch options used when a test launches the app before running its actions
+ */
+export const DEFAULT_LAUNCH_OPTIONS: AppLaunchOptions = { newInstance: false };
+
+const templateCache = new Map<string, string>();
+
+export async function loadTemplate(fileName: string): Promise<string> {
+  const cached = templateCache.get(fileName);
+  if (cached) return cached;
+
+  const templatePath = join(
+    dirname(new URL(import.meta.url).pathname),
+    "../../scripts",
+    fileName
+  );
+
+  const content = await readFile(templatePath, "utf-8");
+  templateCache.set(fileName, content);
+  return content;
+}
+
+/**
+ * Directory holding generated test files inside the project
+ */
+export function getDetoxTestDir(projectPath: string): string {
+  return join(projectPath, ".mcp-detox-tmp");
+}
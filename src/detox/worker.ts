@@ -0,0 +1,544 @@
+/**
+ * Persistent Detox worker
+ * Keeps one `detox test` process alive and feeds it action snippets over a local socket,
+ * avoiding a Jest + Detox cold start for every UI action
+ */
+
+import { execa, type ResultPromise } from "execa";
+import { createServer, type Server, type Socket, type AddressInfo } from "net";
+import { createInterface } from "readline";
+import { writeFile, mkdir, unlink } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import ejs from "ejs";
+import { v4 as uuidv4 } from "uuid";
+
+import { createError } from "../core/errors.js";
+import { logger } from "../core/logger.js";
+import { stateManager } from "../core/state.js";
+import { getConfig } from "../config/load.js";
+import { generateSessionSetupSnippet } from "./actions.js";
+import {
+  loadTemplate,
+  getDetoxTestDir,
+  WORKER_TEMPLATE,
+  DEFAULT_LAUNCH_OPTIONS,
+  type ActionStep,
+} from "./templates.js";
+import type { AppLaunchOptions } from "../mcp/schemas.js";
+import { parseBusyResources, summarizeBusyResources, type DetoxActionResult } from "./output.js";
+
+export type WorkerState = "stopped" | "starting" | "ready" | "failed";
+
+export interface WorkerStatus {
+  state: WorkerState;
+  pid?: number;
+  port?: number;
+  restarts: number;
+  startedAt?: string;
+  lastError?: string;
+}
+
+export interface WorkerActionRequest {
+  actionName: string;
+  snippet: string;
+  steps?: ActionStep[];
+  captureData?: boolean;
+  captureHierarchy?: boolean;
+  timeoutMs: number;
+}
+
+interface PendingAction {
+  actionName: string;
+  resolve: (result: DetoxActionResult) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface WorkerMessage {
+  type: string;
+  id?: string;
+  token?: string;
+  result?: DetoxActionResult;
+}
+
+const WORKER_TEST_PATTERN = "^mcp_worker serve$";
+const SHUTDOWN_GRACE_MS = 5000;
+const OUTPUT_TAIL_CHARS = 4000;
+// The serve test lives as long as the session; Jest needs an explicit (finite) timeout
+const SERVE_TIMEOUT_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class DetoxWorker {
+  private process: ResultPromise | null = null;
+  private server: Server | null = null;
+  private socket: Socket | null = null;
+  private pending: Map<string, PendingAction> = new Map();
+  private state: WorkerState = "stopped";
+  private startPromise: Promise<void> | null = null;
+  private configuration: string | null = null;
+  private launchOptions: AppLaunchOptions | null = null;
+  private device: string | null = null;
+  private stopping = false;
+  private restarts = 0;
+  private port?: number;
+  private startedAt?: string;
+  private lastError?: string;
+  private outputTail = "";
+
+  constructor(private readonly session: string) {}
+
+  /**
+   * Start the worker for a Detox configuration, replacing any running worker.
+   * Launch options apply to the first launch only; restarts reattach to the running app.
+   * A device UDID pins the worker to that simulator instead of the configuration's device.
+   */
+  async start(configuration: string, launchOptions?: AppLaunchOptions, device?: string): Promise<void> {
+    if (this.process || this.startPromise) {
+      await this.stop();
+    }
+
+    this.configuration = configuration;
+    this.launchOptions = launchOptions ?? null;
+    this.device = device ?? null;
+    this.stopping = false;
+    this.restarts = 0;
+    this.lastError = undefined;
+
+    await this.launch();
+  }
+
+  /**
+   * Whether actions should be routed to the worker (running or restarting)
+   */
+  isActive(): boolean {
+    return this.state === "ready" || this.state === "starting";
+  }
+
+  getStatus(): WorkerStatus {
+    return {
+      state: this.state,
+      pid: this.process?.pid,
+      port: this.port,
+      restarts: this.restarts,
+      startedAt: this.startedAt,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Run an action snippet inside the worker.
+   * Throws DETOX_NOT_READY if the worker is unavailable before the action is sent;
+   * once sent, worker failures are reported as a failed action result.
+   */
+  async execute(request: WorkerActionRequest): Promise<DetoxActionResult> {
+    if (this.startPromise) {
+      try {
+        await this.startPromise;
+      } catch {
+        // Reported below as not ready
+      }
+    }
+
+    const socket = this.socket;
+    if (this.state !== "ready" || !socket) {
+      throw createError("DETOX_NOT_READY", "Detox worker is not running", {
+        details: this.lastError,
+      });
+    }
+
+    const id = uuidv4().slice(0, 8);
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        const busyResources = parseBusyResources(this.outputTail);
+        const busy = busyResources.length > 0
+          ? `; app busy with: ${summarizeBusyResources(busyResources)}`
+          : "";
+        resolve({
+          ok: false,
+          elapsedMs: request.timeoutMs,
+          error: {
+            name: "TimeoutError",
+            message: `Action ${request.actionName} timed out after ${request.timeoutMs}ms${busy}`,
+          },
+          busyResources: busyResources.length > 0 ? busyResources : undefined,
+        });
+        // A stuck worker cannot take further actions; replace it
+        this.recycle(`action ${request.actionName} timed out`);
+      }, request.timeoutMs);
+
+      this.pending.set(id, { actionName: request.actionName, resolve, timer });
+
+      socket.write(
+        JSON.stringify({
+          type: "action",
+          id,
+          actionName: request.actionName,
+          snippet: request.snippet,
+          steps: request.steps,
+          captureData: request.captureData ?? false,
+          captureHierarchy: request.captureHierarchy ?? false,
+        }) + "\n"
+      );
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.stopping = true;
+
+    if (this.startPromise) {
+      await this.startPromise.catch(() => undefined);
+    }
+
+    const child = this.process;
+    this.process = null;
+
+    this.failPending("Detox worker stopped");
+
+    if (this.socket) {
+      this.socket.write(JSON.stringify({ type: "shutdown" }) + "\n");
+      this.socket.end();
+      this.socket = null;
+    }
+
+    if (child) {
+      const exited = await Promise.race([
+        child.then(() => true),
+        new Promise<boolean>((resolve) => setTimeout(() => resolve(false), SHUTDOWN_GRACE_MS)),
+      ]);
+      if (!exited) {
+        child.kill("SIGKILL");
+      }
+      logger.info("detox", "Detox worker stopped");
+    }
+
+    this.closeServer();
+    await this.removeWorkerFile();
+
+    this.state = "stopped";
+    this.port = undefined;
+    this.startedAt = undefined;
+  }
+
+  private launch(): Promise<void> {
+    if (!this.startPromise) {
+      this.startPromise = this.spawnWorker().finally(() => {
+        this.startPromise = null;
+      });
+    }
+    return this.startPromise;
+  }
+
+  private async spawnWorker(): Promise<void> {
+    const config = getConfig();
+    const configuration = this.configuration ?? config.detox.configuration;
+    const token = uuidv4();
+
+    this.state = "starting";
+    this.outputTail = "";
+
+    // Anything failing before the worker connects must not leave the session "starting"
+    // with the callback server listening
+    let spawned: ResultPromise | undefined;
+    try {
+      const server = createServer();
+      this.server = server;
+      const port = await listen(server);
+      this.port = port;
+
+      const testDir = getDetoxTestDir(config.projectPath);
+      if (!existsSync(testDir)) {
+        await mkdir(testDir, { recursive: true });
+      }
+
+      const testFile = join(testDir, this.workerFile);
+      const template = await loadTemplate(WORKER_TEMPLATE);
+      await writeFile(
+        testFile,
+        ejs.render(template, {
+          timestamp: new Date().toISOString(),
+          launchApp: stateManager.isDetoxAppForeground(this.session),
+          launchOptions: this.launchOptions ?? DEFAULT_LAUNCH_OPTIONS,
+          setupSnippet: generateSessionSetupSnippet(stateManager.getDetox(this.session)),
+          serveTimeoutMs: SERVE_TIMEOUT_MS,
+        }),
+        "utf-8"
+      );
+      // Restarts must not reapply one-off options such as delete or url
+      this.launchOptions = null;
+
+      const detoxBinary = join(config.projectPath, config.detox.detoxBinary);
+      const args = [
+        "test",
+        "--configuration",
+        configuration,
+        "--testNamePattern",
+        WORKER_TEST_PATTERN,
+        ...(this.device ? ["--device-name", this.device] : []),
+        testFile,
+      ];
+
+      if (config.detox.reuseSession) {
+        args.push("--reuse");
+      }
+
+      logger.info("detox", `Starting Detox worker: ${detoxBinary} ${args.join(" ")}`);
+
+      const child = execa(detoxBinary, args, {
+        cwd: config.projectPath,
+        reject: false,
+        env: {
+          ...process.env,
+          MCP_WORKER_PORT: String(port),
+          MCP_WORKER_TOKEN: token,
+        },
+      });
+      this.process = child;
+      spawned = child;
+
+      child.stdout?.on("data", (chunk: Buffer) => this.recordOutput(chunk.toString()));
+      child.stderr?.on("data", (chunk: Buffer) => this.recordOutput(chunk.toString()));
+      child.on("exit", (code: number | null) => this.handleExit(child, code));
+
+      this.socket = await this.waitForConnection(server, child, token, config.detox.testTimeoutMs);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.state = "failed";
+      this.lastError = message;
+
+      if (spawned && this.process === spawned) {
+        this.process = null;
+        spawned.kill("SIGKILL");
+      }
+      this.closeServer();
+      this.port = undefined;
+
+      throw createError("DETOX_SESSION_FAILED", "Detox worker failed to start", {
+        details: `${message}\n${this.outputTail.slice(-2000)}`,
+      });
+    }
+
+    // The worker is connected; stop accepting further connections
+    this.closeServer();
+
+    this.state = "ready";
+    this.startedAt = new Date().toISOString();
+    logger.info("detox", `Detox worker ready (pid ${spawned.pid})`);
+  }
+
+  /**
+   * Wait for the worker to connect back and authenticate with its token
+   */
+  private waitForConnection(
+    server: Server,
+    child: ResultPromise,
+    token: string,
+    timeoutMs: number
+  ): Promise<Socket> {
+    return new Promise((resolve, reject) => {
+      let settled = false;
+
+      const finish = (error: Error | null, socket?: Socket) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        child.off("exit", onExit);
+        if (error || !socket) {
+          reject(error ?? new Error("Worker connection failed"));
+        } else {
+          resolve(socket);
+        }
+      };
+
+      const timer = setTimeout(
+        () => finish(new Error(`Worker did not connect within ${timeoutMs}ms`)),
+        timeoutMs
+      );
+
+      const onExit = (code: number | null) =>
+        finish(new Error(`Worker exited with code ${code} before connecting`));
+      child.on("exit", onExit);
+
+      server.on("connection", (socket: Socket) => {
+        if (settled) {
+          socket.destroy();
+          return;
+        }
+
+        const lines = createInterface({ input: socket });
+        let authenticated = false;
+
+        lines.on("line", (line) => {
+          const message = parseMessage(line);
+          if (!message) return;
+
+          if (!authenticated) {
+            if (message.type === "hello" && message.token === token) {
+              authenticated = true;
+              socket.on("close", () => this.handleSocketClose(socket));
+              finish(null, socket);
+            } else {
+              socket.destroy();
+            }
+            return;
+          }
+
+          this.handleMessage(message);
+        });
+
+        socket.on("error", (error) => {
+          logger.debug("detox", `Worker socket error: ${error.message}`);
+        });
+      });
+    });
+  }
+
+  private handleMessage(message: WorkerMessage): void {
+    if (message.type !== "result" || !message.id || !message.result) {
+      return;
+    }
+
+    const pending = this.pending.get(message.id);
+    if (!pending) {
+      logger.debug("detox", `Ignoring late worker result ${message.id}`);
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pending.delete(message.id);
+    pending.resolve(message.result);
+  }
+
+  private handleSocketClose(socket: Socket): void {
+    if (this.socket !== socket) return;
+    this.socket = null;
+    this.failPending("Detox worker connection closed");
+  }
+
+  private handleExit(child: ResultPromise, code: number | null): void {
+    // Exits of replaced or deliberately stopped workers are handled elsewhere
+    if (this.process !== child) return;
+
+    this.process = null;
+    this.socket?.destroy();
+    this.socket = null;
+    this.closeServer();
+
+    if (this.state === "starting") {
+      // Reported by waitForConnection
+      return;
+    }
+
+    this.lastError = `Detox worker exited with code ${code}`;
+    this.failPending(this.lastError);
+
+    if (this.stopping) {
+      return;
+    }
+
+    const maxRestarts = getConfig().detox.workerMaxRestarts;
+
+    if (this.restarts >= maxRestarts) {
+      this.state = "failed";
+      logger.error("detox", `${this.lastError}; restart limit (${maxRestarts}) reached, falling back to per-action processes`);
+      return;
+    }
+
+    this.restarts++;
+    logger.warn("detox", `${this.lastError}, restarting (${this.restarts}/${maxRestarts})`, {
+      output: this.outputTail.slice(-1000),
+    });
+
+    this.launch().catch((error) => {
+      logger.error("detox", "Detox worker restart failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  /**
+   * Kill the current worker process; the exit handler restarts it
+   */
+  private recycle(reason: string): void {
+    logger.warn("detox", `Recycling Detox worker: ${reason}`);
+    this.process?.kill("SIGKILL");
+  }
+
+  private failPending(message: string): void {
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.resolve({
+        ok: false,
+        error: {
+          name: "WorkerError",
+          message: `${message} while running ${pending.actionName}`,
+        },
+      });
+      this.pending.delete(id);
+    }
+  }
+
+  private recordOutput(text: string): void {
+    this.outputTail = (this.outputTail + text).slice(-OUTPUT_TAIL_CHARS);
+
+    for (const line of text.split("\n")) {
+      if (line.trim()) {
+        logger.debug("detox", `[worker] ${line}`);
+      }
+    }
+  }
+
+  // One serve test per session so workers on different devices do not share a file
+  private get workerFile(): string {
+    return `mcp-worker-${this.session}.test.js`;
+  }
+
+  private closeServer(): void {
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+    }
+  }
+
+  private async removeWorkerFile(): Promise<void> {
+    try {
+      const testFile = join(getDetoxTestDir(getConfig().projectPath), this.workerFile);
+      if (existsSync(testFile)) {
+        await unlink(testFile);
+      }
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+}
+
+function listen(server: Server): Promise<number> {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      server.off("error", reject);
+      resolve((server.address() as AddressInfo).port);
+    });
+  });
+}
+
+function parseMessage(line: string): WorkerMessage | null {
+  try {
+    const message = JSON.parse(line) as WorkerMessage;
+    return message && typeof message.type === "string" ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+// One worker per Detox session, keyed like the sessions in the state manager
+const workers = new Map<string, DetoxWorker>();
+
+export function getDetoxWorker(session: string): DetoxWorker {
+  let worker = workers.get(session);
+  if (!worker) {
+    worker = new DetoxWorker(session);
+    workers.set(session, worker);
+  }
+  return worker;
+}
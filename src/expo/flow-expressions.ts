@@ -0,0 +1,207 @@
+/**
+ * Flow expressions - variable interpolation and condition evaluation
+ */
+
+import { createError } from "../core/errors.js";
+import type { FlowCondition } from "../mcp/schemas.js";
+
+export interface StepOutcome {
+  success: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+export interface FlowContext {
+  vars: Record<string, unknown>;
+  steps: Record<string, StepOutcome>;
+  last?: StepOutcome;
+  // Step inputs were resolved before the run (translated Maestro flows) and are passed as-is
+  preResolved?: boolean;
+}
+
+// "$${" escapes a literal "${"
+const INTERPOLATION_PATTERN = /\$?\$\{([^}]+)\}/g;
+const WHOLE_INTERPOLATION_PATTERN = /^\$\{([^}]+)\}$/;
+
+// Nested flows resolve their own steps against their own variables when they run
+const NESTED_FLOW_TOOLS = new Set(["flow.run"]);
+
+export function createFlowContext(variables: Record<string, unknown> = {}): FlowContext {
+  return {
+    vars: { ...variables },
+    steps: {},
+  };
+}
+
+/**
+ * Read a dotted path (e.g. "data.text" or "items.0.label") from a value
+ */
+export function resolvePath(value: unknown, path: string): unknown {
+  if (!path) return value;
+
+  let current: unknown = value;
+  for (const segment of path.split(".")) {
+    if (current === null || current === undefined || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Resolve a reference against the flow context.
+ * "vars.x", "steps.<id>.result" and "last.success" are explicit; a bare name is a variable.
+ */
+export function resolveReference(context: FlowContext, reference: string): unknown {
+  const trimmed = reference.trim();
+  const [head, ...rest] = trimmed.split(".");
+  const restPath = rest.join(".");
+
+  switch (head) {
+    case "vars":
+      return resolvePath(context.vars, restPath);
+    case "steps":
+      return resolvePath(context.steps, restPath);
+    case "last":
+      return resolvePath(context.last, restPath);
+    default:
+      return resolvePath(context.vars, trimmed);
+  }
+}
+
+/**
+ * Replace ${ref} placeholders in strings, arrays and objects; "$${" is kept as a literal "${".
+ * A string that is exactly one placeholder keeps the referenced value's type.
+ */
+export function interpolate<T>(value: T, context: FlowContext): T {
+  if (typeof value === "string") {
+    const whole = value.match(WHOLE_INTERPOLATION_PATTERN);
+    if (whole) {
+      return lookupOrThrow(context, whole[1]) as T;
+    }
+    return value.replace(INTERPOLATION_PATTERN, (match: string, ref: string) => {
+      if (match.startsWith("$$")) {
+        return match.slice(1);
+      }
+      const resolved = lookupOrThrow(context, ref);
+      return typeof resolved === "string" ? resolved : JSON.stringify(resolved);
+    }) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolate(item, context)) as T;
+  }
+
+  if (value && typeof value === "object") {
+    const output: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      output[key] = interpolate(item, context);
+    }
+    return output as T;
+  }
+
+  return value;
+}
+
+/**
+ * Interpolate a tool call's input. The steps of a nested flow.run are passed through
+ * untouched; only its other inputs (such as variables) see the outer flow's context.
+ * Pre-resolved inputs are not interpolated again, so an escaped "$${" stays a literal "${"
+ */
+export function interpolateToolInput(
+  tool: string,
+  input: Record<string, unknown>,
+  context: FlowContext
+): Record<string, unknown> {
+  if (context.preResolved) {
+    return input;
+  }
+  if (!NESTED_FLOW_TOOLS.has(tool) || !("steps" in input)) {
+    return interpolate(input, context);
+  }
+
+  const { steps, ...rest } = input;
+  return { ...interpolate(rest, context), steps };
+}
+
+function lookupOrThrow(context: FlowContext, reference: string): unknown {
+  const resolved = resolveReference(context, reference);
+  if (resolved === undefined) {
+    throw createError("FLOW_VARIABLE_NOT_FOUND", `Flow variable not defined: ${reference.trim()}`, {
+      details: `Defined variables: ${Object.keys(context.vars).join(", ") || "(none)"}`,
+    });
+  }
+  return resolved;
+}
+
+/**
+ * Evaluate a path-based condition. Probe conditions (tool) are handled by the runner.
+ */
+export function evaluateValueCondition(condition: FlowCondition, context: FlowContext): boolean {
+  if (!condition.path) {
+    return false;
+  }
+
+  const value = resolveReference(context, condition.path);
+  const expected = interpolateOptional(condition, context);
+
+  if (condition.exists !== undefined) {
+    return (value !== undefined && value !== null) === condition.exists;
+  }
+  if (expected.equals !== undefined) {
+    return valuesEqual(value, expected.equals);
+  }
+  if (expected.notEquals !== undefined) {
+    return !valuesEqual(value, expected.notEquals);
+  }
+  if (expected.contains !== undefined) {
+    return typeof value === "string" && value.includes(expected.contains);
+  }
+  if (expected.matches !== undefined) {
+    return typeof value === "string" && new RegExp(expected.matches).test(value);
+  }
+
+  return Boolean(value);
+}
+
+export function describeCondition(condition: FlowCondition): string {
+  if (condition.tool) {
+    return `${condition.tool} succeeds`;
+  }
+  if (condition.exists !== undefined) {
+    return `${condition.path} ${condition.exists ? "exists" : "does not exist"}`;
+  }
+  if (condition.equals !== undefined) {
+    return `${condition.path} == ${JSON.stringify(condition.equals)}`;
+  }
+  if (condition.notEquals !== undefined) {
+    return `${condition.path} != ${JSON.stringify(condition.notEquals)}`;
+  }
+  if (condition.contains !== undefined) {
+    return `${condition.path} contains ${JSON.stringify(condition.contains)}`;
+  }
+  if (condition.matches !== undefined) {
+    return `${condition.path} matches /${condition.matches}/`;
+  }
+  return `${condition.path} is truthy`;
+}
+
+function interpolateOptional(
+  condition: FlowCondition,
+  context: FlowContext
+): Pick<FlowCondition, "equals" | "notEquals" | "contains" | "matches"> {
+  return {
+    equals: interpolate(condition.equals, context),
+    notEquals: interpolate(condition.notEquals, context),
+    contains: interpolate(condition.contains, context),
+    matches: interpolate(condition.matches, context),
+  };
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (typeof a === "object" || typeof b === "object") {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+}
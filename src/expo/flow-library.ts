@@ -0,0 +1,235 @@
+/**
+ * Saved flow library
+ * Stores named flows as YAML or JSON files under the project (default: .mcp/flows)
+ */
+
+import { readFile, writeFile, mkdir, readdir, unlink } from "fs/promises";
+import { existsSync } from "fs";
+import { join, resolve, extname, basename } from "path";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import type { ZodError } from "zod";
+import { createError } from "../core/errors.js";
+import { logger } from "../core/logger.js";
+import { getConfig, hasConfig } from "../config/load.js";
+import { SavedFlowSchema, FlowNameSchema, type SavedFlow } from "../mcp/schemas.js";
+
+const FLOW_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+export type FlowFileFormat = "yaml" | "json";
+
+export interface SavedFlowSummary {
+  name: string;
+  description?: string;
+  tags: string[];
+  parameters: string[];
+  stepCount: number;
+  path: string;
+  valid: boolean;
+  error?: string;
+}
+
+export interface LoadedFlow {
+  flow: SavedFlow;
+  path: string;
+}
+
+/**
+ * Directory holding saved flows
+ */
+export function getFlowsDir(): string {
+  if (hasConfig()) {
+    const config = getConfig();
+    return config.flowsDir ?? join(config.projectPath, ".mcp", "flows");
+  }
+  return resolve(".mcp", "flows");
+}
+
+function findFlowFile(name: string): string | null {
+  // The name is joined into a path, so it must not be able to leave the flows directory
+  if (!FlowNameSchema.safeParse(name).success) {
+    throw createError("FLOW_INVALID", `Invalid flow name: ${name}`, {
+      details: "Flow names may only contain letters, digits, dash and underscore",
+    });
+  }
+
+  const dir = getFlowsDir();
+  for (const ext of FLOW_EXTENSIONS) {
+    const path = join(dir, `${name}${ext}`);
+    if (existsSync(path)) {
+      return path;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse and validate a flow file
+ */
+async function readFlowFile(path: string): Promise<SavedFlow> {
+  const content = await readFile(path, "utf-8");
+
+  let raw: unknown;
+  try {
+    raw = extname(path) === ".json" ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw createError("FLOW_INVALID", `Could not parse flow file: ${path}`, {
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  // Flows are loaded by file name, so the name field must agree with it
+  const fileName = basename(path, extname(path));
+  if (raw && typeof raw === "object" && !("name" in raw)) {
+    raw = { ...raw, name: fileName };
+  } else if (raw && typeof raw === "object" && (raw as { name?: unknown }).name !== fileName) {
+    throw createError("FLOW_INVALID", `Flow file ${path} is named "${String((raw as { name?: unknown }).name)}"`, {
+      details: `The name field must match the file name "${fileName}"; rename the file or the flow`,
+    });
+  }
+
+  const parsed = SavedFlowSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw createError("FLOW_INVALID", `Flow file failed validation: ${path}`, {
+      details: formatIssues(parsed.error),
+    });
+  }
+
+  return parsed.data;
+}
+
+function formatIssues(error: ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("\n");
+}
+
+export async function loadFlow(name: string): Promise<LoadedFlow> {
+  const path = findFlowFile(name);
+
+  if (!path) {
+    throw createError("FLOW_NOT_FOUND", `Saved flow not found: ${name}`, {
+      details: `Searched in ${getFlowsDir()}`,
+    });
+  }
+
+  return { flow: await readFlowFile(path), path };
+}
+
+export async function listFlows(tag?: string): Promise<SavedFlowSummary[]> {
+  const dir = getFlowsDir();
+
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const files = (await readdir(dir))
+    .filter((file) => FLOW_EXTENSIONS.includes(extname(file)))
+    .sort();
+
+  const summaries: SavedFlowSummary[] = [];
+
+  for (const file of files) {
+    const path = join(dir, file);
+    try {
+      const flow = await readFlowFile(path);
+      if (tag && !flow.tags.includes(tag)) {
+        continue;
+      }
+      summaries.push({
+        name: flow.name,
+        description: flow.description,
+        tags: flow.tags,
+        parameters: Object.keys(flow.parameters),
+        stepCount: flow.steps.length,
+        path,
+        valid: true,
+      });
+    } catch (error) {
+      // Invalid files are still listed so they can be fixed
+      if (tag) continue;
+      summaries.push({
+        name: basename(file, extname(file)),
+        tags: [],
+        parameters: [],
+        stepCount: 0,
+        path,
+        valid: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return summaries;
+}
+
+export async function saveFlow(
+  flow: SavedFlow,
+  options: { format?: FlowFileFormat; overwrite?: boolean } = {}
+): Promise<{ name: string; path: string }> {
+  const { format = "yaml", overwrite = false } = options;
+
+  const parsed = SavedFlowSchema.safeParse(flow);
+  if (!parsed.success) {
+    throw createError("FLOW_INVALID", `Flow "${flow.name}" failed validation`, {
+      details: formatIssues(parsed.error),
+    });
+  }
+
+  const existing = findFlowFile(flow.name);
+  if (existing && !overwrite) {
+    throw createError("FLOW_EXISTS", `Flow "${flow.name}" already exists`, {
+      details: `Existing file: ${existing}`,
+    });
+  }
+
+  const dir = getFlowsDir();
+  await mkdir(dir, { recursive: true });
+
+  const { name, description, tags, parameters, variables, stopOnError, steps } = parsed.data;
+  const body = { name, description, tags, parameters, variables, stopOnError, steps };
+
+  const path = join(dir, `${name}.${format}`);
+  const content = format === "json" ? JSON.stringify(body, null, 2) + "\n" : stringifyYaml(body);
+
+  await writeFile(path, content, "utf-8");
+
+  // Replace a copy stored in the other format
+  if (existing && existing !== path) {
+    await unlink(existing);
+  }
+
+  logger.info("expo", `Saved flow "${name}" to ${path}`);
+
+  return { name, path };
+}
+
+/**
+ * Build the variables for a run from parameter defaults and caller arguments
+ */
+export function resolveFlowVariables(
+  flow: SavedFlow,
+  args: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const variables: Record<string, unknown> = { ...(flow.variables ?? {}) };
+
+  for (const [paramName, param] of Object.entries(flow.parameters)) {
+    if (args[paramName] !== undefined) {
+      variables[paramName] = args[paramName];
+    } else if (param.default !== undefined) {
+      variables[paramName] = param.default;
+    } else if (param.required) {
+      throw createError("FLOW_VARIABLE_NOT_FOUND", `Missing required parameter "${paramName}" for flow "${flow.name}"`, {
+        details: param.description,
+      });
+    }
+  }
+
+  for (const [argName, value] of Object.entries(args)) {
+    if (!(argName in flow.parameters)) {
+      logger.warn("expo", `Argument "${argName}" is not a declared parameter of flow "${flow.name}"`);
+      variables[argName] = value;
+    }
+  }
+
+  return variables;
+}
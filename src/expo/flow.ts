@@ -4,7 +4,16 @@
 
 import { logger } from "../core/logger.js";
 import { takeScreenshot } from "../simulator/screenshots.js";
-import type { FlowStep } from "../mcp/schemas.js";
+import type { FlowStep, FlowCondition } from "../mcp/schemas.js";
+import {
+  createFlowContext,
+  describeCondition,
+  evaluateValueCondition,
+  interpolateToolInput,
+  resolvePath,
+  type FlowContext,
+  type StepOutcome,
+} from "./flow-expressions.js";
 
 export interface FlowResult {
   success: boolean;
@@ -14,12 +23,17 @@ export interface FlowResult {
   results: StepResult[];
   totalElapsedMs: number;
   evidence?: string[];
+  variables?: Record<string, unknown>;
 }
 
 export interface StepResult {
   step: number;
+  id?: string;
   tool: string;
   success: boolean;
+  skipped?: boolean;
+  attempts?: number;
+  iterations?: number;
   elapsedMs: number;
   result?: unknown;
   error?: string;
@@ -36,12 +50,17 @@ export async function runFlow(
   options: {
     stopOnError?: boolean;
     screenshotOnError?: boolean;
+    variables?: Record<string, unknown>;
+    // Set false when the caller already resolved ${var} references in the step inputs
+    interpolate?: boolean;
   } = {}
 ): Promise<FlowResult> {
-  const { stopOnError = true, screenshotOnError = true } = options;
+  const { stopOnError = true, screenshotOnError = true, interpolate = true } = options;
   const startTime = Date.now();
   const results: StepResult[] = [];
   const evidence: string[] = [];
+  const context = createFlowContext(options.variables);
+  context.preResolved = !interpolate;
 
   logger.info("expo", `Starting flow with ${steps.length} steps`);
 
@@ -55,24 +74,25 @@ export async function runFlow(
     });
 
     try {
-      const { success, result, error } = await executor(
-        step.tool,
-        step.input as Record<string, unknown>
-      );
-
-      const stepResult: StepResult = {
-        step: stepNumber,
-        tool: step.tool,
-        success,
-        elapsedMs: Date.now() - stepStart,
-        result,
-        error,
-      };
+      if (!(await shouldRunStep(step, context, executor))) {
+        logger.info("expo", `Step ${stepNumber} skipped by condition`);
+        results.push({
+          step: stepNumber,
+          id: step.id,
+          tool: step.tool,
+          success: true,
+          skipped: true,
+          elapsedMs: Date.now() - stepStart,
+        });
+        continue;
+      }
 
+      const stepResult = await executeStep(step, stepNumber, context, executor);
+      stepResult.elapsedMs = Date.now() - stepStart;
       results.push(stepResult);
 
-      if (!success) {
-        logger.error("expo", `Step ${stepNumber} failed: ${error}`);
+      if (!stepResult.success) {
+        logger.error("expo", `Step ${stepNumber} failed: ${stepResult.error}`);
 
         if (screenshotOnError) {
           try {
@@ -92,6 +112,7 @@ export async function runFlow(
             results,
             totalElapsedMs: Date.now() - startTime,
             evidence: evidence.length > 0 ? evidence : undefined,
+            variables: context.vars,
           };
         }
       } else {
@@ -100,6 +121,7 @@ export async function runFlow(
     } catch (err) {
       const stepResult: StepResult = {
         step: stepNumber,
+        id: step.id,
         tool: step.tool,
         success: false,
         elapsedMs: Date.now() - stepStart,
@@ -107,6 +129,7 @@ export async function runFlow(
       };
 
       results.push(stepResult);
+      recordOutcome(step, context, { success: false, error: stepResult.error });
 
       if (screenshotOnError) {
         try {
@@ -126,6 +149,7 @@ export async function runFlow(
           results,
           totalElapsedMs: Date.now() - startTime,
           evidence: evidence.length > 0 ? evidence : undefined,
+          variables: context.vars,
         };
       }
     }
@@ -147,5 +171,170 @@ export async function runFlow(
     results,
     totalElapsedMs: Date.now() - startTime,
     evidence: evidence.length > 0 ? evidence : undefined,
+    variables: context.vars,
   };
 }
+
+/**
+ * Apply the step's if/unless conditions
+ */
+async function shouldRunStep(
+  step: FlowStep,
+  context: FlowContext,
+  executor: ToolExecutor
+): Promise<boolean> {
+  if (step.if && !(await evaluateCondition(step.if, context, executor))) {
+    return false;
+  }
+  if (step.unless && (await evaluateCondition(step.unless, context, executor))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Run a single step, honouring repeat, retry, assertions and captures
+ */
+async function executeStep(
+  step: FlowStep,
+  stepNumber: number,
+  context: FlowContext,
+  executor: ToolExecutor
+): Promise<StepResult> {
+  const maxIterations = step.repeat?.times ?? 1;
+  let outcome: StepOutcome = { success: false };
+  let attempts = 0;
+  let iterations = 0;
+  let untilMet = false;
+
+  while (iterations < maxIterations) {
+    iterations++;
+    const attempt = await executeWithRetry(step, context, executor);
+    outcome = attempt.outcome;
+    attempts += attempt.attempts;
+
+    if (!outcome.success) {
+      break;
+    }
+
+    if (step.repeat?.until) {
+      if (await evaluateCondition(step.repeat.until, context, executor)) {
+        untilMet = true;
+        break;
+      }
+      logger.debug("expo", `Step ${stepNumber} iteration ${iterations}: until condition not met`);
+    }
+
+    if (iterations < maxIterations) {
+      await delay(step.repeat?.delayMs ?? 0);
+    }
+  }
+
+  if (outcome.success && step.repeat?.until && !untilMet) {
+    outcome = {
+      ...outcome,
+      success: false,
+      error: `Condition not met after ${iterations} iterations: ${describeCondition(step.repeat.until)}`,
+    };
+  }
+
+  if (outcome.success && step.capture) {
+    for (const [name, path] of Object.entries(step.capture)) {
+      const value = resolvePath(outcome.result, path);
+      if (value === undefined) {
+        outcome = {
+          ...outcome,
+          success: false,
+          error: `Could not capture variable "${name}": no value at "${path}"`,
+        };
+        break;
+      }
+      context.vars[name] = value;
+    }
+  }
+
+  recordOutcome(step, context, outcome);
+
+  return {
+    step: stepNumber,
+    id: step.id,
+    tool: step.tool,
+    success: outcome.success,
+    attempts: step.retry ? attempts : undefined,
+    iterations: step.repeat ? iterations : undefined,
+    elapsedMs: 0,
+    result: outcome.result,
+    error: outcome.error,
+  };
+}
+
+/**
+ * Execute the tool call plus assertions, retrying on failure
+ */
+async function executeWithRetry(
+  step: FlowStep,
+  context: FlowContext,
+  executor: ToolExecutor
+): Promise<{ outcome: StepOutcome; attempts: number }> {
+  const maxAttempts = step.retry?.attempts ?? 1;
+  let outcome: StepOutcome = { success: false };
+  let attempt = 0;
+
+  while (attempt < maxAttempts) {
+    attempt++;
+    const input = interpolateToolInput(step.tool, step.input, context);
+    outcome = await executor(step.tool, input);
+    context.last = outcome;
+
+    if (outcome.success && step.assert) {
+      for (const condition of step.assert) {
+        if (!(await evaluateCondition(condition, context, executor))) {
+          outcome = {
+            ...outcome,
+            success: false,
+            error: `Assertion failed: ${describeCondition(condition)}`,
+          };
+          context.last = outcome;
+          break;
+        }
+      }
+    }
+
+    if (outcome.success) {
+      break;
+    }
+
+    if (attempt < maxAttempts) {
+      logger.info("expo", `${step.tool} failed (attempt ${attempt}/${maxAttempts}), retrying`, {
+        error: outcome.error,
+      });
+      await delay(step.retry?.delayMs ?? 0);
+    }
+  }
+
+  return { outcome, attempts: attempt };
+}
+
+async function evaluateCondition(
+  condition: FlowCondition,
+  context: FlowContext,
+  executor: ToolExecutor
+): Promise<boolean> {
+  if (condition.tool) {
+    const input = interpolateToolInput(condition.tool, condition.input ?? {}, context);
+    const probe = await executor(condition.tool, input);
+    return probe.success;
+  }
+  return evaluateValueCondition(condition, context);
+}
+
+function recordOutcome(step: FlowStep, context: FlowContext, outcome: StepOutcome): void {
+  context.last = outcome;
+  if (step.id) {
+    context.steps[step.id] = outcome;
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
@@ -0,0 +1,31 @@
+/**
+ * Maestro Compatibility Module
+ *
+ * Runs existing Maestro YAML flows by translating their commands
+ * into Detox actions executed through the flow runner.
+ */
+
+// Export types
+export type {
+  MaestroHeader,
+  MaestroCommand,
+  MaestroFlow,
+  TranslatedCommand,
+  MaestroCommandStatus,
+  MaestroCommandResult,
+  MaestroRunResult,
+} from "./types.js";
+
+// Export parser functions
+export { parseMaestroFile, parseMaestroContent } from "./parser.js";
+
+// Export translator functions
+export { translateMaestroFlow, MAESTRO_DETOX_TOOL } from "./translator.js";
+
+// Export runner functions
+export {
+  runMaestroFlow,
+  previewMaestroFlow,
+  createMaestroExecutor,
+  type MaestroRunOptions,
+} from "./runner.js";
@@ -0,0 +1,84 @@
+/**
+ * Maestro Flow Parser
+ * Parses Maestro YAML flow files into a header and a command list
+ */
+
+import { readFile } from "fs/promises";
+import { parseAllDocuments } from "yaml";
+import { createError } from "../core/errors.js";
+import type { MaestroCommand, MaestroFlow, MaestroHeader } from "./types.js";
+
+/**
+ * Parse a Maestro flow file
+ */
+export async function parseMaestroFile(filePath: string): Promise<MaestroFlow> {
+  try {
+    const content = await readFile(filePath, "utf-8");
+    return parseMaestroContent(content);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("ENOENT")) {
+      throw createError("MAESTRO_PARSE_FAILED", `Maestro flow file not found: ${filePath}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse Maestro flow YAML content
+ */
+export function parseMaestroContent(content: string): MaestroFlow {
+  const documents = parseAllDocuments(content);
+
+  if (!Array.isArray(documents)) {
+    throw createError("MAESTRO_PARSE_FAILED", "Maestro flow is empty");
+  }
+
+  const errors = documents.flatMap((doc) => doc.errors);
+  if (errors.length > 0) {
+    throw createError("MAESTRO_PARSE_FAILED", "Invalid YAML in Maestro flow", {
+      details: errors.map((e) => e.message).join("\n"),
+    });
+  }
+
+  const values = documents.map((doc) => doc.toJS() as unknown);
+
+  let header: MaestroHeader = {};
+  let commandList: unknown;
+
+  if (values.length >= 2) {
+    header = (values[0] ?? {}) as MaestroHeader;
+    commandList = values[1];
+  } else {
+    commandList = values[0];
+  }
+
+  if (!Array.isArray(commandList)) {
+    throw createError("MAESTRO_PARSE_FAILED", "Maestro flow must contain a list of commands", {
+      details: "Expected the commands as a YAML list, optionally preceded by a header document and ---",
+    });
+  }
+
+  const commands = commandList.map((entry, index) => normalizeCommand(entry, index));
+
+  return { header, commands };
+}
+
+/**
+ * Normalize "- back" and "- tapOn: ..." entries into name/args pairs
+ */
+function normalizeCommand(entry: unknown, index: number): MaestroCommand {
+  if (typeof entry === "string") {
+    return { index, name: entry, args: undefined };
+  }
+
+  if (entry && typeof entry === "object" && !Array.isArray(entry)) {
+    const keys = Object.keys(entry);
+    if (keys.length === 1) {
+      return { index, name: keys[0], args: (entry as Record<string, unknown>)[keys[0]] };
+    }
+  }
+
+  throw createError("MAESTRO_PARSE_FAILED", `Invalid Maestro command at position ${index + 1}`, {
+    details: `Each command must be a name or a single-key mapping, got: ${JSON.stringify(entry)}`,
+  });
+}
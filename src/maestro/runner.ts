@@ -0,0 +1,163 @@
+/**
+ * Maestro Flow Runner
+ * Executes translated Maestro commands through the flow runner
+ */
+
+import { runFlow, type ToolExecutor } from "../expo/flow.js";
+import { runDetoxAction } from "../detox/runner.js";
+import { logger } from "../core/logger.js";
+import type { FlowStep } from "../mcp/schemas.js";
+import { translateMaestroFlow, MAESTRO_DETOX_TOOL } from "./translator.js";
+import type {
+  MaestroFlow,
+  MaestroCommandResult,
+  MaestroRunResult,
+  TranslatedCommand,
+} from "./types.js";
+
+export interface MaestroRunOptions {
+  env?: Record<string, unknown>;
+  stopOnError?: boolean;
+  skipUnsupported?: boolean;
+}
+
+/**
+ * Wrap a tool executor so it can also run generated Detox snippets
+ */
+export function createMaestroExecutor(executor: ToolExecutor): ToolExecutor {
+  return async (toolName, input) => {
+    if (toolName !== MAESTRO_DETOX_TOOL) {
+      return executor(toolName, input);
+    }
+
+    const result = await runDetoxAction({
+      actionName: String(input.actionName),
+      actionSnippet: String(input.snippet),
+      timeoutMs: typeof input.timeoutMs === "number" ? input.timeoutMs : undefined,
+    });
+
+    return { success: result.success, result, error: result.error?.message };
+  };
+}
+
+/**
+ * Run a parsed Maestro flow.
+ * Unsupported commands block the run unless skipUnsupported is set; either way they are reported.
+ */
+export async function runMaestroFlow(
+  flow: MaestroFlow,
+  executor: ToolExecutor,
+  options: MaestroRunOptions = {}
+): Promise<MaestroRunResult> {
+  const { env, stopOnError = true, skipUnsupported = false } = options;
+  const startTime = Date.now();
+  const translated = translateMaestroFlow(flow, env);
+  const unsupported = translated.filter((t) => !t.supported);
+
+  const commandResults: MaestroCommandResult[] = translated.map((t) => ({
+    index: t.command.index,
+    command: t.command.name,
+    status: t.supported ? "not_run" : "unsupported",
+    reason: t.supported ? undefined : t.reason,
+    note: t.supported ? t.note : undefined,
+  }));
+
+  if (unsupported.length > 0 && !skipUnsupported) {
+    logger.warn("expo", `Maestro flow has ${unsupported.length} unsupported command(s), not running`);
+    return summarize(flow, commandResults, true, Date.now() - startTime);
+  }
+
+  const steps: FlowStep[] = [];
+  const stepCommandIndex: number[] = [];
+  const noopCommandIndex: number[] = [];
+
+  for (const t of translated) {
+    if (!t.supported) continue;
+    if (!t.step) {
+      noopCommandIndex.push(t.command.index);
+      continue;
+    }
+    steps.push(t.step);
+    stepCommandIndex.push(t.command.index);
+  }
+
+  logger.info("expo", `Running Maestro flow with ${steps.length} executable commands`, {
+    appId: flow.header.appId,
+    unsupported: unsupported.length,
+  });
+
+  // translateMaestroFlow already resolved the env references
+  const flowResult = await runFlow(steps, createMaestroExecutor(executor), { stopOnError, interpolate: false });
+
+  for (const stepResult of flowResult.results) {
+    const commandIndex = stepCommandIndex[stepResult.step - 1];
+    const commandResult = commandResults[commandIndex];
+    commandResult.status = stepResult.success ? "pass" : "fail";
+    commandResult.elapsedMs = stepResult.elapsedMs;
+    commandResult.error = stepResult.error;
+  }
+
+  // Commands that translate to no action pass once the flow reaches them
+  const stoppedAt = !flowResult.success && stopOnError && flowResult.failedStep !== undefined
+    ? stepCommandIndex[flowResult.failedStep - 1]
+    : undefined;
+
+  for (const index of noopCommandIndex) {
+    if (stoppedAt === undefined || index < stoppedAt) {
+      commandResults[index].status = "pass";
+    }
+  }
+
+  return summarize(flow, commandResults, false, Date.now() - startTime, flowResult.evidence);
+}
+
+/**
+ * Translate without executing, for previewing what would run
+ */
+export function previewMaestroFlow(
+  flow: MaestroFlow,
+  env?: Record<string, unknown>
+): Array<{ index: number; command: string; supported: boolean; tool?: string; snippet?: string; reason?: string; note?: string }> {
+  return translateMaestroFlow(flow, env).map((t: TranslatedCommand) => {
+    if (!t.supported) {
+      return { index: t.command.index, command: t.command.name, supported: false, reason: t.reason };
+    }
+    return {
+      index: t.command.index,
+      command: t.command.name,
+      supported: true,
+      tool: t.step?.tool,
+      snippet: typeof t.step?.input.snippet === "string" ? t.step.input.snippet : undefined,
+      note: t.note,
+    };
+  });
+}
+
+function summarize(
+  flow: MaestroFlow,
+  commands: MaestroCommandResult[],
+  blockedByUnsupported: boolean,
+  totalElapsedMs: number,
+  evidence?: string[]
+): MaestroRunResult {
+  const count = (status: MaestroCommandResult["status"]) =>
+    commands.filter((c) => c.status === status).length;
+
+  const failed = count("fail");
+  const unsupported = count("unsupported");
+
+  return {
+    success: !blockedByUnsupported && failed === 0 && count("not_run") === 0,
+    appId: flow.header.appId,
+    name: flow.header.name,
+    totalCommands: commands.length,
+    passed: count("pass"),
+    failed,
+    unsupported,
+    notRun: count("not_run"),
+    blockedByUnsupported,
+    commands,
+    totalElapsedMs,
+    evidence,
+  };
+}
@@ -0,0 +1,291 @@
+/**
+ * Maestro Command Translator
+ * Maps Maestro commands onto the Detox snippet generators and flow steps
+ */
+
+import type { Selector, FlowStep, Direction, AppLaunchOptions } from "../mcp/schemas.js";
+import {
+  generateTapSnippet,
+  generateLongPressSnippet,
+  generateSwipeSnippet,
+  generateScrollUntilVisibleSnippet,
+  generateTypeSnippet,
+  generatePressKeySnippet,
+  generateWaitForSnippet,
+  generateAssertVisibleSnippet,
+  generateLaunchAppSnippet,
+  generateTerminateAppSnippet,
+  type KeyType,
+} from "../detox/actions.js";
+import { interpolate, createFlowContext } from "../expo/flow-expressions.js";
+import type { MaestroCommand, MaestroFlow, TranslatedCommand } from "./types.js";
+
+/**
+ * Internal tool name for flow steps that run a generated Detox snippet.
+ * Only the Maestro executor handles it; it is not registered as an MCP tool.
+ */
+export const MAESTRO_DETOX_TOOL = "maestro.detox_action";
+
+// Options that only tune Maestro's own waiting/reporting and can be dropped safely
+const IGNORED_OPTIONS = ["label", "retryTapIfNoChange", "waitToSettleTimeoutMs", "timeout", "speed"];
+
+const KEY_MAP: Record<string, KeyType> = {
+  enter: "return",
+  backspace: "backspace",
+  delete: "delete",
+  tab: "next",
+};
+
+class UnsupportedCommand extends Error {}
+
+interface TranslationState {
+  lastSelector?: Selector;
+}
+
+/**
+ * Translate all commands of a Maestro flow, resolving ${VAR} references from env
+ */
+export function translateMaestroFlow(
+  flow: MaestroFlow,
+  env: Record<string, unknown> = {}
+): TranslatedCommand[] {
+  const context = createFlowContext({ ...(flow.header.env ?? {}), ...env });
+  const state: TranslationState = {};
+
+  return flow.commands.map((command) => {
+    try {
+      const resolved: MaestroCommand = { ...command, args: interpolate(command.args, context) };
+      return translateCommand(resolved, state);
+    } catch (error) {
+      return {
+        command,
+        supported: false,
+        reason: error instanceof Error ? error.message : String(error),
+      };
+    }
+  });
+}
+
+function translateCommand(command: MaestroCommand, state: TranslationState): TranslatedCommand {
+  const { name, args } = command;
+
+  switch (name) {
+    case "launchApp": {
+      const options =
+        typeof args === "string"
+          ? { appId: args }
+          : asOptions(args, ["appId", "stopApp", "clearState", "arguments"]);
+      const launchOptions: AppLaunchOptions = { newInstance: options.stopApp !== false };
+      if (options.clearState === true) {
+        launchOptions.delete = true;
+      }
+      if (options.arguments && typeof options.arguments === "object") {
+        launchOptions.launchArgs = options.arguments as Record<string, unknown>;
+      }
+      return detoxStep(command, generateLaunchAppSnippet(launchOptions));
+    }
+
+    case "stopApp":
+      return detoxStep(command, generateTerminateAppSnippet());
+
+    case "tapOn": {
+      // Forget the previous field so a failed translation never types into it
+      state.lastSelector = undefined;
+      const selector = toSelector(args);
+      state.lastSelector = selector;
+      return detoxStep(command, generateTapSnippet({ selector }));
+    }
+
+    case "longPressOn": {
+      state.lastSelector = undefined;
+      const selector = toSelector(args);
+      state.lastSelector = selector;
+      return detoxStep(command, generateLongPressSnippet({ selector }));
+    }
+
+    case "inputText": {
+      const selector = requireFocusedElement(state, name);
+      const text = asScalarText(args, name);
+      return detoxStep(command, generateTypeSnippet({ selector, text, replace: false }));
+    }
+
+    case "eraseText": {
+      if (args !== undefined && args !== null) {
+        throw new UnsupportedCommand("eraseText with a character count is not supported; only clearing the whole field is");
+      }
+      const selector = requireFocusedElement(state, name);
+      return detoxStep(command, generateTypeSnippet({ selector, text: "", replace: true }));
+    }
+
+    case "assertVisible":
+      return detoxStep(command, generateAssertVisibleSnippet({ selector: toSelector(args) }));
+
+    case "assertNotVisible":
+      return detoxStep(command, generateAssertVisibleSnippet({ selector: toSelector(args), visible: false }));
+
+    case "extendedWaitUntil": {
+      const options = asOptions(args, ["visible", "notVisible", "timeout"]);
+      if (options.notVisible !== undefined) {
+        throw new UnsupportedCommand("extendedWaitUntil.notVisible has no Detox waitFor equivalent here");
+      }
+      if (options.visible === undefined) {
+        throw new UnsupportedCommand("extendedWaitUntil requires a visible selector");
+      }
+      const timeout = typeof options.timeout === "number" ? options.timeout : undefined;
+      return detoxStep(
+        command,
+        generateWaitForSnippet({ selector: toSelector(options.visible), visible: true, timeout }),
+        timeout !== undefined ? timeout + 5000 : undefined
+      );
+    }
+
+    case "scrollUntilVisible": {
+      const options = asOptions(args, ["element", "direction", "visibilityPercentage", "centerElement"]);
+      if (options.visibilityPercentage !== undefined || options.centerElement !== undefined) {
+        throw new UnsupportedCommand("scrollUntilVisible options visibilityPercentage/centerElement are not supported");
+      }
+      const selector = toSelector(options.element);
+      const direction = toDirection(options.direction ?? "DOWN");
+      return detoxStep(command, generateScrollUntilVisibleSnippet({ selector, direction }));
+    }
+
+    case "swipe": {
+      const options = asOptions(args, ["from", "direction", "duration"]);
+      if (options.from === undefined) {
+        throw new UnsupportedCommand("Detox swipes act on an element; add a 'from' selector to the swipe");
+      }
+      const selector = toSelector(options.from);
+      const direction = toDirection(options.direction);
+      return detoxStep(command, generateSwipeSnippet({ selector, direction }));
+    }
+
+    case "pressKey": {
+      const key = KEY_MAP[asScalarText(args, name).toLowerCase()];
+      if (!key) {
+        throw new UnsupportedCommand(`pressKey "${String(args)}" is not supported (Enter, Backspace, Delete and Tab are)`);
+      }
+      return detoxStep(command, generatePressKeySnippet(key, state.lastSelector));
+    }
+
+    case "hideKeyboard": {
+      return detoxStep(command, generatePressKeySnippet("dismiss", state.lastSelector));
+    }
+
+    case "takeScreenshot": {
+      const screenshotName = typeof args === "string" ? args : asScalarText(asOptions(args, ["path"]).path, name);
+      return toolStep(command, "simulator.screenshot", { name: screenshotName });
+    }
+
+    case "waitForAnimationToEnd":
+      return {
+        command,
+        supported: true,
+        note: "Detox synchronization already waits for animations to finish",
+      };
+
+    default:
+      throw new UnsupportedCommand(`Maestro command "${name}" has no Detox equivalent in this server`);
+  }
+}
+
+function detoxStep(command: MaestroCommand, snippet: string, timeoutMs?: number): TranslatedCommand {
+  const input: Record<string, unknown> = {
+    actionName: `maestro:${command.index + 1}:${command.name}`,
+    snippet,
+  };
+  if (timeoutMs !== undefined) {
+    input.timeoutMs = timeoutMs;
+  }
+  return toolStep(command, MAESTRO_DETOX_TOOL, input);
+}
+
+function toolStep(command: MaestroCommand, tool: string, input: Record<string, unknown>): TranslatedCommand {
+  const label = command.args && typeof command.args === "object"
+    ? (command.args as Record<string, unknown>).label
+    : undefined;
+  const step: FlowStep = {
+    tool,
+    input,
+    description: typeof label === "string" ? label : `maestro ${command.name}`,
+  };
+  return { command, supported: true, step };
+}
+
+/**
+ * Convert a Maestro element selector ("Text", { id }, { text }, { index }) to an MCP selector
+ */
+function toSelector(value: unknown): Selector {
+  if (typeof value === "string" || typeof value === "number") {
+    return { by: "text", value: String(value) };
+  }
+
+  const options = asOptions(value, ["id", "text", "index"]);
+  const index = options.index !== undefined ? Number(options.index) : undefined;
+
+  if (index !== undefined && (!Number.isInteger(index) || index < 0)) {
+    throw new UnsupportedCommand(`Selector index must be a non-negative integer: ${String(options.index)}`);
+  }
+  if (options.id !== undefined && options.text !== undefined) {
+    return {
+      by: "id",
+      value: String(options.id),
+      and: [{ by: "text", value: String(options.text) }],
+      index,
+    };
+  }
+  if (options.id !== undefined) {
+    return { by: "id", value: String(options.id), index };
+  }
+  if (options.text !== undefined) {
+    return { by: "text", value: String(options.text), index };
+  }
+
+  throw new UnsupportedCommand(`Selector requires id or text: ${JSON.stringify(value)}`);
+}
+
+function toDirection(value: unknown): Direction {
+  const direction = String(value).toLowerCase();
+  if (direction === "up" || direction === "down" || direction === "left" || direction === "right") {
+    return direction;
+  }
+  throw new UnsupportedCommand(`Unsupported direction: ${String(value)}`);
+}
+
+/**
+ * Read an options mapping, rejecting keys we cannot honour
+ */
+function asOptions(value: unknown, allowed: string[]): Record<string, unknown> {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new UnsupportedCommand(`Expected options mapping, got: ${JSON.stringify(value)}`);
+  }
+
+  const record = value as Record<string, unknown>;
+  const unknownKeys = Object.keys(record).filter(
+    (key) => !allowed.includes(key) && !IGNORED_OPTIONS.includes(key)
+  );
+
+  if (unknownKeys.length > 0) {
+    throw new UnsupportedCommand(`Unsupported option(s): ${unknownKeys.join(", ")}`);
+  }
+
+  return record;
+}
+
+function asScalarText(value: unknown, commandName: string): string {
+  if (typeof value === "string" || typeof value === "number") {
+    return String(value);
+  }
+  throw new UnsupportedCommand(`${commandName} expects a text value`);
+}
+
+function requireFocusedElement(state: TranslationState, commandName: string): Selector {
+  if (!state.lastSelector) {
+    throw new UnsupportedCommand(
+      `${commandName} needs a focused field; Detox types into an element, so tap the field first with tapOn`
+    );
+  }
+  return state.lastSelector;
+}
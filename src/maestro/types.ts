@@ -0,0 +1,81 @@
+/**
+ * Type definitions for Maestro flow compatibility
+ */
+
+import type { FlowStep } from "../mcp/schemas.js";
+
+/**
+ * Header document of a Maestro flow (before the --- separator)
+ */
+export interface MaestroHeader {
+  appId?: string;
+  name?: string;
+  tags?: string[];
+  env?: Record<string, unknown>;
+}
+
+/**
+ * A single command from the Maestro command list
+ */
+export interface MaestroCommand {
+  index: number;           // Position in the command list (0-based)
+  name: string;            // Command name (e.g., "tapOn")
+  args: unknown;           // Command argument (string, object or undefined)
+}
+
+/**
+ * A parsed Maestro flow file
+ */
+export interface MaestroFlow {
+  header: MaestroHeader;
+  commands: MaestroCommand[];
+}
+
+/**
+ * Result of translating one Maestro command
+ */
+export type TranslatedCommand =
+  | {
+      command: MaestroCommand;
+      supported: true;
+      step?: FlowStep;       // Omitted for commands that need no action (e.g., waitForAnimationToEnd)
+      note?: string;
+    }
+  | {
+      command: MaestroCommand;
+      supported: false;
+      reason: string;
+    };
+
+export type MaestroCommandStatus = "pass" | "fail" | "unsupported" | "not_run";
+
+/**
+ * Per-command outcome of a Maestro run
+ */
+export interface MaestroCommandResult {
+  index: number;
+  command: string;
+  status: MaestroCommandStatus;
+  elapsedMs?: number;
+  error?: string;
+  reason?: string;
+  note?: string;
+}
+
+/**
+ * Outcome of running a Maestro flow
+ */
+export interface MaestroRunResult {
+  success: boolean;
+  appId?: string;
+  name?: string;
+  totalCommands: number;
+  passed: number;
+  failed: number;
+  unsupported: number;
+  notRun: number;
+  blockedByUnsupported: boolean;
+  commands: MaestroCommandResult[];
+  totalElapsedMs: number;
+  evidence?: string[];
+}
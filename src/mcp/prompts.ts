@@ -145,6 +145,7 @@ ${args.flowSteps}
    - Report which step failed
    - Include the error message
    - Provide the auto-captured screenshot
+   - Check \`detox.flakiness { status: "flaky" }\` to tell an unstable selector from a real regression
 
 4. If all steps pass:
    - Report success
@@ -156,8 +157,17 @@ ${args.flowSteps}
 - \`ui.type\`: Type text into an input field
 - \`ui.swipe\`: Swipe in a direction
 - \`ui.scroll\`: Scroll in a direction
+- \`ui.scroll_until_visible\` / \`ui.scroll_to_edge\`: Bring an off-screen element into view
+- \`ui.pinch\`, \`ui.multi_tap\`, \`ui.tap_at\`, \`ui.drag\`: Gestures for maps, carousels and reorderable lists
 - \`ui.wait_for\`: Wait for element visibility
 - \`ui.assert_text\`: Assert element contains text
+- \`ui.assert\`: Assert visibility, existence, label, value, toggle, slider position or focus (\`not: true\` to negate)
+- \`ui.get_text\` / \`ui.get_attributes\`: Read what an element currently shows
+- \`ui.batch\`: Run several of the above in one Detox test (faster for fixed sequences)
+- \`ui.run_snippet\`: Run a Detox call no other tool covers (element/by/expect/waitFor/device only)
+- \`ui.hierarchy\`: Dump the view hierarchy to find testIDs, labels and texts when a selector does not match
+- \`app.launch\` / \`app.terminate\` / \`device.set_orientation\`: Relaunch the app (launchArgs, permissions, deep link url) or change device state
+- \`app.install\` / \`app.list\` / \`app.info\`: Install a build, check installed versions or find the app's data container; \`app.launch { bundleId }\` starts any installed app without Detox
 `,
   },
   {
@@ -267,6 +277,7 @@ Session is ready when:
 - Simulator won't boot: Check Xcode and Simulator.app
 - Expo fails to start: Check project path in config
 - Detox not ready: Ensure app is installed on simulator
+- Detox configuration invalid: Run \`detox.configurations\` to see the missing binary or simulator; build it with \`detox.build\`
 `,
   },
 ];
@@ -0,0 +1,169 @@
+/**
+ * Tool registry shared by the MCP server and the flow runner
+ */
+
+import type { McpServer, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError, type CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { logger } from "../core/logger.js";
+
+export type ToolHandler<Shape extends z.ZodRawShape> = (
+  args: z.objectOutputType<Shape, z.ZodTypeAny>
+) => Promise<CallToolResult>;
+
+// An input schema given as a raw shape, or as an object schema with cross-field refinements
+export type ToolInputSchema<Shape extends z.ZodRawShape> = Shape | z.ZodEffects<z.ZodObject<Shape>>;
+
+export interface ToolExecutionResult {
+  success: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+interface RegisteredTool {
+  name: string;
+  description: string;
+  schema: z.ZodType<Record<string, unknown>>;
+  handler: (args: Record<string, unknown>) => Promise<CallToolResult>;
+}
+
+export class ToolRegistry {
+  private tools: Map<string, RegisteredTool> = new Map();
+
+  constructor(private readonly server: McpServer) {}
+
+  /**
+   * Register a tool with the MCP server and keep it callable from flows.
+   * MCP clients only see the shape, so refinements are checked before the handler runs
+   */
+  tool<Shape extends z.ZodRawShape>(
+    name: string,
+    description: string,
+    input: ToolInputSchema<Shape>,
+    handler: ToolHandler<Shape>
+  ): void {
+    if (this.tools.has(name)) {
+      throw new Error(`Tool already registered: ${name}`);
+    }
+
+    const refined = input instanceof z.ZodEffects ? input : null;
+    const shape = refined ? refined.innerType().shape : (input as Shape);
+    const schema = refined ?? z.object(shape);
+
+    this.tools.set(name, {
+      name,
+      description,
+      schema: schema as RegisteredTool["schema"],
+      handler: handler as RegisteredTool["handler"],
+    });
+
+    this.server.tool(name, description, shape, (async (args: z.objectOutputType<Shape, z.ZodTypeAny>) => {
+      if (refined) {
+        const parsed = refined.safeParse(args);
+        if (!parsed.success) {
+          // Same error the SDK raises when the shape itself does not match
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Input validation error: Invalid arguments for tool ${name}: ${formatIssues(parsed.error)}`
+          );
+        }
+      }
+      return handler(args);
+    }) as unknown as ToolCallback<Shape>);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  list(): Array<{ name: string; description: string }> {
+    return Array.from(this.tools.values()).map((t) => ({
+      name: t.name,
+      description: t.description,
+    }));
+  }
+
+  /**
+   * Validate input against the tool schema and run its handler.
+   * Returns the same structured payload the tool sends to MCP clients.
+   */
+  async execute(name: string, input: Record<string, unknown> = {}): Promise<ToolExecutionResult> {
+    const tool = this.tools.get(name);
+
+    if (!tool) {
+      return {
+        success: false,
+        error: `Unknown tool: ${name}`,
+      };
+    }
+
+    const parsed = tool.schema.safeParse(input);
+
+    if (!parsed.success) {
+      const issues = formatIssues(parsed.error);
+      logger.warn("mcp", `Invalid input for ${name}`, { issues });
+      return {
+        success: false,
+        error: `Invalid input for ${name}: ${issues}`,
+      };
+    }
+
+    const response = await tool.handler(parsed.data);
+    const result = extractStructuredResult(response);
+
+    if (response.isError) {
+      return {
+        success: false,
+        result,
+        error: extractErrorMessage(result) ?? `Tool ${name} returned an error`,
+      };
+    }
+
+    return { success: true, result };
+  }
+}
+
+/**
+ * Convert MCP content blocks back into structured data.
+ * JSON text is parsed, other text is kept as-is and binary payloads are omitted.
+ */
+export function extractStructuredResult(response: CallToolResult): unknown {
+  const items = response.content.map((item) => {
+    if (item.type === "text") {
+      try {
+        return JSON.parse(item.text) as unknown;
+      } catch {
+        return item.text;
+      }
+    }
+    if (item.type === "image") {
+      return { type: "image", mimeType: item.mimeType };
+    }
+    return { type: item.type };
+  });
+
+  return items.length === 1 ? items[0] : items;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; ");
+}
+
+function extractErrorMessage(result: unknown): string | undefined {
+  const candidates = Array.isArray(result) ? result : [result];
+
+  for (const candidate of candidates) {
+    if (!candidate || typeof candidate !== "object") continue;
+    const record = candidate as Record<string, unknown>;
+
+    if (typeof record.message === "string") {
+      return record.message;
+    }
+    const error = record.error as Record<string, unknown> | undefined;
+    if (error && typeof error.message === "string") {
+      return error.message;
+    }
+  }
+
+  return undefined;
+}
@@ -5,32 +5,105 @@
 import { z } from "zod";
 
 // Common schemas
+export const MATCHER_TYPES = ["id", "text", "label", "type", "traits"] as const;
+
+export interface Matcher {
+  by: (typeof MATCHER_TYPES)[number];
+  value: string;
+  regex?: boolean;
+  withAncestor?: Matcher;
+  withDescendant?: Matcher;
+  and?: Matcher[];
+}
+
+const matcherFields = {
+  by: z.enum(MATCHER_TYPES).describe("Match by testID, text, accessibility label, native view type or accessibility traits."),
+  value: z.string().describe("Value to match. For traits, a comma-separated list (e.g. \"button,selected\")."),
+  regex: z.boolean().optional().describe("Treat value as a regular expression (id, text and label only)."),
+  withAncestor: z.lazy(() => MatcherSchema).optional().describe("Only match elements inside an element matching this."),
+  withDescendant: z.lazy(() => MatcherSchema).optional().describe("Only match elements containing an element matching this."),
+  and: z.array(z.lazy(() => MatcherSchema)).optional().describe("Additional matchers the element must also satisfy."),
+};
+
+function validateMatcher(matcher: Matcher, ctx: z.RefinementCtx): void {
+  if (matcher.regex) {
+    if (matcher.by === "type" || matcher.by === "traits") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["regex"], message: `regex is not supported for by: ${matcher.by}` });
+      return;
+    }
+    try {
+      new RegExp(matcher.value);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["value"],
+        message: error instanceof Error ? error.message : `Invalid regular expression: ${matcher.value}`,
+      });
+    }
+  }
+}
+
+export const MatcherSchema: z.ZodType<Matcher> = z.object(matcherFields).superRefine(validateMatcher);
+
 export const SelectorSchema = z.object({
-  by: z.enum(["id", "text", "label"]),
-  value: z.string(),
-});
+  ...matcherFields,
+  index: z.number().int().min(0).optional().describe("Pick the Nth match (0-based) when several elements match."),
+}).superRefine(validateMatcher);
 
 export const DirectionSchema = z.enum(["up", "down", "left", "right"]);
 
+// Target of simulator, visual and Detox tools when several simulators are booted
+export const DeviceTargetSchema = z
+  .string()
+  .optional()
+  .describe("Simulator UDID, name or role (see simulator.boot) to target. Defaults to the default device, the first one booted.");
+
+export const DeviceTargetInputSchema = z.object({
+  device: DeviceTargetSchema,
+});
+
 // Simulator tool schemas
 export const SimulatorBootInputSchema = z.object({
-  device: z.string().optional().describe("Device name or UDID. Defaults to config defaultDeviceName."),
+  device: z.string().optional().describe("Device name or UDID, optionally with a runtime (\"iPhone 15 @ iOS 17\"). Defaults to config defaultDeviceName."),
+  role: z.string().optional().describe("Role to address the device by in other tools, e.g. \"phone\", \"tablet\" or \"alice\". The first device defaults to \"primary\"."),
+  ensure: z.boolean().optional().default(false).describe("Create the device from its name as a device type (see simulator.create) when it does not exist."),
 });
 
 export const SimulatorShutdownInputSchema = z.object({
-  device: z.string().optional().describe("Device name or UDID. If not specified, shuts down the booted device."),
+  device: z.string().optional().describe("Device name, UDID or role. If not specified, shuts down the default device."),
 });
 
 export const SimulatorEraseInputSchema = z.object({
-  device: z.string().describe("Device name or UDID to erase."),
+  device: z.string().describe("Device name, UDID or role to erase."),
+});
+
+export const SimulatorCreateInputSchema = z.object({
+  deviceType: z.string().describe("Device type name or identifier, matched loosely (\"iphone 15 pro\"). Append \"@ <runtime>\" to pick the runtime, e.g. \"iPhone 15 Pro @ iOS 17\"."),
+  runtime: z.string().optional().describe("Runtime such as \"iOS 17\", \"17.2\" or a runtime identifier. Defaults to the newest runtime supporting the device type."),
+  name: z.string().optional().describe("Name of the new device. Defaults to the device type name."),
+});
+
+export const SimulatorCloneInputSchema = z.object({
+  device: z.string().describe("Device name, UDID or role to clone. It must be shut down."),
+  name: z.string().describe("Name of the new device."),
+});
+
+export const SimulatorDeleteInputSchema = z.object({
+  device: z.string().describe("Device name, UDID or role to delete. A booted device is shut down first."),
+});
+
+export const SimulatorListDeviceTypesInputSchema = z.object({
+  filter: z.string().optional().describe("Only list device types whose name contains this text, e.g. \"iPad\"."),
 });
 
 export const SimulatorScreenshotInputSchema = z.object({
   name: z.string().optional().default("screenshot").describe("Name prefix for the screenshot file."),
+  device: DeviceTargetSchema,
 });
 
 export const VideoRecordingInputSchema = z.object({
   name: z.string().optional().default("recording").describe("Name prefix for the video file."),
+  device: DeviceTargetSchema,
 });
 
 // Expo tool schemas
@@ -42,10 +115,119 @@ export const ExpoLogsTailInputSchema = z.object({
   lines: z.number().optional().default(100).describe("Number of log lines to return."),
 });
 
+// App launch options (mirrors Detox device.launchApp params)
+export const AppLaunchOptionsSchema = z.object({
+  newInstance: z.boolean().optional().describe("Terminate a running instance and launch a fresh one."),
+  delete: z.boolean().optional().describe("Uninstall and reinstall the app before launching (clears app data)."),
+  launchArgs: z.record(z.unknown()).optional().describe("Launch arguments passed to the app (available via react-native-launch-arguments)."),
+  permissions: z.record(z.string()).optional().describe("Permissions to set before launch, e.g. { camera: \"YES\", location: \"inuse\" }."),
+  url: z.string().optional().describe("Deep link URL to open the app with."),
+  sourceApp: z.string().optional().describe("Bundle ID of the app the URL is opened from."),
+  userNotification: z.record(z.unknown()).optional().describe("User notification payload to launch the app with."),
+  userActivity: z.record(z.unknown()).optional().describe("User activity payload to launch the app with."),
+  languageAndLocale: z
+    .object({
+      language: z.string().optional().describe("Language code, e.g. \"es-MX\"."),
+      locale: z.string().optional().describe("Locale identifier, e.g. \"es-MX\"."),
+    })
+    .optional()
+    .describe("Launch the app with a specific language and locale."),
+  disableTouchIndicators: z.boolean().optional().describe("Hide the touch indicators Detox draws on taps."),
+});
+
 // Detox session schemas
+export const DetoxArtifactsSchema = z.object({
+  recordVideos: z.enum(["none", "failing", "all"]).optional().describe("Record simulator video for failing tests or every test (detox --record-videos)."),
+  takeScreenshots: z.enum(["none", "manual", "failing", "all"]).optional().describe("Detox screenshots before/after tests (detox --take-screenshots)."),
+  recordLogs: z.enum(["none", "failing", "all"]).optional().describe("Keep device and Detox logs (detox --record-logs)."),
+  captureViewHierarchy: z.enum(["disabled", "enabled"]).optional().describe("Capture the native view hierarchy on failure (detox --capture-view-hierarchy)."),
+});
+
 export const DetoxSessionStartInputSchema = z.object({
   configuration: z.string().optional().describe("Detox configuration name. Defaults to config value."),
   reuse: z.boolean().optional().default(true).describe("Reuse existing session if available."),
+  worker: z.boolean().optional().describe("Run actions in a long-lived Detox worker. Defaults to config value (detox.worker)."),
+  launch: AppLaunchOptionsSchema.optional().describe("Options for the initial app launch. Defaults to { newInstance: false }."),
+  artifacts: DetoxArtifactsSchema.optional().describe("Detox artifacts to record for every action in this session. Overrides config detox.artifacts; recording runs actions as one-off micro-tests instead of the worker."),
+  device: DeviceTargetSchema,
+});
+
+export const DetoxConfigurationsInputSchema = z.object({
+  validate: z.boolean().optional().default(true).describe("Check that each app binary exists and a matching simulator is available."),
+});
+
+export const DetoxBuildInputSchema = z.object({
+  configuration: z.string().optional().describe("Detox configuration to build. Defaults to the session or config value."),
+  force: z.boolean().optional().default(false).describe("Rebuild even if the native fingerprint matches a cached binary."),
+  timeoutMs: z.number().optional().describe("Build timeout in milliseconds. Defaults to config detox.buildTimeoutMs (30 minutes)."),
+});
+
+export const DetoxRunTestsInputSchema = z.object({
+  files: z.array(z.string()).optional().describe("Test files or globs relative to the project, e.g. [\"e2e/login*.test.js\"]. Defaults to all tests in the Jest config."),
+  testNamePattern: z.string().optional().describe("Only run tests whose full name matches this regex (jest --testNamePattern)."),
+  configuration: z.string().optional().describe("Detox configuration. Defaults to the session or config value."),
+  retries: z.number().int().min(0).max(5).optional().default(0).describe("Re-run failing test files up to N times; tests that pass on a retry are reported as flaky."),
+  shard: z.string().regex(/^\d+\/\d+$/).optional().describe("Run one shard of the suite, e.g. \"1/3\" (jest --shard)."),
+  junitPath: z.string().optional().describe("JUnit XML written by the project's reporter (e.g. jest-junit), read when no Jest JSON report is produced."),
+  artifacts: DetoxArtifactsSchema.optional().describe("Detox artifacts to record. Defaults to config detox.artifacts, or videos, screenshots and logs of failing tests."),
+  timeoutMs: z.number().optional().describe("Timeout per attempt in milliseconds. Defaults to 30 minutes."),
+  device: DeviceTargetSchema,
+});
+
+export const DetoxSyncInputSchema = z.object({
+  synchronization: z.boolean().optional().describe("Enable (true) or disable (false) Detox synchronization. Disable it for apps that never go idle (polling, looping animations)."),
+  urlBlacklist: z.array(z.string()).optional().describe("URL regexes Detox should not wait for (e.g. [\".*analytics.*\"]). Replaces the current list; [] clears it."),
+  device: DeviceTargetSchema,
+});
+
+export const DetoxFlakinessInputSchema = z.object({
+  status: z.enum(["stable", "flaky", "broken"]).optional().describe("Only list entries with this classification."),
+  kind: z.enum(["action", "selector"]).optional().describe("Only list actions or selectors."),
+  reset: z.boolean().optional().default(false).describe("Clear the recorded history instead of reporting it."),
+});
+
+export const SessionExportDetoxTestInputSchema = z.object({
+  name: z.string().regex(/^[\w.-]+$/).describe("Test file name without extension; written as <directory>/<name>.test.js."),
+  describe: z.string().optional().describe("describe() block title. Defaults to the name."),
+  testName: z.string().optional().describe("it() block title. Defaults to \"replays the recorded session\"."),
+  includeAssertions: z.boolean().optional().default(true).describe("Include the assertions (ui.assert, ui.assert_text) that ran during the session."),
+  directory: z.string().optional().default("e2e").describe("Directory relative to the project to write the test to; must stay inside the project."),
+  overwrite: z.boolean().optional().default(false).describe("Replace an existing test file with the same name."),
+  device: DeviceTargetSchema,
+});
+
+// App and device schemas (via Detox, or simctl when a bundle ID is given)
+export const AppLaunchInputSchema = AppLaunchOptionsSchema.extend({
+  bundleId: z.string().optional().describe("Launch this installed app directly with simctl instead of through the Detox session. Only newInstance, args, env and captureConsoleMs apply then."),
+  args: z.array(z.string()).optional().describe("Command line arguments for the app (with bundleId)."),
+  env: z.record(z.string()).optional().describe("Environment variables for the app (with bundleId)."),
+  captureConsoleMs: z.number().optional().describe("With bundleId: capture the app's stdout and stderr for this many ms after launch and return them. The full output of each stream is saved as a log artifact."),
+  device: DeviceTargetSchema,
+});
+
+export const AppTerminateInputSchema = z.object({
+  bundleId: z.string().optional().describe("Terminate this app with simctl instead of the app under test in the Detox session."),
+  device: DeviceTargetSchema,
+});
+
+export const AppInstallInputSchema = z.object({
+  path: z.string().describe("Path to a built .app bundle or a .tar.gz archive containing one, relative to the project or absolute."),
+  device: DeviceTargetSchema,
+});
+
+export const AppBundleInputSchema = z.object({
+  bundleId: z.string().describe("Bundle ID of an installed app, see app.list."),
+  device: DeviceTargetSchema,
+});
+
+export const AppListInputSchema = z.object({
+  includeSystem: z.boolean().optional().default(false).describe("Include the simulator's built-in system apps."),
+  device: DeviceTargetSchema,
+});
+
+export const DeviceSetOrientationInputSchema = z.object({
+  orientation: z.enum(["portrait", "landscape"]).describe("Device orientation."),
+  device: DeviceTargetSchema,
 });
 
 // UI action schemas
@@ -53,11 +235,13 @@ export const UiTapInputSchema = z.object({
   selector: SelectorSchema.describe("Element selector."),
   x: z.number().optional().describe("X offset from element center."),
   y: z.number().optional().describe("Y offset from element center."),
+  device: DeviceTargetSchema,
 });
 
 export const UiLongPressInputSchema = z.object({
   selector: SelectorSchema.describe("Element selector."),
   duration: z.number().optional().default(1000).describe("Press duration in milliseconds."),
+  device: DeviceTargetSchema,
 });
 
 export const UiSwipeInputSchema = z.object({
@@ -65,44 +249,215 @@ export const UiSwipeInputSchema = z.object({
   direction: DirectionSchema.describe("Swipe direction."),
   speed: z.enum(["fast", "slow"]).optional().default("fast").describe("Swipe speed."),
   percentage: z.number().min(0).max(1).optional().default(0.75).describe("Swipe distance as percentage of element."),
+  device: DeviceTargetSchema,
 });
 
 export const UiScrollInputSchema = z.object({
   selector: SelectorSchema.describe("Scrollable element selector."),
   direction: DirectionSchema.describe("Scroll direction."),
   amount: z.number().optional().default(200).describe("Scroll amount in pixels."),
+  device: DeviceTargetSchema,
+});
+
+export const UiPinchInputSchema = z.object({
+  selector: SelectorSchema.describe("Element selector to pinch on."),
+  scale: z.number().positive().describe("Pinch scale: < 1 pinches in (zoom out), > 1 pinches out (zoom in)."),
+  speed: z.enum(["fast", "slow"]).optional().default("fast").describe("Pinch speed."),
+  angle: z.number().optional().default(0).describe("Angle of the pinch in radians."),
+  device: DeviceTargetSchema,
+});
+
+export const UiMultiTapInputSchema = z.object({
+  selector: SelectorSchema.describe("Element selector."),
+  times: z.number().int().min(1).optional().default(2).describe("Number of taps."),
+  device: DeviceTargetSchema,
+});
+
+export const UiTapAtInputSchema = z.object({
+  x: z.number().describe("X coordinate in device points."),
+  y: z.number().describe("Y coordinate in device points."),
+  device: DeviceTargetSchema,
+});
+
+export const UiDragInputSchema = z.object({
+  selector: SelectorSchema.describe("Element to drag."),
+  target: SelectorSchema.optional().describe("Element to drop on. Provide either target or point."),
+  point: z
+    .object({
+      x: z.number().describe("X coordinate in device points."),
+      y: z.number().describe("Y coordinate in device points."),
+    })
+    .optional()
+    .describe("Device point to drop at. Provide either target or point."),
+  duration: z.number().optional().default(1000).describe("Long press duration before dragging, in milliseconds."),
+  startX: z.number().min(0).max(1).optional().default(0.5).describe("Normalized X position to grab the element at."),
+  startY: z.number().min(0).max(1).optional().default(0.5).describe("Normalized Y position to grab the element at."),
+  targetX: z.number().min(0).max(1).optional().default(0.5).describe("Normalized X position to drop at on the target element."),
+  targetY: z.number().min(0).max(1).optional().default(0.5).describe("Normalized Y position to drop at on the target element."),
+  speed: z.enum(["fast", "slow"]).optional().default("slow").describe("Drag speed."),
+  holdDuration: z.number().optional().default(1000).describe("How long to hold at the drop position before releasing, in milliseconds."),
+  device: DeviceTargetSchema,
+});
+
+export const UiScrollToEdgeInputSchema = z.object({
+  selector: SelectorSchema.describe("Scrollable element selector."),
+  edge: z.enum(["top", "bottom", "left", "right"]).describe("Edge to scroll to."),
+  device: DeviceTargetSchema,
+});
+
+export const UiScrollUntilVisibleInputSchema = z.object({
+  selector: SelectorSchema.describe("Element to scroll into view."),
+  direction: DirectionSchema.optional().default("down").describe("Scroll direction."),
+  scrollSelector: SelectorSchema.optional().describe("Scrollable container. Defaults to the first React Native scroll view."),
+  amount: z.number().optional().default(200).describe("Scroll step in pixels."),
+  device: DeviceTargetSchema,
 });
 
 export const UiTypeInputSchema = z.object({
   selector: SelectorSchema.describe("Input element selector."),
   text: z.string().describe("Text to type."),
   replace: z.boolean().optional().default(true).describe("Clear existing text before typing."),
+  device: DeviceTargetSchema,
 });
 
 export const UiPressKeyInputSchema = z.object({
-  key: z.enum(["return", "backspace", "delete"]).describe("Key to press."),
+  key: z
+    .enum(["return", "backspace", "delete", "next", "dismiss"])
+    .describe("Key to press. 'next' submits a returnKeyType=\"next\" field and fails unless focus moved to another input; 'dismiss' taps return (single-line fields) or outside the input (multi-line) and checks the keyboard closed."),
+  selector: SelectorSchema.optional().describe("Input to press the key on. Defaults to the first text field; use { by: \"type\", value: \"UITextView\" } for multi-line inputs."),
+  device: DeviceTargetSchema,
 });
 
 export const UiWaitForInputSchema = z.object({
   selector: SelectorSchema.describe("Element selector to wait for."),
   visible: z.boolean().optional().default(true).describe("Wait for visibility (true) or existence (false)."),
   timeout: z.number().optional().default(30000).describe("Timeout in milliseconds."),
+  device: DeviceTargetSchema,
 });
 
 export const UiAssertTextInputSchema = z.object({
   selector: SelectorSchema.describe("Element selector."),
   text: z.string().describe("Expected text content."),
   exact: z.boolean().optional().default(true).describe("Exact match (true) or contains (false)."),
+  device: DeviceTargetSchema,
+});
+
+export const ASSERTION_TYPES = [
+  "toBeVisible",
+  "toExist",
+  "toHaveText",
+  "toHaveLabel",
+  "toHaveId",
+  "toHaveValue",
+  "toHaveToggleValue",
+  "toHaveSliderPosition",
+  "toBeFocused",
+] as const;
+
+const uiAssertObjectSchema = z.object({
+  selector: SelectorSchema.describe("Element selector."),
+  assertion: z.enum(ASSERTION_TYPES).describe("Detox expectation to check."),
+  expected: z
+    .union([z.string(), z.number(), z.boolean()])
+    .optional()
+    .describe("Expected value: a string for toHaveText/Label/Id/Value, a boolean for toHaveToggleValue, a 0-1 position for toHaveSliderPosition."),
+  not: z.boolean().optional().default(false).describe("Negate the assertion (e.g. not visible, not existing, not having the text)."),
+  percent: z.number().min(1).max(100).optional().describe("toBeVisible only: minimum percentage of the element that must be visible."),
+  tolerance: z.number().min(0).max(1).optional().describe("toHaveSliderPosition only: allowed difference from the expected position."),
+  device: DeviceTargetSchema,
+});
+
+// The Detox matchers that compare against a value need one of the right type
+function validateAssertExpected(input: { assertion: AssertionType; expected?: unknown }, ctx: z.RefinementCtx): void {
+  const { assertion, expected } = input;
+  const fail = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["expected"], message });
+
+  switch (assertion) {
+    case "toHaveText":
+    case "toHaveLabel":
+    case "toHaveId":
+    case "toHaveValue":
+      if (expected === undefined) fail(`${assertion} needs an expected value`);
+      break;
+    case "toHaveToggleValue":
+      if (typeof expected !== "boolean") fail("toHaveToggleValue needs a boolean expected value");
+      break;
+    case "toHaveSliderPosition":
+      if (typeof expected !== "number" || expected < 0 || expected > 1) {
+        fail("toHaveSliderPosition needs a numeric expected position (0-1)");
+      }
+      break;
+  }
+}
+
+export const UiAssertInputSchema = uiAssertObjectSchema.superRefine(validateAssertExpected);
+
+export const UiGetAttributesInputSchema = z.object({
+  selector: SelectorSchema.describe("Element selector."),
+  all: z.boolean().optional().default(false).describe("Return every matching element instead of the first one."),
+  device: DeviceTargetSchema,
+});
+
+export const UiGetTextInputSchema = z.object({
+  selector: SelectorSchema.describe("Element selector."),
+  all: z.boolean().optional().default(false).describe("Return the text of every matching element instead of the first one."),
+  device: DeviceTargetSchema,
+});
+
+export const UiHierarchyInputSchema = z.object({
+  accessibleOnly: z.boolean().optional().default(false).describe("Only keep accessibility elements (nodes with testID or label, or marked accessible)."),
+  visibleOnly: z.boolean().optional().default(true).describe("Drop hidden views and their subtrees."),
+  compact: z.boolean().optional().default(true).describe("Drop wrapper views without testID, label or text, keeping their children."),
+  maxDepth: z.number().int().min(1).optional().describe("Maximum tree depth; deeper nodes are counted in 'truncated'."),
+  device: DeviceTargetSchema,
+});
+
+export const UiRunSnippetInputSchema = z.object({
+  snippet: z.string().min(1).describe("Detox JavaScript to run, e.g. \"await element(by.id('list')).scrollTo('bottom');\". Top-level await is allowed; assign capturedData to return values."),
+  name: z.string().optional().describe("Short name used in logs and artifact names."),
+  timeoutMs: z.number().optional().describe("Timeout in milliseconds. Defaults to config testTimeoutMs."),
+  artifacts: DetoxArtifactsSchema.optional().describe("Detox artifacts to record for this snippet only, on top of the session settings."),
+  device: DeviceTargetSchema,
+});
+
+// Batch schemas: each descriptor takes the same fields as the matching ui.* tool
+export const UiBatchActionSchema = z.discriminatedUnion("action", [
+  UiTapInputSchema.omit({ device: true }).extend({ action: z.literal("tap") }),
+  UiLongPressInputSchema.omit({ device: true }).extend({ action: z.literal("long_press") }),
+  UiSwipeInputSchema.omit({ device: true }).extend({ action: z.literal("swipe") }),
+  UiScrollInputSchema.omit({ device: true }).extend({ action: z.literal("scroll") }),
+  UiTypeInputSchema.omit({ device: true }).extend({ action: z.literal("type") }),
+  UiPressKeyInputSchema.omit({ device: true }).extend({ action: z.literal("press_key") }),
+  UiWaitForInputSchema.omit({ device: true }).extend({ action: z.literal("wait_for") }),
+  UiAssertTextInputSchema.omit({ device: true }).extend({ action: z.literal("assert_text") }),
+  uiAssertObjectSchema.omit({ device: true }).extend({ action: z.literal("assert") }),
+  UiPinchInputSchema.omit({ device: true }).extend({ action: z.literal("pinch") }),
+  UiMultiTapInputSchema.omit({ device: true }).extend({ action: z.literal("multi_tap") }),
+  UiTapAtInputSchema.omit({ device: true }).extend({ action: z.literal("tap_at") }),
+  UiDragInputSchema.omit({ device: true }).extend({ action: z.literal("drag") }),
+  UiScrollToEdgeInputSchema.omit({ device: true }).extend({ action: z.literal("scroll_to_edge") }),
+  UiScrollUntilVisibleInputSchema.omit({ device: true }).extend({ action: z.literal("scroll_until_visible") }),
+]).superRefine((action, ctx) => {
+  if (action.action === "assert") validateAssertExpected(action, ctx);
+});
+
+export const UiBatchInputSchema = z.object({
+  actions: z.array(UiBatchActionSchema).min(1).max(50).describe("Actions to run in order, e.g. { action: \"tap\", selector: {...} }. Stops at the first failure."),
+  timeoutMs: z.number().optional().describe("Timeout for the whole batch in milliseconds. Defaults to config testTimeoutMs."),
+  artifacts: DetoxArtifactsSchema.optional().describe("Detox artifacts to record for this batch only, on top of the session settings."),
+  device: DeviceTargetSchema,
 });
 
 // Visual comparison schemas
 export const VisualBaselineSaveInputSchema = z.object({
   name: z.string().describe("Baseline image name."),
+  device: DeviceTargetSchema,
 });
 
 export const VisualCompareInputSchema = z.object({
   name: z.string().describe("Baseline name to compare against."),
   threshold: z.number().min(0).max(1).optional().describe("Mismatch threshold (0-1). Defaults to config value."),
+  device: DeviceTargetSchema,
 });
 
 // Design comparison schema
@@ -117,18 +472,97 @@ export const VisualCompareToDesignInputSchema = z.object({
     height: z.number().describe("Height of region."),
   }).optional().describe("Optional region to compare (crop screenshot to specific area)."),
   resizeStrategy: z.enum(["design", "actual", "none"]).optional().default("actual").describe("How to handle size differences: resize to design size, actual size, or fail."),
+  device: DeviceTargetSchema,
 });
 
 // Flow runner schemas
+export const FlowConditionSchema = z.object({
+  path: z.string().optional().describe("Value to test: a variable name, vars.<name>, steps.<id>.<field> or last.<field>."),
+  equals: z.unknown().optional().describe("Holds when the value equals this."),
+  notEquals: z.unknown().optional().describe("Holds when the value differs from this."),
+  contains: z.string().optional().describe("Holds when the string value contains this."),
+  matches: z.string().optional().describe("Holds when the string value matches this regex."),
+  exists: z.boolean().optional().describe("Holds when the value is (true) or is not (false) defined."),
+  tool: z.string().optional().describe("Probe tool to run instead of a path; holds when the tool succeeds."),
+  input: z.record(z.unknown()).optional().describe("Input for the probe tool."),
+}).refine((c) => c.path !== undefined || c.tool !== undefined, {
+  message: "Condition requires either path or tool",
+});
+
+export const FlowRetrySchema = z.object({
+  attempts: z.number().int().min(1).max(10).default(3).describe("Maximum attempts, including the first."),
+  delayMs: z.number().int().min(0).default(1000).describe("Delay between attempts in milliseconds."),
+});
+
+export const FlowRepeatSchema = z.object({
+  times: z.number().int().min(1).max(100).default(10).describe("Maximum number of iterations."),
+  until: FlowConditionSchema.optional().describe("Stop repeating once this holds; the step fails if it never does."),
+  delayMs: z.number().int().min(0).default(0).describe("Delay between iterations in milliseconds."),
+});
+
 export const FlowStepSchema = z.object({
   tool: z.string().describe("Tool name to execute."),
-  input: z.record(z.unknown()).describe("Tool input parameters."),
+  input: z.record(z.unknown()).optional().default({}).describe("Tool input parameters. Strings may use ${var} interpolation; write $${ for a literal ${. A nested flow.run keeps its own steps uninterpolated."),
   description: z.string().optional().describe("Step description for logging."),
+  id: z.string().optional().describe("Step id; its outcome is available as steps.<id> to later steps."),
+  if: FlowConditionSchema.optional().describe("Only run the step when this condition holds."),
+  unless: FlowConditionSchema.optional().describe("Skip the step when this condition holds."),
+  retry: FlowRetrySchema.optional().describe("Retry the step (tool call and assertions) on failure."),
+  repeat: FlowRepeatSchema.optional().describe("Run the step repeatedly, optionally until a condition holds."),
+  assert: z.array(FlowConditionSchema).optional().describe("Conditions that must hold after the step; last refers to this step."),
+  capture: z.record(z.string()).optional().describe("Variables to set from this step's result: { name: \"data.text\" }."),
 });
 
 export const FlowRunInputSchema = z.object({
   steps: z.array(FlowStepSchema).describe("Steps to execute in sequence."),
   stopOnError: z.boolean().optional().default(true).describe("Stop flow on first error."),
+  variables: z.record(z.unknown()).optional().describe("Initial variables available for ${var} interpolation."),
+});
+
+// Saved flow library schemas
+// Names double as file names in the flows directory, so no path separators or dots
+export const FlowNameSchema = z.string().regex(/^[a-zA-Z0-9_-]+$/, "Flow names may only contain letters, digits, dash and underscore");
+
+export const FlowParameterSchema = z.object({
+  description: z.string().optional().describe("What the parameter is for."),
+  default: z.unknown().optional().describe("Value used when the caller does not pass one."),
+  required: z.boolean().optional().default(false).describe("Fail the run when no value is provided."),
+});
+
+export const SavedFlowSchema = FlowRunInputSchema.extend({
+  name: FlowNameSchema.describe("Flow name (letters, digits, dash, underscore)."),
+  description: z.string().optional().describe("What the flow does."),
+  tags: z.array(z.string()).optional().default([]).describe("Tags for grouping and filtering."),
+  parameters: z.record(FlowParameterSchema).optional().default({}).describe("Parameters exposed as ${name} variables."),
+});
+
+export const FlowSaveInputSchema = SavedFlowSchema.extend({
+  format: z.enum(["yaml", "json"]).optional().default("yaml").describe("File format to store the flow in."),
+  overwrite: z.boolean().optional().default(false).describe("Replace an existing flow with the same name."),
+});
+
+export const FlowListInputSchema = z.object({
+  tag: z.string().optional().describe("Only list flows with this tag."),
+});
+
+export const FlowShowInputSchema = z.object({
+  name: FlowNameSchema.describe("Saved flow name."),
+});
+
+export const FlowRunSavedInputSchema = z.object({
+  name: FlowNameSchema.describe("Saved flow name."),
+  args: z.record(z.unknown()).optional().default({}).describe("Values for the flow parameters."),
+  stopOnError: z.boolean().optional().describe("Override the flow's stopOnError setting."),
+});
+
+// Maestro compatibility schemas
+export const FlowRunMaestroInputSchema = z.object({
+  filePath: z.string().optional().describe("Path to a Maestro flow YAML file."),
+  content: z.string().optional().describe("Maestro flow YAML content (alternative to filePath)."),
+  env: z.record(z.unknown()).optional().describe("Values for ${VAR} references; override the flow's env header."),
+  stopOnError: z.boolean().optional().default(true).describe("Stop on the first failing command."),
+  skipUnsupported: z.boolean().optional().default(false).describe("Run supported commands even if some are unsupported (they are still reported)."),
+  dryRun: z.boolean().optional().default(false).describe("Only translate the flow and show the generated Detox snippets."),
 });
 
 // Acceptance criteria schemas
@@ -146,6 +580,7 @@ export const AcceptanceRunInputSchema = z.object({
   skipManual: z.boolean().optional().default(true).describe("Skip manual verification criteria."),
   captureEvidenceOnPass: z.boolean().optional().default(false).describe("Capture screenshots for passing tests."),
   timeout: z.number().optional().default(30000).describe("Timeout per criterion in milliseconds."),
+  retries: z.number().int().min(0).max(5).optional().default(0).describe("Retries for a failing check. A criterion that passes only on a retry is reported as flaky, not pass."),
 });
 
 export const AcceptanceRunFlowInputSchema = z.object({
@@ -160,16 +595,24 @@ export const AcceptanceCheckInputSchema = z.object({
   content: z.string().optional().describe("Markdown content."),
   criterionId: z.string().optional().describe("Criterion ID to check."),
   description: z.string().optional().describe("Criterion description to match (partial match)."),
+  retries: z.number().int().min(0).max(5).optional().default(0).describe("Retries for a failing check. Passing only on a retry is reported as flaky."),
 });
 
 // Type exports
 export type Selector = z.infer<typeof SelectorSchema>;
 export type Direction = z.infer<typeof DirectionSchema>;
+export type AppLaunchOptions = z.infer<typeof AppLaunchOptionsSchema>;
+export type DetoxArtifactsOptions = z.infer<typeof DetoxArtifactsSchema>;
 export type UiTapInput = z.infer<typeof UiTapInputSchema>;
 export type UiTypeInput = z.infer<typeof UiTypeInputSchema>;
 export type UiSwipeInput = z.infer<typeof UiSwipeInputSchema>;
 export type UiWaitForInput = z.infer<typeof UiWaitForInputSchema>;
+export type AssertionType = (typeof ASSERTION_TYPES)[number];
+export type UiAssertInput = z.infer<typeof UiAssertInputSchema>;
+export type UiBatchAction = z.infer<typeof UiBatchActionSchema>;
 export type FlowStep = z.infer<typeof FlowStepSchema>;
+export type FlowCondition = z.infer<typeof FlowConditionSchema>;
+export type SavedFlow = z.infer<typeof SavedFlowSchema>;
 export type AcceptanceParseInput = z.infer<typeof AcceptanceParseInputSchema>;
 export type AcceptanceRunInput = z.infer<typeof AcceptanceRunInputSchema>;
 export type AcceptanceRunFlowInput = z.infer<typeof AcceptanceRunFlowInputSchema>;
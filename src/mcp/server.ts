@@ -11,49 +11,142 @@ import { McpOperationError, createError } from "../core/errors.js";
 import { getConfig, hasConfig } from "../config/load.js";
 
 // Import simulator modules
-import { listDevices, bootDevice, shutdownDevice, eraseDevice, getBootedDevice } from "../simulator/devices.js";
+import {
+  listDevices,
+  requireDevice,
+  resolveDeviceUdid,
+  bootDevice,
+  shutdownDevice,
+  eraseDevice,
+  createDevice,
+  ensureDevice,
+  cloneDevice,
+  deleteDevice,
+  getBootedDevice,
+} from "../simulator/devices.js";
+import { listDeviceTypes, listRuntimes } from "../simulator/runtimes.js";
 import { takeScreenshot } from "../simulator/screenshots.js";
 import { startVideoRecording, stopVideoRecording, getVideoRecordingStatus } from "../simulator/video.js";
 import { startLogStream, stopLogStream, getSimulatorLogs } from "../simulator/logs.js";
+import {
+  installApp,
+  uninstallApp,
+  launchApp as launchSimulatorApp,
+  terminateApp as terminateSimulatorApp,
+  listApps,
+  getAppInfo,
+} from "../simulator/apps.js";
 
 // Import Expo modules
 import { startExpo, stopExpo, getExpoStatus, getExpoLogsTail, reloadApp } from "../expo/expo.js";
 import { runFlow, type ToolExecutor } from "../expo/flow.js";
+import { saveFlow, listFlows, loadFlow, resolveFlowVariables, getFlowsDir } from "../expo/flow-library.js";
 
 // Import Detox modules
-import { startDetoxSession, stopDetoxSession, healthCheck, runDetoxAction } from "../detox/runner.js";
+import {
+  startDetoxSession,
+  stopDetoxSession,
+  healthCheck,
+  setDetoxSync,
+  runDetoxAction,
+  runDetoxBatch,
+} from "../detox/runner.js";
 import {
   generateTapSnippet,
   generateLongPressSnippet,
   generateSwipeSnippet,
   generateScrollSnippet,
+  generateScrollToEdgeSnippet,
+  generateScrollUntilVisibleSnippet,
+  generatePinchSnippet,
+  generateMultiTapSnippet,
+  generateTapAtSnippet,
+  generateDragSnippet,
+  describeDrag,
   generateTypeSnippet,
   generatePressKeySnippet,
+  describePressKey,
   generateWaitForSnippet,
   generateAssertTextSnippet,
   generateAssertVisibleSnippet,
+  generateBatchActionSnippet,
+  generateLaunchAppSnippet,
+  generateTerminateAppSnippet,
+  generateReloadReactNativeSnippet,
+  generateSetOrientationSnippet,
+  generateShakeSnippet,
+  generateSendToHomeSnippet,
+  describeBatchAction,
 } from "../detox/actions.js";
 import { describeSelector } from "../detox/selectors.js";
+import { runAssertion } from "../detox/assertions.js";
+import { runSnippet } from "../detox/sandbox.js";
+import { listDetoxConfigurations } from "../detox/configurations.js";
+import { buildApp } from "../detox/build.js";
+import { runTestSuites } from "../detox/suites.js";
+import { exportDetoxTest } from "../detox/export.js";
+import { flakeTracker } from "../detox/flakiness.js";
+import type { ActionStep } from "../detox/templates.js";
+import {
+  getElementAttributes,
+  elementText,
+  getViewHierarchy,
+  getKeyboardState,
+} from "../detox/queries.js";
 
 // Import schemas
 import {
+  DeviceTargetInputSchema,
   SimulatorBootInputSchema,
   SimulatorShutdownInputSchema,
   SimulatorEraseInputSchema,
+  SimulatorCreateInputSchema,
+  SimulatorCloneInputSchema,
+  SimulatorDeleteInputSchema,
+  SimulatorListDeviceTypesInputSchema,
   SimulatorScreenshotInputSchema,
   VideoRecordingInputSchema,
   ExpoLogsTailInputSchema,
   DetoxSessionStartInputSchema,
+  DetoxSyncInputSchema,
+  DetoxFlakinessInputSchema,
+  SessionExportDetoxTestInputSchema,
+  DetoxConfigurationsInputSchema,
+  DetoxBuildInputSchema,
+  DetoxRunTestsInputSchema,
+  AppLaunchInputSchema,
+  AppTerminateInputSchema,
+  AppInstallInputSchema,
+  AppBundleInputSchema,
+  AppListInputSchema,
+  DeviceSetOrientationInputSchema,
   UiTapInputSchema,
   UiLongPressInputSchema,
   UiSwipeInputSchema,
   UiScrollInputSchema,
+  UiScrollToEdgeInputSchema,
+  UiScrollUntilVisibleInputSchema,
+  UiPinchInputSchema,
+  UiMultiTapInputSchema,
+  UiTapAtInputSchema,
+  UiDragInputSchema,
   UiTypeInputSchema,
   UiPressKeyInputSchema,
   UiWaitForInputSchema,
   UiAssertTextInputSchema,
+  UiAssertInputSchema,
+  UiGetAttributesInputSchema,
+  UiGetTextInputSchema,
+  UiHierarchyInputSchema,
+  UiBatchInputSchema,
+  UiRunSnippetInputSchema,
   ExpoStartInputSchema,
   FlowRunInputSchema,
+  FlowSaveInputSchema,
+  FlowListInputSchema,
+  FlowShowInputSchema,
+  FlowRunSavedInputSchema,
+  FlowRunMaestroInputSchema,
   VisualBaselineSaveInputSchema,
   VisualCompareInputSchema,
   VisualCompareToDesignInputSchema,
@@ -85,30 +178,39 @@ import {
   TRUNCATE_MESSAGE_SHORT,
 } from "../acceptance/index.js";
 
+// Import Maestro compatibility modules
+import { parseMaestroFile, parseMaestroContent, runMaestroFlow, previewMaestroFlow } from "../maestro/index.js";
+
 // Import hardening modules
-import { lockManager, withLock } from "../core/lock.js";
+import { lockManager, withLock, deviceResource } from "../core/lock.js";
 import { registerPrompts } from "./prompts.js";
+import { ToolRegistry } from "./registry.js";
 
 export function createMcpServer(): McpServer {
   const server = new McpServer({
     name: "expo-ios-detox",
     version: "0.1.0",
   });
+  const registry = new ToolRegistry(server);
 
   // === SIMULATOR TOOLS ===
 
-  server.tool(
+  registry.tool(
     "simulator.list_devices",
-    "List all available iOS simulator devices and their states",
+    "List all available iOS simulator devices and their states, with the role of each device the server tracks",
     {},
     async () => {
       try {
         const result = await listDevices();
+        const devices = result.devices.map((device) => ({
+          ...device,
+          role: stateManager.findSimulator(device.udid)?.role,
+        }));
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(result, null, 2),
+              text: JSON.stringify({ ...result, devices, defaultDevice: stateManager.getDefaultSimulatorUdid() }, null, 2),
             },
           ],
         };
@@ -118,15 +220,18 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
+  registry.tool(
     "simulator.boot",
-    "Boot an iOS simulator device",
+    "Boot an iOS simulator device. Several devices can be booted side by side; give each a role to address it in other tools. With ensure, a missing device is created first",
     SimulatorBootInputSchema.shape,
     async (args) => {
       try {
         const device = args.device ?? (hasConfig() ? getConfig().defaultDeviceName : "iPhone 15");
-        const result = await withLock("simulator", "boot", async () => {
-          return bootDevice(device);
+        const { device: target, created } = args.ensure
+          ? await ensureDevice(device)
+          : { device: await requireDevice(device), created: false };
+        const result = await withLock(deviceResource(target.udid), "boot", async () => {
+          return bootDevice(target.udid, { role: args.role });
         }, { timeoutMs: 120000 });
         return {
           content: [
@@ -135,7 +240,9 @@ export function createMcpServer(): McpServer {
               text: JSON.stringify({
                 success: true,
                 device: result,
-                state: stateManager.getSimulator(),
+                created,
+                state: stateManager.getSimulator(result.udid),
+                simulators: stateManager.getSimulators(),
               }, null, 2),
             },
           ],
@@ -146,29 +253,31 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
+  registry.tool(
     "simulator.shutdown",
     "Shut down an iOS simulator device",
     SimulatorShutdownInputSchema.shape,
     async (args) => {
       try {
-        const device = args.device ?? stateManager.getSimulator().udid;
+        const device = args.device ?? stateManager.getSimulator().udid ?? (await getBootedDevice())?.udid;
         if (!device) {
-          const booted = await getBootedDevice();
-          if (!booted) {
-            return {
-              content: [{ type: "text", text: JSON.stringify({ success: true, message: "No simulator is running" }) }],
-            };
-          }
-          await shutdownDevice(booted.udid);
-        } else {
-          await shutdownDevice(device);
+          return {
+            content: [{ type: "text", text: JSON.stringify({ success: true, message: "No simulator is running" }) }],
+          };
         }
+        const target = await requireDevice(device);
+        await withLock(deviceResource(target.udid), "shutdown", async () => {
+          // A session pinned to the device cannot outlive it
+          if (stateManager.getDetoxSessions().has(target.udid)) {
+            await stopDetoxSession(target.udid);
+          }
+          return shutdownDevice(target.udid);
+        });
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify({ success: true, state: stateManager.getSimulator() }, null, 2),
+              text: JSON.stringify({ success: true, state: stateManager.getSimulator(), simulators: stateManager.getSimulators() }, null, 2),
             },
           ],
         };
@@ -178,13 +287,16 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
+  registry.tool(
     "simulator.erase",
     "Erase all content and settings from a simulator (factory reset)",
     SimulatorEraseInputSchema.shape,
     async (args) => {
       try {
-        await eraseDevice(args.device);
+        const target = await requireDevice(args.device);
+        await withLock(deviceResource(target.udid), "erase", async () => {
+          return eraseDevice(target.udid);
+        });
         return {
           content: [
             {
@@ -199,13 +311,117 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
+  registry.tool(
+    "simulator.create",
+    "Create a simulator from a device type and runtime, matched loosely, e.g. \"iPhone 15 Pro @ iOS 17\". Without a runtime the newest one supporting the device type is used",
+    SimulatorCreateInputSchema.shape,
+    async (args) => {
+      try {
+        const result = await withLock("simulator-create", "create", async () => {
+          return createDevice(args);
+        }, { timeoutMs: 60000 });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ success: true, ...result }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "simulator.clone",
+    "Clone a shut down simulator, including its installed apps and settings, into a new device",
+    SimulatorCloneInputSchema.shape,
+    async (args) => {
+      try {
+        const source = await requireDevice(args.device);
+        const device = await withLock(deviceResource(source.udid), "clone", async () => {
+          return cloneDevice(source.udid, args.name);
+        }, { timeoutMs: 120000 });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ success: true, source: source.udid, device }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "simulator.delete",
+    "Delete a simulator device and its data. A booted device is shut down first",
+    SimulatorDeleteInputSchema.shape,
+    async (args) => {
+      try {
+        const target = await requireDevice(args.device);
+        const device = await withLock(deviceResource(target.udid), "delete", async () => {
+          // A session pinned to the device cannot outlive it
+          if (stateManager.getDetoxSessions().has(target.udid)) {
+            await stopDetoxSession(target.udid);
+          }
+          return deleteDevice(target.udid);
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ success: true, deleted: device, simulators: stateManager.getSimulators() }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "simulator.list_device_types",
+    "List the device types and installed runtimes simulator.create accepts",
+    SimulatorListDeviceTypesInputSchema.shape,
+    async (args) => {
+      try {
+        const [deviceTypes, runtimes] = await Promise.all([listDeviceTypes(), listRuntimes()]);
+        const filter = args.filter?.toLowerCase();
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                deviceTypes: filter
+                  ? deviceTypes.filter((type) => type.name.toLowerCase().includes(filter))
+                  : deviceTypes,
+                runtimes: runtimes
+                  .filter((runtime) => runtime.isAvailable !== false)
+                  .map(({ supportedDeviceTypes: _supported, ...runtime }) => runtime),
+              }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
     "simulator.screenshot",
     "Take a screenshot of the booted simulator",
     SimulatorScreenshotInputSchema.shape,
     async (args) => {
       try {
-        const result = await takeScreenshot(args.name);
+        const result = await takeScreenshot(args.name, args.device);
         return {
           content: [
             {
@@ -220,13 +436,13 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
+  registry.tool(
     "simulator.record_video.start",
     "Start recording video of the simulator screen",
     VideoRecordingInputSchema.shape,
     async (args) => {
       try {
-        const result = await startVideoRecording(args.name);
+        const result = await startVideoRecording(args.name, args.device);
         return {
           content: [
             {
@@ -241,13 +457,13 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
+  registry.tool(
     "simulator.record_video.stop",
     "Stop video recording and save the file",
-    {},
-    async () => {
+    DeviceTargetInputSchema.shape,
+    async (args) => {
       try {
-        const result = await stopVideoRecording();
+        const result = await stopVideoRecording(args.device);
         return {
           content: [
             {
@@ -262,13 +478,13 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
+  registry.tool(
     "simulator.log_stream.start",
     "Start streaming simulator system logs",
-    {},
-    async () => {
+    DeviceTargetInputSchema.shape,
+    async (args) => {
       try {
-        const result = await startLogStream();
+        const result = await startLogStream(args.device);
         return {
           content: [
             {
@@ -283,13 +499,13 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
+  registry.tool(
     "simulator.log_stream.stop",
     "Stop streaming simulator system logs",
-    {},
-    async () => {
+    DeviceTargetInputSchema.shape,
+    async (args) => {
       try {
-        await stopLogStream();
+        await stopLogStream(args.device);
         return {
           content: [
             {
@@ -306,7 +522,7 @@ export function createMcpServer(): McpServer {
 
   // === EXPO TOOLS ===
 
-  server.tool(
+  registry.tool(
     "expo.start",
     "Start the Expo/Metro development server",
     ExpoStartInputSchema.shape,
@@ -329,20 +545,939 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
-    "expo.stop",
-    "Stop the Expo/Metro development server",
-    {},
-    async () => {
+  registry.tool(
+    "expo.stop",
+    "Stop the Expo/Metro development server",
+    {},
+    async () => {
+      try {
+        await stopExpo();
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ success: true, message: "Expo stopped" }),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "expo.status",
+    "Get the current status of Expo/Metro",
+    {},
+    async () => {
+      try {
+        const status = getExpoStatus();
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(status, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "expo.logs.tail",
+    "Get recent Expo/Metro logs",
+    ExpoLogsTailInputSchema.shape,
+    async (args) => {
+      try {
+        const logs = getExpoLogsTail(args.lines);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(logs, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "expo.reload",
+    "Reload the app in the simulator",
+    {},
+    async () => {
+      try {
+        await reloadApp();
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ success: true, message: "App reload triggered" }),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  // === DETOX SESSION TOOLS ===
+
+  registry.tool(
+    "detox.session.start",
+    "Start a Detox testing session. Required before running UI actions. Pass device to run one session per simulator side by side.",
+    DetoxSessionStartInputSchema.shape,
+    async (args) => {
+      try {
+        const udid = args.device ? (await requireDevice(args.device)).udid : undefined;
+        const lockUdid = udid ?? (await resolveDeviceUdid());
+        const result = await withLock(deviceResource(lockUdid), "detox.session.start", async () => {
+          return startDetoxSession(args.configuration, {
+            worker: args.worker,
+            launch: args.launch,
+            artifacts: args.artifacts,
+            device: udid,
+          });
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ success: true, ...result }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "detox.session.stop",
+    "Stop the current Detox testing session",
+    DeviceTargetInputSchema.shape,
+    async (args) => {
+      try {
+        await stopDetoxSession(args.device);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ success: true, message: "Detox session stopped" }),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "detox.healthcheck",
+    "Check if Detox session is ready",
+    DeviceTargetInputSchema.shape,
+    async (args) => {
+      try {
+        const result = await healthCheck(args.device);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "detox.configurations",
+    "List the project's Detox configurations (device type, simulator query, app binary) and check that each binary exists and a matching simulator is available",
+    DetoxConfigurationsInputSchema.shape,
+    async (args) => {
+      try {
+        const result = await listDetoxConfigurations({ validate: args.validate });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ success: true, ...result }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "detox.build",
+    "Build the app for a Detox configuration (detox build). Skips the build when the native fingerprint (ios/, Podfile.lock, app.json plugins) matches a cached binary; reports build time and cache hit/miss.",
+    DetoxBuildInputSchema.shape,
+    async (args) => {
+      try {
+        const result = await withLock("build", "detox.build", async () => {
+          return buildApp(args);
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "detox.run_tests",
+    "Run the project's Detox e2e tests (file globs, test-name pattern, retries, shard) and return per-test results with durations, failure messages and artifacts of failing tests",
+    DetoxRunTestsInputSchema.shape,
+    async (args) => {
+      try {
+        const udid = args.device ? (await requireDevice(args.device)).udid : undefined;
+        const lockUdid = udid ?? (await resolveDeviceUdid());
+        const result = await withLock(deviceResource(lockUdid), "detox.run_tests", async () => {
+          return runTestSuites({ ...args, device: udid });
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "detox.flakiness",
+    "Report which actions and selectors are stable, flaky or broken across calls and sessions, from the outcomes of every Detox action",
+    DetoxFlakinessInputSchema.shape,
+    async (args) => {
+      try {
+        if (args.reset) {
+          const cleared = await flakeTracker.reset();
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ success: true, cleared }, null, 2),
+              },
+            ],
+          };
+        }
+
+        const report = await flakeTracker.getReport({ status: args.status, kind: args.kind });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ success: true, ...report }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "detox.sync",
+    "Enable/disable Detox synchronization and set the URL blacklist for the session; without arguments, report the current settings",
+    DetoxSyncInputSchema.shape,
+    async (args) => {
+      try {
+        const result = await setDetoxSync(args, args.device);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "session.export_detox_test",
+    "Export the successful actions (and optionally assertions) of the current Detox session as a runnable e2e/<name>.test.js",
+    SessionExportDetoxTestInputSchema.shape,
+    async (args) => {
+      try {
+        const result = await exportDetoxTest(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ success: true, ...result }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  // === APP & DEVICE TOOLS (via Detox, or simctl with a bundle ID) ===
+
+  registry.tool(
+    "app.launch",
+    "Launch the app with Detox launch options (newInstance, delete, launchArgs, permissions, url, ...). With bundleId, launch an installed app directly via simctl with args, env and optional console capture",
+    AppLaunchInputSchema.shape,
+    async (args) => {
+      try {
+        const { device, bundleId, args: appArgs, env, captureConsoleMs, ...launchOptions } = args;
+        if (bundleId) {
+          const udid = await resolveDeviceUdid(device);
+          const result = await withLock(deviceResource(udid), "app.launch", () =>
+            launchSimulatorApp(
+              bundleId,
+              { args: appArgs, env, captureConsoleMs, terminateExisting: launchOptions.newInstance },
+              udid
+            )
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify({ success: true, ...result }, null, 2) }],
+          };
+        }
+
+        const result = await runDetoxAction({
+          actionName: "launchApp",
+          actionSnippet: generateLaunchAppSnippet(launchOptions),
+          launchApp: false,
+          record: "action",
+          appState: "foreground",
+          device,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "app.terminate",
+    "Terminate the app under test, or with bundleId any running app via simctl. Later UI actions do not relaunch the app under test until app.launch",
+    AppTerminateInputSchema.shape,
+    async (args) => {
+      try {
+        const { bundleId } = args;
+        if (bundleId) {
+          const udid = await resolveDeviceUdid(args.device);
+          const result = await withLock(deviceResource(udid), "app.terminate", () =>
+            terminateSimulatorApp(bundleId, udid)
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify({ success: true, ...result }, null, 2) }],
+          };
+        }
+
+        const result = await runDetoxAction({
+          actionName: "terminateApp",
+          actionSnippet: generateTerminateAppSnippet(),
+          launchApp: false,
+          record: "action",
+          appState: "terminated",
+          device: args.device,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "app.install",
+    "Install a built .app bundle, or a .tar.gz archive containing one, on the simulator via simctl",
+    AppInstallInputSchema.shape,
+    async (args) => {
+      try {
+        const udid = await resolveDeviceUdid(args.device);
+        const result = await withLock(deviceResource(udid), "app.install", () => installApp(args.path, udid), {
+          timeoutMs: 300000,
+        });
+        return {
+          content: [{ type: "text", text: JSON.stringify({ success: true, ...result }, null, 2) }],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "app.uninstall",
+    "Uninstall an app from the simulator via simctl",
+    AppBundleInputSchema.shape,
+    async (args) => {
+      try {
+        const udid = await resolveDeviceUdid(args.device);
+        const result = await withLock(deviceResource(udid), "app.uninstall", () => uninstallApp(args.bundleId, udid));
+        return {
+          content: [{ type: "text", text: JSON.stringify({ success: true, ...result }, null, 2) }],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "app.list",
+    "List the apps installed on the simulator with their bundle IDs and versions",
+    AppListInputSchema.shape,
+    async (args) => {
+      try {
+        const apps = await listApps(args.device, { includeSystem: args.includeSystem });
+        return {
+          content: [{ type: "text", text: JSON.stringify({ apps }, null, 2) }],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "app.info",
+    "Get an installed app's bundle ID, version and app, data and app group container paths",
+    AppBundleInputSchema.shape,
+    async (args) => {
+      try {
+        const info = await getAppInfo(args.bundleId, args.device);
+        return {
+          content: [{ type: "text", text: JSON.stringify(info, null, 2) }],
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "app.reload_rn",
+    "Reload the React Native bundle without restarting the app",
+    DeviceTargetInputSchema.shape,
+    async (args) => {
+      try {
+        const result = await runDetoxAction({
+          actionName: "reloadReactNative",
+          actionSnippet: generateReloadReactNativeSnippet(),
+          launchApp: false,
+          record: "action",
+          device: args.device,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "device.set_orientation",
+    "Rotate the device to portrait or landscape",
+    DeviceSetOrientationInputSchema.shape,
+    async (args) => {
+      try {
+        const result = await runDetoxAction({
+          actionName: `setOrientation:${args.orientation}`,
+          actionSnippet: generateSetOrientationSnippet(args.orientation),
+          launchApp: false,
+          record: "action",
+          device: args.device,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "device.shake",
+    "Shake the device (opens the React Native dev menu in debug builds)",
+    DeviceTargetInputSchema.shape,
+    async (args) => {
+      try {
+        const result = await runDetoxAction({
+          actionName: "shake",
+          actionSnippet: generateShakeSnippet(),
+          launchApp: false,
+          record: "action",
+          device: args.device,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "device.send_to_home",
+    "Send the app to the background by going to the home screen. Later UI actions do not bring it back until app.launch",
+    DeviceTargetInputSchema.shape,
+    async (args) => {
+      try {
+        const result = await runDetoxAction({
+          actionName: "sendToHome",
+          actionSnippet: generateSendToHomeSnippet(),
+          launchApp: false,
+          record: "action",
+          appState: "background",
+          device: args.device,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  // === UI TOOLS (via Detox) ===
+
+  registry.tool(
+    "ui.tap",
+    "Tap on an element identified by selector",
+    UiTapInputSchema.shape,
+    async (args) => {
+      try {
+        const snippet = generateTapSnippet({
+          selector: args.selector,
+          x: args.x,
+          y: args.y,
+        });
+        const result = await runDetoxAction({
+          actionName: `tap:${describeSelector(args.selector)}`,
+          actionSnippet: snippet,
+          selector: args.selector,
+          record: "action",
+          device: args.device,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "ui.long_press",
+    "Long press on an element",
+    UiLongPressInputSchema.shape,
+    async (args) => {
+      try {
+        const snippet = generateLongPressSnippet({
+          selector: args.selector,
+          duration: args.duration,
+        });
+        const result = await runDetoxAction({
+          actionName: `longPress:${describeSelector(args.selector)}`,
+          actionSnippet: snippet,
+          selector: args.selector,
+          record: "action",
+          device: args.device,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "ui.swipe",
+    "Swipe on an element in a direction",
+    UiSwipeInputSchema.shape,
+    async (args) => {
+      try {
+        const snippet = generateSwipeSnippet({
+          selector: args.selector,
+          direction: args.direction,
+          speed: args.speed,
+          percentage: args.percentage,
+        });
+        const result = await runDetoxAction({
+          actionName: `swipe:${args.direction}:${describeSelector(args.selector)}`,
+          actionSnippet: snippet,
+          selector: args.selector,
+          record: "action",
+          device: args.device,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "ui.scroll",
+    "Scroll within a scrollable element",
+    UiScrollInputSchema.shape,
+    async (args) => {
+      try {
+        const snippet = generateScrollSnippet({
+          selector: args.selector,
+          direction: args.direction,
+          amount: args.amount,
+        });
+        const result = await runDetoxAction({
+          actionName: `scroll:${args.direction}:${describeSelector(args.selector)}`,
+          actionSnippet: snippet,
+          selector: args.selector,
+          record: "action",
+          device: args.device,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "ui.scroll_to_edge",
+    "Scroll a scrollable element all the way to an edge",
+    UiScrollToEdgeInputSchema.shape,
+    async (args) => {
+      try {
+        const snippet = generateScrollToEdgeSnippet(args);
+        const result = await runDetoxAction({
+          actionName: `scrollTo:${args.edge}:${describeSelector(args.selector)}`,
+          actionSnippet: snippet,
+          selector: args.selector,
+          record: "action",
+          device: args.device,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "ui.scroll_until_visible",
+    "Scroll a container until an element becomes visible",
+    UiScrollUntilVisibleInputSchema.shape,
+    async (args) => {
+      try {
+        const snippet = generateScrollUntilVisibleSnippet(args);
+        const result = await runDetoxAction({
+          actionName: `scrollUntilVisible:${describeSelector(args.selector)}`,
+          actionSnippet: snippet,
+          selector: args.selector,
+          record: "action",
+          device: args.device,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "ui.pinch",
+    "Pinch an element to zoom in (scale > 1) or out (scale < 1)",
+    UiPinchInputSchema.shape,
+    async (args) => {
+      try {
+        const snippet = generatePinchSnippet(args);
+        const result = await runDetoxAction({
+          actionName: `pinch:${args.scale}:${describeSelector(args.selector)}`,
+          actionSnippet: snippet,
+          selector: args.selector,
+          record: "action",
+          device: args.device,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "ui.multi_tap",
+    "Tap an element several times in a row (e.g. double tap)",
+    UiMultiTapInputSchema.shape,
+    async (args) => {
+      try {
+        const snippet = generateMultiTapSnippet(args);
+        const result = await runDetoxAction({
+          actionName: `multiTap:${args.times}:${describeSelector(args.selector)}`,
+          actionSnippet: snippet,
+          selector: args.selector,
+          record: "action",
+          device: args.device,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "ui.tap_at",
+    "Tap at a device point without a selector (e.g. on a map or canvas)",
+    UiTapAtInputSchema.shape,
+    async (args) => {
+      try {
+        const snippet = generateTapAtSnippet(args);
+        const result = await runDetoxAction({
+          actionName: `tapAt:${args.x},${args.y}`,
+          actionSnippet: snippet,
+          record: "action",
+          device: args.device,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "ui.drag",
+    "Long press an element and drag it onto a target element or device point",
+    UiDragInputSchema.shape,
+    async (args) => {
+      try {
+        const snippet = generateDragSnippet(args);
+        const result = await runDetoxAction({
+          actionName: describeDrag(args),
+          actionSnippet: snippet,
+          selector: args.selector,
+          record: "action",
+          device: args.device,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "ui.type",
+    "Type text into an input element",
+    UiTypeInputSchema.shape,
+    async (args) => {
+      try {
+        const snippet = generateTypeSnippet({
+          selector: args.selector,
+          text: args.text,
+          replace: args.replace,
+        });
+        const result = await runDetoxAction({
+          actionName: `type:${describeSelector(args.selector)}`,
+          actionSnippet: snippet,
+          selector: args.selector,
+          record: "action",
+          device: args.device,
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: !result.success,
+        };
+      } catch (error) {
+        return handleToolError(error);
+      }
+    }
+  );
+
+  registry.tool(
+    "ui.press_key",
+    "Press a keyboard key (return, backspace, delete, next field, dismiss keyboard) on an input",
+    UiPressKeyInputSchema.shape,
+    async (args) => {
       try {
-        await stopExpo();
+        const snippet = generatePressKeySnippet(args.key, args.selector);
+        const result = await runDetoxAction({
+          actionName: describePressKey(args.key, args.selector),
+          actionSnippet: snippet,
+          selector: args.selector,
+          record: "action",
+          device: args.device,
+        });
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify({ success: true, message: "Expo stopped" }),
+              text: JSON.stringify(result, null, 2),
             },
           ],
+          isError: !result.success,
         };
       } catch (error) {
         return handleToolError(error);
@@ -350,20 +1485,21 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
-    "expo.status",
-    "Get the current status of Expo/Metro",
-    {},
-    async () => {
+  registry.tool(
+    "ui.keyboard",
+    "Report whether the software keyboard is shown and its frame",
+    DeviceTargetInputSchema.shape,
+    async (args) => {
       try {
-        const status = getExpoStatus();
+        const result = await getKeyboardState(args.device);
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(status, null, 2),
+              text: JSON.stringify(result, null, 2),
             },
           ],
+          isError: !result.success,
         };
       } catch (error) {
         return handleToolError(error);
@@ -371,20 +1507,33 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
-    "expo.logs.tail",
-    "Get recent Expo/Metro logs",
-    ExpoLogsTailInputSchema.shape,
+  registry.tool(
+    "ui.wait_for",
+    "Wait for an element to be visible or exist",
+    UiWaitForInputSchema.shape,
     async (args) => {
       try {
-        const logs = getExpoLogsTail(args.lines);
+        const snippet = generateWaitForSnippet({
+          selector: args.selector,
+          visible: args.visible,
+          timeout: args.timeout,
+        });
+        const result = await runDetoxAction({
+          actionName: `waitFor:${describeSelector(args.selector)}`,
+          actionSnippet: snippet,
+          timeoutMs: (args.timeout ?? 30000) + 5000, // Add buffer
+          selector: args.selector,
+          record: "action",
+          device: args.device,
+        });
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(logs, null, 2),
+              text: JSON.stringify(result, null, 2),
             },
           ],
+          isError: !result.success,
         };
       } catch (error) {
         return handleToolError(error);
@@ -392,20 +1541,32 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
-    "expo.reload",
-    "Reload the app in the simulator",
-    {},
-    async () => {
+  registry.tool(
+    "ui.assert_text",
+    "Assert that an element has specific text content",
+    UiAssertTextInputSchema.shape,
+    async (args) => {
       try {
-        await reloadApp();
+        const snippet = generateAssertTextSnippet({
+          selector: args.selector,
+          text: args.text,
+          exact: args.exact,
+        });
+        const result = await runDetoxAction({
+          actionName: `assertText:${describeSelector(args.selector)}`,
+          actionSnippet: snippet,
+          selector: args.selector,
+          record: "assertion",
+          device: args.device,
+        });
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify({ success: true, message: "App reload triggered" }),
+              text: JSON.stringify(result, null, 2),
             },
           ],
+          isError: !result.success,
         };
       } catch (error) {
         return handleToolError(error);
@@ -413,22 +1574,21 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  // === DETOX SESSION TOOLS ===
-
-  server.tool(
-    "detox.session.start",
-    "Start a Detox testing session. Required before running UI actions.",
-    DetoxSessionStartInputSchema.shape,
+  registry.tool(
+    "ui.assert",
+    "Assert element state (visible, exists, text, label, id, value, toggle, slider position, focus), optionally negated; failures report expected vs actual",
+    UiAssertInputSchema,
     async (args) => {
       try {
-        const result = await startDetoxSession(args.configuration);
+        const result = await runAssertion(args, args.device);
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify({ success: true, ...result }, null, 2),
+              text: JSON.stringify(result, null, 2),
             },
           ],
+          isError: !result.success,
         };
       } catch (error) {
         return handleToolError(error);
@@ -436,20 +1596,21 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
-    "detox.session.stop",
-    "Stop the current Detox testing session",
-    {},
-    async () => {
+  registry.tool(
+    "ui.get_attributes",
+    "Read element attributes (text, label, value, placeholder, enabled, visible, frame, identifier)",
+    UiGetAttributesInputSchema.shape,
+    async (args) => {
       try {
-        await stopDetoxSession();
+        const result = await getElementAttributes(args.selector, { all: args.all, device: args.device });
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify({ success: true, message: "Detox session stopped" }),
+              text: JSON.stringify(result, null, 2),
             },
           ],
+          isError: !result.success,
         };
       } catch (error) {
         return handleToolError(error);
@@ -457,20 +1618,28 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
-    "detox.healthcheck",
-    "Check if Detox session is ready",
-    {},
-    async () => {
+  registry.tool(
+    "ui.get_text",
+    "Read the text shown by an element (text, falling back to label and value)",
+    UiGetTextInputSchema.shape,
+    async (args) => {
       try {
-        const result = await healthCheck();
+        const result = await getElementAttributes(args.selector, { all: args.all, device: args.device });
+        let response: Record<string, unknown> = { ...result };
+        if (result.success) {
+          const { element, elements, ...rest } = result;
+          response = args.all
+            ? { ...rest, texts: (elements ?? []).map(elementText) }
+            : { ...rest, text: elementText(element) };
+        }
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(result, null, 2),
+              text: JSON.stringify(response, null, 2),
             },
           ],
+          isError: !result.success,
         };
       } catch (error) {
         return handleToolError(error);
@@ -478,23 +1647,18 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  // === UI TOOLS (via Detox) ===
-
-  server.tool(
-    "ui.tap",
-    "Tap on an element identified by selector",
-    UiTapInputSchema.shape,
+  registry.tool(
+    "ui.hierarchy",
+    "Dump the native view hierarchy as a pruned JSON tree (class, testID, label, text, frame)",
+    UiHierarchyInputSchema.shape,
     async (args) => {
       try {
-        const snippet = generateTapSnippet({
-          selector: args.selector,
-          x: args.x,
-          y: args.y,
-        });
-        const result = await runDetoxAction({
-          actionName: `tap:${describeSelector(args.selector)}`,
-          actionSnippet: snippet,
-        });
+        const result = await getViewHierarchy({
+          accessibleOnly: args.accessibleOnly,
+          visibleOnly: args.visibleOnly,
+          compact: args.compact,
+          maxDepth: args.maxDepth,
+        }, args.device);
         return {
           content: [
             {
@@ -510,20 +1674,13 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
-    "ui.long_press",
-    "Long press on an element",
-    UiLongPressInputSchema.shape,
+  registry.tool(
+    "ui.run_snippet",
+    "Run a raw Detox snippet (element, by, expect, waitFor, device only); rejected snippets return a violation report",
+    UiRunSnippetInputSchema.shape,
     async (args) => {
       try {
-        const snippet = generateLongPressSnippet({
-          selector: args.selector,
-          duration: args.duration,
-        });
-        const result = await runDetoxAction({
-          actionName: `longPress:${describeSelector(args.selector)}`,
-          actionSnippet: snippet,
-        });
+        const result = await runSnippet(args);
         return {
           content: [
             {
@@ -539,21 +1696,23 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
-    "ui.swipe",
-    "Swipe on an element in a direction",
-    UiSwipeInputSchema.shape,
+  registry.tool(
+    "ui.batch",
+    "Run several UI actions in one Detox test. Returns per-action timing and stops at the first failure.",
+    UiBatchInputSchema.shape,
     async (args) => {
       try {
-        const snippet = generateSwipeSnippet({
-          selector: args.selector,
-          direction: args.direction,
-          speed: args.speed,
-          percentage: args.percentage,
-        });
-        const result = await runDetoxAction({
-          actionName: `swipe:${args.direction}:${describeSelector(args.selector)}`,
-          actionSnippet: snippet,
+        const steps = args.actions.map((action): ActionStep => ({
+          name: describeBatchAction(action),
+          snippet: generateBatchActionSnippet(action),
+          record: action.action === "assert" || action.action === "assert_text" ? "assertion" : "action",
+          selector: "selector" in action ? action.selector : undefined,
+        }));
+        const result = await runDetoxBatch({
+          steps,
+          timeoutMs: args.timeoutMs,
+          artifacts: args.artifacts,
+          device: args.device,
         });
         return {
           content: [
@@ -570,29 +1729,20 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
-    "ui.scroll",
-    "Scroll within a scrollable element",
-    UiScrollInputSchema.shape,
+  registry.tool(
+    "ui.screenshot",
+    "Take a screenshot of the current UI state (via simctl)",
+    SimulatorScreenshotInputSchema.shape,
     async (args) => {
       try {
-        const snippet = generateScrollSnippet({
-          selector: args.selector,
-          direction: args.direction,
-          amount: args.amount,
-        });
-        const result = await runDetoxAction({
-          actionName: `scroll:${args.direction}:${describeSelector(args.selector)}`,
-          actionSnippet: snippet,
-        });
+        const result = await takeScreenshot(args.name ?? "ui-screenshot", args.device);
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(result, null, 2),
+              text: JSON.stringify({ success: true, ...result }, null, 2),
             },
           ],
-          isError: !result.success,
         };
       } catch (error) {
         return handleToolError(error);
@@ -600,20 +1750,20 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
-    "ui.type",
-    "Type text into an input element",
-    UiTypeInputSchema.shape,
+  // === FLOW RUNNER ===
+
+  // Tool executor for flow.run - routes steps through the same registry as direct calls
+  const toolExecutor: ToolExecutor = (toolName, input) => registry.execute(toolName, input);
+
+  registry.tool(
+    "flow.run",
+    "Execute a sequence of tool calls (macro flow). Any registered tool can be used as a step.",
+    FlowRunInputSchema.shape,
     async (args) => {
       try {
-        const snippet = generateTypeSnippet({
-          selector: args.selector,
-          text: args.text,
-          replace: args.replace,
-        });
-        const result = await runDetoxAction({
-          actionName: `type:${describeSelector(args.selector)}`,
-          actionSnippet: snippet,
+        const result = await runFlow(args.steps, toolExecutor, {
+          stopOnError: args.stopOnError,
+          variables: args.variables,
         });
         return {
           content: [
@@ -630,25 +1780,23 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
-    "ui.press_key",
-    "Press a special key (return, backspace, delete)",
-    UiPressKeyInputSchema.shape,
+  // === SAVED FLOWS ===
+
+  registry.tool(
+    "flow.save",
+    "Save a named flow (steps, parameters, description, tags) to the project's flow library",
+    FlowSaveInputSchema.shape,
     async (args) => {
       try {
-        const snippet = generatePressKeySnippet(args.key);
-        const result = await runDetoxAction({
-          actionName: `pressKey:${args.key}`,
-          actionSnippet: snippet,
-        });
+        const { format, overwrite, ...flow } = args;
+        const result = await saveFlow(flow, { format, overwrite });
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(result, null, 2),
+              text: JSON.stringify({ success: true, ...result }, null, 2),
             },
           ],
-          isError: !result.success,
         };
       } catch (error) {
         return handleToolError(error);
@@ -656,30 +1804,20 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
-    "ui.wait_for",
-    "Wait for an element to be visible or exist",
-    UiWaitForInputSchema.shape,
+  registry.tool(
+    "flow.list",
+    "List saved flows in the project's flow library",
+    FlowListInputSchema.shape,
     async (args) => {
       try {
-        const snippet = generateWaitForSnippet({
-          selector: args.selector,
-          visible: args.visible,
-          timeout: args.timeout,
-        });
-        const result = await runDetoxAction({
-          actionName: `waitFor:${describeSelector(args.selector)}`,
-          actionSnippet: snippet,
-          timeoutMs: (args.timeout ?? 30000) + 5000, // Add buffer
-        });
+        const flows = await listFlows(args.tag);
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(result, null, 2),
+              text: JSON.stringify({ flowsDir: getFlowsDir(), flows }, null, 2),
             },
           ],
-          isError: !result.success,
         };
       } catch (error) {
         return handleToolError(error);
@@ -687,29 +1825,20 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
-    "ui.assert_text",
-    "Assert that an element has specific text content",
-    UiAssertTextInputSchema.shape,
+  registry.tool(
+    "flow.show",
+    "Show the full definition of a saved flow",
+    FlowShowInputSchema.shape,
     async (args) => {
       try {
-        const snippet = generateAssertTextSnippet({
-          selector: args.selector,
-          text: args.text,
-          exact: args.exact,
-        });
-        const result = await runDetoxAction({
-          actionName: `assertText:${describeSelector(args.selector)}`,
-          actionSnippet: snippet,
-        });
+        const { flow, path } = await loadFlow(args.name);
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(result, null, 2),
+              text: JSON.stringify({ path, ...flow }, null, 2),
             },
           ],
-          isError: !result.success,
         };
       } catch (error) {
         return handleToolError(error);
@@ -717,20 +1846,26 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
-    "ui.screenshot",
-    "Take a screenshot of the current UI state (via simctl)",
-    SimulatorScreenshotInputSchema.shape,
+  registry.tool(
+    "flow.run_saved",
+    "Run a saved flow with arguments for its parameters",
+    FlowRunSavedInputSchema.shape,
     async (args) => {
       try {
-        const result = await takeScreenshot(args.name ?? "ui-screenshot");
+        const { flow } = await loadFlow(args.name);
+        const variables = resolveFlowVariables(flow, args.args);
+        const result = await runFlow(flow.steps, toolExecutor, {
+          stopOnError: args.stopOnError ?? flow.stopOnError,
+          variables,
+        });
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify({ success: true, ...result }, null, 2),
+              text: JSON.stringify({ flow: flow.name, ...result }, null, 2),
             },
           ],
+          isError: !result.success,
         };
       } catch (error) {
         return handleToolError(error);
@@ -738,74 +1873,46 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  // === FLOW RUNNER ===
-
-  // Tool executor for flow.run - maps tool names to implementations
-  const toolExecutor: ToolExecutor = async (toolName, input) => {
-    // This is a simplified executor - in production you might want to
-    // route through the actual MCP tool handlers
-    try {
-      switch (toolName) {
-        case "ui.tap":
-          const tapSnippet = generateTapSnippet({
-            selector: input.selector as { by: "id" | "text" | "label"; value: string },
-            x: input.x as number | undefined,
-            y: input.y as number | undefined,
-          });
-          const tapResult = await runDetoxAction({
-            actionName: `tap:${(input.selector as { value: string }).value}`,
-            actionSnippet: tapSnippet,
-          });
-          return { success: tapResult.success, result: tapResult, error: tapResult.error?.message };
-
-        case "ui.type":
-          const typeSnippet = generateTypeSnippet({
-            selector: input.selector as { by: "id" | "text" | "label"; value: string },
-            text: input.text as string,
-            replace: input.replace as boolean | undefined,
-          });
-          const typeResult = await runDetoxAction({
-            actionName: `type:${(input.selector as { value: string }).value}`,
-            actionSnippet: typeSnippet,
-          });
-          return { success: typeResult.success, result: typeResult, error: typeResult.error?.message };
-
-        case "ui.wait_for":
-          const waitSnippet = generateWaitForSnippet({
-            selector: input.selector as { by: "id" | "text" | "label"; value: string },
-            visible: input.visible as boolean | undefined,
-            timeout: input.timeout as number | undefined,
-          });
-          const waitResult = await runDetoxAction({
-            actionName: `waitFor:${(input.selector as { value: string }).value}`,
-            actionSnippet: waitSnippet,
-          });
-          return { success: waitResult.success, result: waitResult, error: waitResult.error?.message };
-
-        case "simulator.screenshot":
-          const screenshot = await takeScreenshot(input.name as string | undefined);
-          return { success: true, result: screenshot };
-
-        default:
-          return { success: false, error: `Unknown tool: ${toolName}` };
-      }
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
-      };
-    }
-  };
+  // === MAESTRO COMPATIBILITY ===
 
-  server.tool(
-    "flow.run",
-    "Execute a sequence of tool calls (macro flow)",
-    FlowRunInputSchema.shape,
+  registry.tool(
+    "flow.run_maestro",
+    "Run a Maestro YAML flow (tapOn, inputText, assertVisible, scrollUntilVisible, ...) through Detox. " +
+      "Returns per-command results; commands without a Detox equivalent are reported as unsupported.",
+    FlowRunMaestroInputSchema.shape,
     async (args) => {
       try {
-        const result = await runFlow(args.steps, toolExecutor, {
+        if (!args.filePath && !args.content) {
+          throw createError("MAESTRO_PARSE_FAILED", "Either filePath or content must be provided");
+        }
+
+        const flow = args.filePath
+          ? await parseMaestroFile(args.filePath)
+          : parseMaestroContent(args.content!);
+
+        if (args.dryRun) {
+          const commands = previewMaestroFlow(flow, args.env);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  appId: flow.header.appId,
+                  totalCommands: commands.length,
+                  unsupported: commands.filter((c) => !c.supported).length,
+                  commands,
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        const result = await runMaestroFlow(flow, toolExecutor, {
+          env: args.env,
           stopOnError: args.stopOnError,
+          skipUnsupported: args.skipUnsupported,
         });
+
         return {
           content: [
             {
@@ -823,7 +1930,7 @@ export function createMcpServer(): McpServer {
 
   // === VISUAL REGRESSION TOOLS ===
 
-  server.tool(
+  registry.tool(
     "visual.baseline.save",
     "Save a new baseline screenshot for visual regression testing",
     {
@@ -832,7 +1939,7 @@ export function createMcpServer(): McpServer {
     },
     async (args) => {
       try {
-        const result = await saveBaseline(args.name, { overwrite: args.overwrite });
+        const result = await saveBaseline(args.name, { overwrite: args.overwrite, device: args.device });
         return {
           content: [
             {
@@ -847,13 +1954,13 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
+  registry.tool(
     "visual.baseline.list",
     "List all saved baselines for the current configuration",
-    {},
-    async () => {
+    DeviceTargetInputSchema.shape,
+    async (args) => {
       try {
-        const baselines = listBaselines();
+        const baselines = listBaselines(args.device);
         return {
           content: [
             {
@@ -868,13 +1975,13 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
+  registry.tool(
     "visual.baseline.delete",
     "Delete a saved baseline",
     VisualBaselineSaveInputSchema.shape,
     async (args) => {
       try {
-        deleteBaseline(args.name);
+        deleteBaseline(args.name, args.device);
         return {
           content: [
             {
@@ -889,7 +1996,7 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
+  registry.tool(
     "visual.compare",
     "Compare current screenshot against a saved baseline",
     VisualCompareInputSchema.shape,
@@ -897,6 +2004,7 @@ export function createMcpServer(): McpServer {
       try {
         const result = await compareWithBaseline(args.name, {
           threshold: args.threshold,
+          device: args.device,
         });
 
         // Generate markdown report for context
@@ -921,7 +2029,7 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
+  registry.tool(
     "visual.compare_to_design",
     "Compare current simulator screenshot against a pasted Figma/design image. Use this to verify that the implementation matches the design mockup. Returns images for LLM visual analysis alongside quantitative pixelmatch data.",
     VisualCompareToDesignInputSchema.shape,
@@ -932,6 +2040,7 @@ export function createMcpServer(): McpServer {
           threshold: args.threshold,
           region: args.region,
           resizeStrategy: args.resizeStrategy,
+          device: args.device,
         });
 
         // Generate markdown report for context
@@ -987,7 +2096,7 @@ export function createMcpServer(): McpServer {
 
   // === ACCEPTANCE CRITERIA TOOLS ===
 
-  server.tool(
+  registry.tool(
     "acceptance.parse",
     "Parse an acceptance criteria markdown file and return structured test criteria. " +
       "Use this to understand what criteria exist before running tests.",
@@ -1035,7 +2144,7 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
+  registry.tool(
     "acceptance.run",
     "Run acceptance criteria tests against current app state. Requires Detox session. " +
       "Returns report with pass/fail/blocked status and missing testIDs for blocked tests.",
@@ -1064,6 +2173,7 @@ export function createMcpServer(): McpServer {
           skipManual: args.skipManual,
           captureEvidenceOnPass: args.captureEvidenceOnPass,
           timeout: args.timeout,
+          retries: args.retries,
         });
 
         const totalDuration = Date.now() - startTime;
@@ -1109,7 +2219,7 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
+  registry.tool(
     "acceptance.run_flow",
     "Execute a specific test flow from acceptance criteria. " +
       "Returns step-by-step results with evidence and lists missing testIDs that blocked completion.",
@@ -1207,7 +2317,7 @@ export function createMcpServer(): McpServer {
     }
   );
 
-  server.tool(
+  registry.tool(
     "acceptance.check",
     "Check a single acceptance criterion by ID or description match. Useful for verifying specific requirements.",
     AcceptanceCheckInputSchema.shape,
@@ -1258,10 +2368,12 @@ export function createMcpServer(): McpServer {
         const result = await executeCriterionCheck(foundCriterion, {
           captureEvidence: true,
           timeout: DEFAULT_CRITERION_TIMEOUT_MS,
+          retries: args.retries,
         });
 
         // Format output
-        const statusIcon = result.status === "pass" ? "[x]" : result.status === "blocked" ? "[!]" : "[ ]";
+        const statusIcon =
+          result.status === "pass" ? "[x]" : result.status === "flaky" ? "[~]" : result.status === "blocked" ? "[!]" : "[ ]";
         const lines: string[] = [];
         lines.push(`## ${statusIcon} ${result.criterion.description}`);
         lines.push("");
@@ -1356,6 +2468,23 @@ export function createMcpServer(): McpServer {
     }
   );
 
+  server.resource(
+    "flakiness",
+    "resource://flakiness",
+    async () => {
+      const report = await flakeTracker.getReport();
+      return {
+        contents: [
+          {
+            uri: "resource://flakiness",
+            mimeType: "application/json",
+            text: JSON.stringify(report, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
   server.resource(
     "logs/detox/latest",
     "resource://logs/detox/latest",
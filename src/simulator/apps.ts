@@ -0,0 +1,362 @@
+/**
+ * App management on a simulator through simctl: install, uninstall, launch, terminate,
+ * list installed apps and look up their container paths, without Detox or Expo
+ */
+
+import { mkdtemp, readdir, readFile, rm } from "fs/promises";
+import { existsSync, statSync } from "fs";
+import { basename, join, resolve } from "path";
+import { tmpdir } from "os";
+import { fileURLToPath } from "url";
+import { execa } from "execa";
+
+import { simctl, parseSimctlError } from "./simctl.js";
+import { parseOpenStepPlist, type PlistValue } from "./plist.js";
+import { requireBootedDevice } from "./devices.js";
+import { createError } from "../core/errors.js";
+import { logger } from "../core/logger.js";
+import { artifactManager } from "../core/artifacts.js";
+import { getConfig, hasConfig } from "../config/load.js";
+
+export interface InstalledApp {
+  bundleId: string;
+  name: string;
+  version?: string;
+  buildNumber?: string;
+  // "User" or "System"
+  type: string;
+  path?: string;
+}
+
+export interface AppContainers {
+  app?: string;
+  data?: string;
+  groups: Record<string, string>;
+}
+
+export interface AppInfo extends InstalledApp {
+  device: string;
+  containers: AppContainers;
+}
+
+export interface InstallAppResult {
+  device: string;
+  path: string;
+  bundleId?: string;
+}
+
+export interface SimctlLaunchOptions {
+  args?: string[];
+  env?: Record<string, string>;
+  terminateExisting?: boolean;
+  // Capture the app's stdout and stderr to a log artifact for this long after launch
+  captureConsoleMs?: number;
+}
+
+export interface SimctlLaunchResult {
+  device: string;
+  bundleId: string;
+  pid?: number;
+  console?: {
+    stdout: ConsoleCapture;
+    stderr: ConsoleCapture;
+  };
+}
+
+export interface ConsoleCapture {
+  path: string;
+  output: string;
+}
+
+export interface SimctlTerminateResult {
+  device: string;
+  bundleId: string;
+  wasRunning: boolean;
+}
+
+// Console output returned inline; the full output stays in the log artifact
+const CONSOLE_TAIL_CHARS = 8000;
+// How deep to look for the .app bundle inside an extracted archive
+const ARCHIVE_SEARCH_DEPTH = 4;
+
+const ARCHIVE_EXTENSIONS = [".tar.gz", ".tgz"];
+
+export async function installApp(appPath: string, device?: string): Promise<InstallAppResult> {
+  const simulator = await requireBootedDevice(device);
+  // Relative paths are relative to the project, like the other path inputs
+  const source = resolve(hasConfig() ? getConfig().projectPath : process.cwd(), appPath);
+
+  if (!existsSync(source)) {
+    throw createError("APP_BUNDLE_INVALID", `App not found: ${source}`, {
+      details: "Pass the path of a built .app bundle or a .tar.gz archive containing one",
+    });
+  }
+
+  const isArchive = ARCHIVE_EXTENSIONS.some((extension) => source.endsWith(extension));
+  const extractDir = isArchive ? await mkdtemp(join(tmpdir(), "mcp-app-")) : null;
+
+  try {
+    const bundlePath = extractDir ? await extractAppBundle(source, extractDir) : source;
+    if (!bundlePath.endsWith(".app") || !statSync(bundlePath).isDirectory()) {
+      throw createError("APP_BUNDLE_INVALID", `Not an .app bundle: ${bundlePath}`, {
+        details: "Pass the path of a built .app bundle or a .tar.gz archive containing one",
+      });
+    }
+
+    logger.info("simulator", `Installing ${basename(bundlePath)} on ${simulator.deviceName}`);
+
+    const result = await simctl(["install", simulator.udid, bundlePath], { timeoutMs: 300000 });
+    if (result.exitCode !== 0) {
+      const { code, message } = parseSimctlError(result.stderr);
+      throw createError(code, message, { details: result.stderr });
+    }
+
+    // The installed copy keeps the bundle's directory name
+    const apps = await listApps(simulator.udid, { includeSystem: false });
+    const installed = apps.find((app) => app.path && basename(app.path) === basename(bundlePath));
+
+    logger.info("simulator", `Installed ${installed?.bundleId ?? basename(bundlePath)}`);
+
+    return { device: simulator.udid, path: source, bundleId: installed?.bundleId };
+  } finally {
+    if (extractDir) {
+      await rm(extractDir, { recursive: true, force: true });
+    }
+  }
+}
+
+export async function uninstallApp(bundleId: string, device?: string): Promise<{ device: string; bundleId: string }> {
+  const simulator = await requireBootedDevice(device);
+  await requireInstalledApp(bundleId, simulator.udid);
+
+  logger.info("simulator", `Uninstalling ${bundleId} from ${simulator.deviceName}`);
+
+  const result = await simctl(["uninstall", simulator.udid, bundleId], { timeoutMs: 120000 });
+  if (result.exitCode !== 0) {
+    const { code, message } = parseSimctlError(result.stderr);
+    throw createError(code, message, { details: result.stderr });
+  }
+
+  return { device: simulator.udid, bundleId };
+}
+
+export async function launchApp(
+  bundleId: string,
+  options: SimctlLaunchOptions = {},
+  device?: string
+): Promise<SimctlLaunchResult> {
+  const simulator = await requireBootedDevice(device);
+  await requireInstalledApp(bundleId, simulator.udid);
+
+  // Separate files: two redirects to one file would overwrite each other's output
+  const consolePaths = options.captureConsoleMs
+    ? {
+        stdout: await artifactManager.getLogPath(`app-${bundleId}-stdout`),
+        stderr: await artifactManager.getLogPath(`app-${bundleId}-stderr`),
+      }
+    : null;
+  const args = [
+    "launch",
+    ...(options.terminateExisting ? ["--terminate-running-process"] : []),
+    // Redirect instead of --console so simctl returns and the app keeps running
+    ...(consolePaths ? [`--stdout=${consolePaths.stdout}`, `--stderr=${consolePaths.stderr}`] : []),
+    simulator.udid,
+    bundleId,
+    ...(options.args ?? []),
+  ];
+
+  // simctl passes SIMCTL_CHILD_* variables to the launched app without the prefix
+  const env = Object.fromEntries(
+    Object.entries(options.env ?? {}).map(([key, value]) => [`SIMCTL_CHILD_${key}`, value])
+  );
+
+  logger.info("simulator", `Launching ${bundleId} on ${simulator.deviceName}`);
+
+  const result = await simctl(args, { timeoutMs: 60000, env });
+  if (result.exitCode !== 0) {
+    const { code, message } = parseSimctlError(result.stderr);
+    throw createError(code, message, { details: result.stderr });
+  }
+
+  // Output is "<bundle id>: <pid>"
+  const pid = Number(result.stdout.trim().split(":").pop());
+
+  if (!consolePaths || !options.captureConsoleMs) {
+    return { device: simulator.udid, bundleId, pid: Number.isNaN(pid) ? undefined : pid };
+  }
+
+  await new Promise((resolveWait) => setTimeout(resolveWait, options.captureConsoleMs));
+
+  return {
+    device: simulator.udid,
+    bundleId,
+    pid: Number.isNaN(pid) ? undefined : pid,
+    console: {
+      stdout: await collectConsole(consolePaths.stdout, "stdout", bundleId, simulator.udid),
+      stderr: await collectConsole(consolePaths.stderr, "stderr", bundleId, simulator.udid),
+    },
+  };
+}
+
+export async function terminateApp(bundleId: string, device?: string): Promise<SimctlTerminateResult> {
+  const simulator = await requireBootedDevice(device);
+
+  logger.info("simulator", `Terminating ${bundleId} on ${simulator.deviceName}`);
+
+  const result = await simctl(["terminate", simulator.udid, bundleId]);
+  if (result.exitCode !== 0) {
+    // Terminating an app that is not running is not an error for callers
+    if (result.stderr.includes("found nothing to terminate")) {
+      return { device: simulator.udid, bundleId, wasRunning: false };
+    }
+    const { code, message } = parseSimctlError(result.stderr);
+    throw createError(code, message, { details: result.stderr });
+  }
+
+  return { device: simulator.udid, bundleId, wasRunning: true };
+}
+
+export async function listApps(
+  device?: string,
+  options: { includeSystem?: boolean } = {}
+): Promise<InstalledApp[]> {
+  const simulator = await requireBootedDevice(device);
+
+  const result = await simctl(["listapps", simulator.udid]);
+  if (result.exitCode !== 0) {
+    const { code, message } = parseSimctlError(result.stderr);
+    throw createError(code, message, { details: result.stderr });
+  }
+
+  const plist = parseOpenStepPlist(result.stdout);
+  if (!isDict(plist)) {
+    throw createError("SIMCTL_FAILED", "Unexpected simctl listapps output", {
+      details: result.stdout.slice(0, 500),
+    });
+  }
+
+  const apps = Object.entries(plist)
+    .filter((entry): entry is [string, Record<string, PlistValue>] => isDict(entry[1]))
+    .map(([bundleId, app]) => ({
+      bundleId,
+      name: stringValue(app.CFBundleDisplayName) ?? stringValue(app.CFBundleName) ?? bundleId,
+      version: stringValue(app.CFBundleShortVersionString),
+      buildNumber: stringValue(app.CFBundleVersion),
+      type: stringValue(app.ApplicationType) ?? "User",
+      path: toPath(stringValue(app.Path)),
+    }));
+
+  return apps
+    .filter((app) => options.includeSystem || app.type !== "System")
+    .sort((a, b) => a.bundleId.localeCompare(b.bundleId));
+}
+
+export async function getAppInfo(bundleId: string, device?: string): Promise<AppInfo> {
+  const simulator = await requireBootedDevice(device);
+  const app = await requireInstalledApp(bundleId, simulator.udid);
+
+  const [appContainer, dataContainer, groupContainers] = await Promise.all(
+    ["app", "data", "groups"].map((kind) => simctl(["get_app_container", simulator.udid, bundleId, kind]))
+  );
+
+  // "groups" prints one "<group id>\t<path>" line per app group
+  const groups: Record<string, string> = {};
+  if (groupContainers.exitCode === 0) {
+    for (const line of groupContainers.stdout.split("\n")) {
+      const [group, ...path] = line.trim().split(/\s+/);
+      if (group && path.length > 0) {
+        groups[group] = toPath(path.join(" ")) ?? path.join(" ");
+      }
+    }
+  }
+
+  return {
+    ...app,
+    device: simulator.udid,
+    containers: {
+      app: appContainer.exitCode === 0 ? appContainer.stdout.trim() : app.path,
+      data: dataContainer.exitCode === 0 ? dataContainer.stdout.trim() : undefined,
+      groups,
+    },
+  };
+}
+
+async function requireInstalledApp(bundleId: string, udid: string): Promise<InstalledApp> {
+  const apps = await listApps(udid, { includeSystem: true });
+  const app = apps.find((candidate) => candidate.bundleId === bundleId);
+
+  if (!app) {
+    throw createError("APP_NOT_INSTALLED", `App ${bundleId} is not installed on ${udid}`, {
+      details: `Installed apps: ${apps.filter((candidate) => candidate.type !== "System").map((candidate) => candidate.bundleId).join(", ") || "none"}`,
+    });
+  }
+
+  return app;
+}
+
+async function collectConsole(
+  path: string,
+  stream: "stdout" | "stderr",
+  bundleId: string,
+  udid: string
+): Promise<ConsoleCapture> {
+  const output = existsSync(path) ? await readFile(path, "utf-8") : "";
+
+  artifactManager.registerArtifact({
+    type: "log",
+    path,
+    metadata: { source: "app-console", stream, bundleId, device: udid },
+  });
+
+  return { path, output: output.slice(-CONSOLE_TAIL_CHARS) };
+}
+
+async function extractAppBundle(archive: string, dir: string): Promise<string> {
+  logger.info("simulator", `Extracting ${archive}`);
+
+  const result = await execa("tar", ["-xzf", archive, "-C", dir], { reject: false, timeout: 300000 });
+  if (result.exitCode !== 0) {
+    throw createError("APP_BUNDLE_INVALID", `Failed to extract ${archive}`, { details: result.stderr });
+  }
+
+  const bundle = await findAppBundle(dir, ARCHIVE_SEARCH_DEPTH);
+  if (!bundle) {
+    throw createError("APP_BUNDLE_INVALID", `No .app bundle found in ${archive}`, {
+      details: "The archive must contain a built .app directory, e.g. as produced by detox.build",
+    });
+  }
+
+  return bundle;
+}
+
+async function findAppBundle(dir: string, depth: number): Promise<string | null> {
+  const entries = await readdir(dir, { withFileTypes: true });
+
+  const bundle = entries.find((entry) => entry.isDirectory() && entry.name.endsWith(".app"));
+  if (bundle) {
+    return join(dir, bundle.name);
+  }
+
+  if (depth > 0) {
+    for (const entry of entries.filter((candidate) => candidate.isDirectory())) {
+      const nested = await findAppBundle(join(dir, entry.name), depth - 1);
+      if (nested) return nested;
+    }
+  }
+
+  return null;
+}
+
+function isDict(value: PlistValue | undefined): value is Record<string, PlistValue> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stringValue(value: PlistValue | undefined): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+// listapps reports locations as file:// URLs
+function toPath(location: string | undefined): string | undefined {
+  if (!location) return undefined;
+  return location.startsWith("file://") ? fileURLToPath(location).replace(/\/$/, "") : location;
+}
@@ -5,7 +5,22 @@
 import { simctl, parseSimctlError } from "./simctl.js";
 import { createError } from "../core/errors.js";
 import { logger } from "../core/logger.js";
-import { stateManager } from "../core/state.js";
+import { stateManager, type SimulatorInfo } from "../core/state.js";
+import {
+  listDeviceTypes,
+  listRuntimes,
+  parseDeviceSpec,
+  matchDeviceType,
+  selectRuntime,
+  runtimeMatchesQuery,
+  runtimeVersion,
+  runtimeKey,
+  compareVersions,
+  type SimulatorDeviceType,
+  type SimulatorRuntime,
+} from "./runtimes.js";
+
+export type { SimulatorDeviceType, SimulatorRuntime };
 
 export interface SimulatorDevice {
   udid: string;
@@ -13,12 +28,31 @@ export interface SimulatorDevice {
   state: "Shutdown" | "Booted" | "Booting" | "ShuttingDown";
   runtime: string;
   isAvailable: boolean;
+  deviceTypeIdentifier?: string;
 }
 
-export interface SimulatorRuntime {
-  identifier: string;
-  name: string;
-  version: string;
+export type BootedSimulator = SimulatorInfo & { udid: string; deviceName: string };
+
+export interface BootOptions {
+  role?: string;
+}
+
+export interface CreateDeviceOptions {
+  // Device type name or identifier; "iPhone 15 Pro @ iOS 17" also selects the runtime
+  deviceType: string;
+  runtime?: string;
+  name?: string;
+}
+
+export interface CreateDeviceResult {
+  device: SimulatorDevice;
+  deviceType: SimulatorDeviceType;
+  runtime: SimulatorRuntime;
+}
+
+export interface EnsureDeviceResult {
+  device: SimulatorDevice;
+  created: boolean;
 }
 
 export interface ListDevicesResult {
@@ -63,6 +97,7 @@ export async function listDevices(): Promise<ListDevicesResult> {
           state: device.state as SimulatorDevice["state"],
           runtime: runtimeName,
           isAvailable: device.isAvailable as boolean,
+          deviceTypeIdentifier: device.deviceTypeIdentifier as string | undefined,
         });
       }
     }
@@ -80,27 +115,37 @@ export async function listDevices(): Promise<ListDevicesResult> {
 export async function findDevice(nameOrUdid: string): Promise<SimulatorDevice | null> {
   const { devices } = await listDevices();
 
-  // First try to match by UDID
-  let device = devices.find((d) => d.udid === nameOrUdid);
-
-  // Then try to match by name (prefer iOS devices)
-  if (!device) {
-    device = devices.find(
-      (d) => d.name === nameOrUdid && d.runtime.startsWith("iOS") && d.isAvailable
-    );
+  // Roles only exist for devices the server tracks
+  const tracked = stateManager.findSimulator(nameOrUdid);
+  if (tracked?.udid) {
+    nameOrUdid = tracked.udid;
   }
 
-  // Fallback to any matching name
-  if (!device) {
-    device = devices.find((d) => d.name === nameOrUdid && d.isAvailable);
+  // First try to match by UDID
+  const byUdid = devices.find((d) => d.udid === nameOrUdid);
+  if (byUdid) {
+    return byUdid;
   }
 
-  return device ?? null;
+  // Then match by name, optionally narrowed to a runtime ("iPhone 15 @ iOS 17")
+  const { deviceType: name, runtime } = parseDeviceSpec(nameOrUdid);
+  const matches = devices.filter(
+    (d) =>
+      d.isAvailable &&
+      (d.name === nameOrUdid || (d.name === name && (!runtime || runtimeMatchesQuery(d.runtime, runtime))))
+  );
+
+  // Several devices can share a name across runtimes: prefer iOS, then the newest runtime
+  matches.sort(
+    (a, b) =>
+      Number(b.runtime.startsWith("iOS")) - Number(a.runtime.startsWith("iOS")) ||
+      compareVersions(runtimeVersion(b.runtime), runtimeVersion(a.runtime))
+  );
+
+  return matches[0] ?? null;
 }
 
-export async function bootDevice(nameOrUdid: string): Promise<SimulatorDevice> {
-  logger.info("simulator", `Booting simulator: ${nameOrUdid}`);
-
+export async function requireDevice(nameOrUdid: string): Promise<SimulatorDevice> {
   const device = await findDevice(nameOrUdid);
 
   if (!device) {
@@ -109,27 +154,41 @@ export async function bootDevice(nameOrUdid: string): Promise<SimulatorDevice> {
     });
   }
 
+  return device;
+}
+
+export async function bootDevice(nameOrUdid: string, options: BootOptions = {}): Promise<SimulatorDevice> {
+  logger.info("simulator", `Booting simulator: ${nameOrUdid}`);
+
+  const device = await requireDevice(nameOrUdid);
+
   if (device.state === "Booted") {
     logger.info("simulator", `Device ${device.name} is already booted`);
     stateManager.updateSimulator({
       state: "booted",
       udid: device.udid,
       deviceName: device.name,
+      ...(options.role && { role: options.role }),
     });
     return device;
   }
 
-  stateManager.updateSimulator({ state: "booting", udid: device.udid, deviceName: device.name });
+  stateManager.updateSimulator({
+    state: "booting",
+    udid: device.udid,
+    deviceName: device.name,
+    ...(options.role && { role: options.role }),
+  });
 
   const result = await simctl(["boot", device.udid], { timeoutMs: 120000 });
 
   if (result.exitCode !== 0) {
-    stateManager.updateSimulator({ state: "unknown" });
+    stateManager.removeSimulator(device.udid);
     const { code, message } = parseSimctlError(result.stderr);
     throw createError(code, message, { details: result.stderr });
   }
 
-  stateManager.updateSimulator({ state: "booted" });
+  stateManager.updateSimulator({ state: "booted" }, device.udid);
   logger.info("simulator", `Device ${device.name} booted successfully`);
 
   return { ...device, state: "Booted" };
@@ -138,17 +197,11 @@ export async function bootDevice(nameOrUdid: string): Promise<SimulatorDevice> {
 export async function shutdownDevice(nameOrUdid: string): Promise<void> {
   logger.info("simulator", `Shutting down simulator: ${nameOrUdid}`);
 
-  const device = await findDevice(nameOrUdid);
-
-  if (!device) {
-    throw createError("SIM_NOT_FOUND", `Simulator not found: ${nameOrUdid}`, {
-      details: "Use simulator.list_devices to see available simulators",
-    });
-  }
+  const device = await requireDevice(nameOrUdid);
 
   if (device.state === "Shutdown") {
     logger.info("simulator", `Device ${device.name} is already shut down`);
-    stateManager.updateSimulator({ state: "shutdown" });
+    stateManager.removeSimulator(device.udid);
     return;
   }
 
@@ -159,20 +212,14 @@ export async function shutdownDevice(nameOrUdid: string): Promise<void> {
     throw createError(code, message, { details: result.stderr });
   }
 
-  stateManager.updateSimulator({ state: "shutdown", udid: undefined, deviceName: undefined });
+  stateManager.removeSimulator(device.udid);
   logger.info("simulator", `Device ${device.name} shut down successfully`);
 }
 
 export async function eraseDevice(nameOrUdid: string): Promise<void> {
   logger.info("simulator", `Erasing simulator: ${nameOrUdid}`);
 
-  const device = await findDevice(nameOrUdid);
-
-  if (!device) {
-    throw createError("SIM_NOT_FOUND", `Simulator not found: ${nameOrUdid}`, {
-      details: "Use simulator.list_devices to see available simulators",
-    });
-  }
+  const device = await requireDevice(nameOrUdid);
 
   // Must be shut down before erasing
   if (device.state !== "Shutdown") {
@@ -189,7 +236,151 @@ export async function eraseDevice(nameOrUdid: string): Promise<void> {
   logger.info("simulator", `Device ${device.name} erased successfully`);
 }
 
+export async function createDevice(options: CreateDeviceOptions): Promise<CreateDeviceResult> {
+  const { deviceType, runtime } = await resolveDeviceSpec(options.deviceType, options.runtime);
+  const name = options.name ?? deviceType.name;
+
+  logger.info("simulator", `Creating simulator ${name} (${deviceType.name}, ${runtime.name})`);
+
+  const result = await simctl(["create", name, deviceType.identifier, runtime.identifier], { timeoutMs: 60000 });
+
+  if (result.exitCode !== 0) {
+    const { code, message } = parseSimctlError(result.stderr);
+    throw createError(code, message, { details: result.stderr });
+  }
+
+  const udid = result.stdout.trim();
+  const device = (await findDevice(udid)) ?? {
+    udid,
+    name,
+    state: "Shutdown",
+    runtime: runtimeKey(runtime.identifier),
+    isAvailable: true,
+    deviceTypeIdentifier: deviceType.identifier,
+  };
+
+  logger.info("simulator", `Created simulator ${name}: ${udid}`);
+
+  return { device, deviceType, runtime };
+}
+
+/**
+ * Find a device by UDID, role or name, creating it from the spec when it does not exist.
+ * A fuzzy spec such as "iphone 15 pro @ ios 17" reuses a device created from the same spec earlier
+ */
+export async function ensureDevice(spec: string): Promise<EnsureDeviceResult> {
+  const existing = await findDevice(spec);
+  if (existing) {
+    return { device: existing, created: false };
+  }
+
+  const { deviceType, runtime } = await resolveDeviceSpec(spec);
+  const { devices } = await listDevices();
+  const created = devices.find(
+    (d) =>
+      d.isAvailable &&
+      d.name === deviceType.name &&
+      d.deviceTypeIdentifier === deviceType.identifier &&
+      d.runtime === runtimeKey(runtime.identifier)
+  );
+  if (created) {
+    return { device: created, created: false };
+  }
+
+  const result = await createDevice({ deviceType: deviceType.identifier, runtime: runtime.identifier });
+  return { device: result.device, created: true };
+}
+
+export async function cloneDevice(nameOrUdid: string, name: string): Promise<SimulatorDevice> {
+  logger.info("simulator", `Cloning simulator ${nameOrUdid} as ${name}`);
+
+  const source = await requireDevice(nameOrUdid);
+  const result = await simctl(["clone", source.udid, name], { timeoutMs: 120000 });
+
+  if (result.exitCode !== 0) {
+    const { code, message } = parseSimctlError(result.stderr);
+    throw createError(code, message, {
+      details: result.stderr,
+      ...(source.state !== "Shutdown" && {
+        customRemediation: `Shut down ${source.name} with simulator.shutdown before cloning it.`,
+      }),
+    });
+  }
+
+  const udid = result.stdout.trim();
+  logger.info("simulator", `Cloned ${source.name} to ${name}: ${udid}`);
+
+  return (await findDevice(udid)) ?? { ...source, udid, name, state: "Shutdown" };
+}
+
+export async function deleteDevice(nameOrUdid: string): Promise<SimulatorDevice> {
+  logger.info("simulator", `Deleting simulator: ${nameOrUdid}`);
+
+  const device = await requireDevice(nameOrUdid);
+
+  if (device.state !== "Shutdown") {
+    await shutdownDevice(device.udid);
+  }
+
+  const result = await simctl(["delete", device.udid]);
+
+  if (result.exitCode !== 0) {
+    const { code, message } = parseSimctlError(result.stderr);
+    throw createError(code, message, { details: result.stderr });
+  }
+
+  stateManager.removeSimulator(device.udid);
+  logger.info("simulator", `Device ${device.name} deleted successfully`);
+
+  return device;
+}
+
 export async function getBootedDevice(): Promise<SimulatorDevice | null> {
   const { devices } = await listDevices();
   return devices.find((d) => d.state === "Booted" && d.runtime.startsWith("iOS")) ?? null;
 }
+
+/**
+ * UDID a call targets: the given device, else the default device, else the booted one.
+ * Undefined when nothing is booted yet
+ */
+export async function resolveDeviceUdid(device?: string): Promise<string | undefined> {
+  if (device) {
+    return (await requireDevice(device)).udid;
+  }
+  return stateManager.getDefaultSimulatorUdid() ?? (await getBootedDevice())?.udid;
+}
+
+/**
+ * Resolve a device reference (UDID, name or role) to a booted simulator, or the default device
+ * when none is given. Devices booted outside the server are tracked on first use
+ */
+export async function requireBootedDevice(device?: string): Promise<BootedSimulator> {
+  const tracked = stateManager.getSimulator(device);
+  if (tracked.state === "booted" && tracked.udid) {
+    return { ...tracked, udid: tracked.udid, deviceName: tracked.deviceName ?? tracked.udid };
+  }
+
+  const booted = device ? await requireDevice(device) : await getBootedDevice();
+  if (!booted || booted.state !== "Booted") {
+    throw createError(
+      "SIM_NOT_BOOTED",
+      booted ? `Simulator ${booted.name} is not booted` : "No simulator is currently booted",
+      { details: "Boot a simulator first using simulator.boot" }
+    );
+  }
+
+  stateManager.updateSimulator({ state: "booted", udid: booted.udid, deviceName: booted.name });
+  return { ...stateManager.getSimulator(booted.udid), udid: booted.udid, deviceName: booted.name };
+}
+
+async function resolveDeviceSpec(
+  spec: string,
+  runtimeQuery?: string
+): Promise<{ deviceType: SimulatorDeviceType; runtime: SimulatorRuntime }> {
+  const parsed = parseDeviceSpec(spec);
+  const [types, runtimes] = await Promise.all([listDeviceTypes(), listRuntimes()]);
+  const deviceType = matchDeviceType(types, parsed.deviceType);
+
+  return { deviceType, runtime: selectRuntime(runtimes, deviceType, runtimeQuery ?? parsed.runtime) };
+}
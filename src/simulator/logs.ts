@@ -6,96 +6,115 @@ import { execa, type ResultPromise } from "execa";
 import { createError } from "../core/errors.js";
 import { logger, type LogEntry } from "../core/logger.js";
 import { stateManager } from "../core/state.js";
-import { getBootedDevice } from "./devices.js";
+import { requireBootedDevice } from "./devices.js";
 
-let logStreamProcess: ResultPromise | null = null;
-let isStreaming = false;
+interface LogStream {
+  process: ResultPromise;
+  startedAt: string;
+}
+
+// One stream per device, keyed by UDID
+const logStreams = new Map<string, LogStream>();
 
 export interface LogStreamInfo {
   isStreaming: boolean;
+  device?: string;
   startedAt?: string;
 }
 
-export async function startLogStream(): Promise<LogStreamInfo> {
+export async function startLogStream(device?: string): Promise<LogStreamInfo> {
   logger.info("simulator", "Starting simulator log stream");
 
-  if (logStreamProcess) {
-    throw createError("SIMCTL_FAILED", "Log stream is already running");
-  }
+  const simulator = await requireBootedDevice(device);
 
-  // Check if simulator is booted
-  if (!stateManager.isSimulatorReady()) {
-    const bootedDevice = await getBootedDevice();
-    if (!bootedDevice) {
-      throw createError("SIM_NOT_BOOTED", "No simulator is currently booted", {
-        details: "Boot a simulator first using simulator.boot",
-      });
-    }
-    stateManager.updateSimulator({
-      state: "booted",
-      udid: bootedDevice.udid,
-      deviceName: bootedDevice.name,
-    });
+  if (logStreams.has(simulator.udid)) {
+    throw createError("SIMCTL_FAILED", `Log stream is already running on ${simulator.deviceName}`);
   }
 
   // Start log stream
-  logStreamProcess = execa("xcrun", ["simctl", "spawn", "booted", "log", "stream", "--style", "compact"], {
-    reject: false,
-  });
+  const stream: LogStream = {
+    process: execa("xcrun", ["simctl", "spawn", simulator.udid, "log", "stream", "--style", "compact"], {
+      reject: false,
+    }),
+    startedAt: new Date().toISOString(),
+  };
+  logStreams.set(simulator.udid, stream);
 
-  isStreaming = true;
-  const startedAt = new Date().toISOString();
+  // Lines carry the device so interleaved streams from several simulators stay apart
+  const data = { device: simulator.deviceName, udid: simulator.udid };
 
   // Process stdout line by line
-  logStreamProcess.stdout?.on("data", (chunk: Buffer) => {
+  stream.process.stdout?.on("data", (chunk: Buffer) => {
     const lines = chunk.toString().split("\n").filter(Boolean);
     for (const line of lines) {
-      logger.debug("simulator", line);
+      logger.debug("simulator", line, data);
     }
   });
 
-  logStreamProcess.stderr?.on("data", (chunk: Buffer) => {
+  stream.process.stderr?.on("data", (chunk: Buffer) => {
     const lines = chunk.toString().split("\n").filter(Boolean);
     for (const line of lines) {
-      logger.warn("simulator", `[stderr] ${line}`);
+      logger.warn("simulator", `[stderr] ${line}`, data);
     }
   });
 
-  logStreamProcess.on("exit", (code: number | null) => {
-    logger.info("simulator", `Log stream ended with code ${code}`);
-    isStreaming = false;
-    logStreamProcess = null;
+  stream.process.on("exit", (code: number | null) => {
+    logger.info("simulator", `Log stream for ${simulator.deviceName} ended with code ${code}`);
+    if (logStreams.get(simulator.udid) === stream) {
+      logStreams.delete(simulator.udid);
+    }
   });
 
-  logger.info("simulator", "Simulator log stream started");
+  logger.info("simulator", `Simulator log stream started for ${simulator.deviceName}`);
 
   return {
     isStreaming: true,
-    startedAt,
+    device: simulator.udid,
+    startedAt: stream.startedAt,
   };
 }
 
-export async function stopLogStream(): Promise<void> {
+export async function stopLogStream(device?: string): Promise<void> {
   logger.info("simulator", "Stopping simulator log stream");
 
-  if (!logStreamProcess) {
+  const udid = resolveStreamDevice(device);
+  const stream = udid ? logStreams.get(udid) : undefined;
+
+  if (!udid || !stream) {
     logger.info("simulator", "No log stream is running");
     return;
   }
 
-  logStreamProcess.kill("SIGTERM");
-  logStreamProcess = null;
-  isStreaming = false;
+  stream.process.kill("SIGTERM");
+  logStreams.delete(udid);
 
   logger.info("simulator", "Simulator log stream stopped");
 }
 
-export function getLogStreamStatus(): LogStreamInfo {
+export function getLogStreamStatus(device?: string): LogStreamInfo {
+  const udid = resolveStreamDevice(device);
+  const stream = udid ? logStreams.get(udid) : undefined;
+
   return {
-    isStreaming,
+    isStreaming: stream !== undefined,
+    device: udid,
+    startedAt: stream?.startedAt,
   };
 }
 
 export function getSimulatorLogs(lines: number = 100): LogEntry[] {
   return logger.tail("simulator", lines);
 }
+
+/**
+ * UDID of the stream to address: the given device, the only stream, or the default device
+ */
+function resolveStreamDevice(device?: string): string | undefined {
+  if (device) {
+    return stateManager.findSimulator(device)?.udid ?? device;
+  }
+  if (logStreams.size === 1) {
+    return [...logStreams.keys()][0];
+  }
+  return stateManager.getDefaultSimulatorUdid();
+}
@@ -0,0 +1,120 @@
+/**
+ * Parser for the old-style (OpenStep) property lists simctl prints, e.g. from listapps:
+ * dictionaries `{ key = value; }`, arrays `( a, b )`, quoted or bare strings and `<hex>` data
+ */
+
+import { createError } from "../core/errors.js";
+
+export type PlistValue = string | PlistValue[] | { [key: string]: PlistValue };
+
+const BARE_CHAR = /[A-Za-z0-9_$+/:.\-]/;
+
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", '"': '"', "\\": "\\" };
+
+export function parseOpenStepPlist(text: string): PlistValue {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw createError("SIMCTL_FAILED", "Failed to parse simctl plist output", {
+      details: `${message} at offset ${pos}: ${text.slice(pos, pos + 40)}`,
+    });
+  };
+
+  const skipWhitespace = (): void => {
+    while (pos < text.length) {
+      if (/\s/.test(text[pos])) {
+        pos++;
+      } else if (text.startsWith("//", pos)) {
+        pos = text.indexOf("\n", pos) === -1 ? text.length : text.indexOf("\n", pos);
+      } else if (text.startsWith("/*", pos)) {
+        const end = text.indexOf("*/", pos + 2);
+        pos = end === -1 ? text.length : end + 2;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const expect = (char: string): void => {
+    skipWhitespace();
+    if (text[pos] !== char) fail(`Expected "${char}"`);
+    pos++;
+  };
+
+  const parseString = (): string => {
+    skipWhitespace();
+    if (text[pos] === '"') {
+      let value = "";
+      pos++;
+      while (pos < text.length && text[pos] !== '"') {
+        if (text[pos] === "\\") {
+          pos++;
+          value += ESCAPES[text[pos]] ?? text[pos];
+        } else {
+          value += text[pos];
+        }
+        pos++;
+      }
+      expect('"');
+      return value;
+    }
+
+    const start = pos;
+    while (pos < text.length && BARE_CHAR.test(text[pos])) pos++;
+    if (pos === start) fail("Expected a string");
+    return text.slice(start, pos);
+  };
+
+  const parseValue = (): PlistValue => {
+    skipWhitespace();
+    const char = text[pos];
+
+    if (char === "{") {
+      pos++;
+      const dict: { [key: string]: PlistValue } = {};
+      skipWhitespace();
+      while (text[pos] !== "}") {
+        const key = parseString();
+        expect("=");
+        dict[key] = parseValue();
+        expect(";");
+        skipWhitespace();
+      }
+      pos++;
+      return dict;
+    }
+
+    if (char === "(") {
+      pos++;
+      const array: PlistValue[] = [];
+      skipWhitespace();
+      while (text[pos] !== ")") {
+        array.push(parseValue());
+        skipWhitespace();
+        if (text[pos] === ",") {
+          pos++;
+          skipWhitespace();
+        } else if (text[pos] !== ")") {
+          fail('Expected "," or ")"');
+        }
+      }
+      pos++;
+      return array;
+    }
+
+    if (char === "<") {
+      const end = text.indexOf(">", pos);
+      if (end === -1) fail('Expected ">"');
+      const data = text.slice(pos + 1, end).replace(/\s/g, "");
+      pos = end + 1;
+      return data;
+    }
+
+    return parseString();
+  };
+
+  const value = parseValue();
+  skipWhitespace();
+  if (pos < text.length) fail("Unexpected trailing content");
+  return value;
+}
@@ -0,0 +1,230 @@
+/**
+ * Simulator device types and runtimes
+ * Lists what simctl can create and resolves loose specs such as "iPhone 15 Pro @ iOS 17"
+ * to a device type and the newest matching runtime
+ */
+
+import { simctl, parseSimctlError } from "./simctl.js";
+import { createError } from "../core/errors.js";
+import { logger } from "../core/logger.js";
+
+export interface SimulatorDeviceType {
+  identifier: string;
+  name: string;
+  productFamily?: string;
+}
+
+export interface SimulatorRuntime {
+  identifier: string;
+  name: string;
+  version: string;
+  platform?: string;
+  isAvailable?: boolean;
+  // Device type identifiers the runtime can run; unset on older Xcode versions
+  supportedDeviceTypes?: string[];
+}
+
+export interface DeviceSpec {
+  deviceType: string;
+  runtime?: string;
+}
+
+interface RuntimeQuery {
+  platform?: string;
+  version: number[];
+}
+
+const RUNTIME_PREFIX = "com.apple.CoreSimulator.SimRuntime.";
+
+const PLATFORM_BY_FAMILY: Record<string, string> = {
+  iPhone: "iOS",
+  iPad: "iOS",
+  "Apple Watch": "watchOS",
+  "Apple TV": "tvOS",
+};
+
+// Suggestions listed when a device type or runtime does not match
+const MAX_SUGGESTIONS = 10;
+
+export async function listDeviceTypes(): Promise<SimulatorDeviceType[]> {
+  const data = await simctlJson<{ devicetypes?: Array<Record<string, unknown>> }>(["list", "devicetypes", "--json"]);
+
+  return (data.devicetypes ?? []).map((type) => ({
+    identifier: type.identifier as string,
+    name: type.name as string,
+    productFamily: type.productFamily as string | undefined,
+  }));
+}
+
+export async function listRuntimes(): Promise<SimulatorRuntime[]> {
+  const data = await simctlJson<{ runtimes?: Array<Record<string, unknown>> }>(["list", "runtimes", "--json"]);
+
+  return (data.runtimes ?? []).map((runtime) => {
+    const supported = runtime.supportedDeviceTypes as Array<{ identifier: string }> | undefined;
+    return {
+      identifier: runtime.identifier as string,
+      name: runtime.name as string,
+      version: runtime.version as string,
+      platform: runtime.platform as string | undefined,
+      isAvailable: runtime.isAvailable as boolean | undefined,
+      supportedDeviceTypes: supported?.map((type) => type.identifier),
+    };
+  });
+}
+
+/**
+ * Split "iPhone 15 Pro @ iOS 17" into the device part and the runtime part
+ */
+export function parseDeviceSpec(spec: string): DeviceSpec {
+  const [deviceType, runtime] = spec.split("@").map((part) => part.trim());
+  return runtime ? { deviceType, runtime } : { deviceType };
+}
+
+/**
+ * Resolve a device type by identifier or fuzzy name: an exact (case and space insensitive)
+ * name wins, otherwise the shortest name containing the query, so "iphone 15 pro" picks
+ * "iPhone 15 Pro" rather than "iPhone 15 Pro Max"
+ */
+export function matchDeviceType(types: SimulatorDeviceType[], query: string): SimulatorDeviceType {
+  const normalized = normalizeName(query);
+
+  const match =
+    types.find((type) => type.identifier === query) ??
+    types.find((type) => normalizeName(type.name) === normalized) ??
+    types
+      .filter((type) => normalized && normalizeName(type.name).includes(normalized))
+      .sort((a, b) => a.name.length - b.name.length)[0];
+
+  if (!match) {
+    const word = normalizeName(query.split(/\s+/)[0] ?? "");
+    const suggestions = types.filter((type) => word && normalizeName(type.name).startsWith(word));
+    throw createError("SIM_DEVICE_TYPE_NOT_FOUND", `No simulator device type matches "${query}"`, {
+      details: `Closest device types: ${(suggestions.length > 0 ? suggestions : types)
+        .slice(0, MAX_SUGGESTIONS)
+        .map((type) => type.name)
+        .join(", ")}`,
+    });
+  }
+
+  return match;
+}
+
+/**
+ * Pick the newest available runtime for a device type, optionally narrowed by a query
+ * such as "iOS 17", "17.2" or a runtime identifier
+ */
+export function selectRuntime(
+  runtimes: SimulatorRuntime[],
+  deviceType: SimulatorDeviceType,
+  query?: string
+): SimulatorRuntime {
+  const parsed = query ? parseRuntimeQuery(query) : null;
+  if (query && !parsed) {
+    throw createError("SIM_RUNTIME_NOT_FOUND", `Cannot parse runtime "${query}"`, {
+      details: "Use a platform and version such as \"iOS 17\", a version such as \"17.2\" or a runtime identifier",
+    });
+  }
+
+  const platform = parsed?.platform ?? (deviceType.productFamily && PLATFORM_BY_FAMILY[deviceType.productFamily]);
+  const candidates = runtimes.filter(
+    (runtime) =>
+      runtime.isAvailable !== false &&
+      (!runtime.supportedDeviceTypes || runtime.supportedDeviceTypes.includes(deviceType.identifier)) &&
+      matchesRuntime(runtimeKey(runtime.identifier), { platform, version: parsed?.version ?? [] })
+  );
+
+  const newest = candidates.sort((a, b) =>
+    compareVersions(parseVersion(b.version), parseVersion(a.version))
+  )[0];
+
+  if (!newest) {
+    const available = runtimes.filter((runtime) => runtime.isAvailable !== false);
+    throw createError(
+      "SIM_RUNTIME_NOT_FOUND",
+      `No available runtime${query ? ` matching "${query}"` : ""} supports ${deviceType.name}`,
+      {
+        details: `Available runtimes: ${available.map((runtime) => runtime.name).join(", ") || "none"}`,
+      }
+    );
+  }
+
+  logger.debug("simulator", `Resolved runtime ${newest.name} for ${deviceType.name}`);
+  return newest;
+}
+
+/**
+ * Whether a device's runtime (e.g. "iOS-17-2") matches a query such as "iOS 17"
+ */
+export function runtimeMatchesQuery(runtime: string, query: string): boolean {
+  const parsed = parseRuntimeQuery(query);
+  return parsed !== null && matchesRuntime(runtime, parsed);
+}
+
+/**
+ * Version of a device's runtime, e.g. "iOS-17-2" -> [17, 2]
+ */
+export function runtimeVersion(runtime: string): number[] {
+  return parseVersion(runtimeKey(runtime).replace(/^[A-Za-z]+-?/, ""));
+}
+
+/**
+ * Runtime identifier without the CoreSimulator prefix, as used in device lists ("iOS-17-2")
+ */
+export function runtimeKey(identifier: string): string {
+  return identifier.replace(RUNTIME_PREFIX, "");
+}
+
+export function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function matchesRuntime(runtime: string, query: RuntimeQuery): boolean {
+  const platform = runtimeKey(runtime).match(/^[A-Za-z]+/)?.[0];
+  if (query.platform && platform?.toLowerCase() !== query.platform.toLowerCase()) {
+    return false;
+  }
+
+  // "17" matches 17.0 and 17.2; "17.2" only matches 17.2
+  const version = runtimeVersion(runtime);
+  return query.version.every((part, index) => version[index] === part);
+}
+
+function parseRuntimeQuery(query: string): RuntimeQuery | null {
+  const match = runtimeKey(query.trim()).match(/^([A-Za-z]+)?[\s-]*(\d+(?:[.-]\d+)*)?$/);
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+  return { platform: match[1], version: match[2] ? parseVersion(match[2]) : [] };
+}
+
+function parseVersion(version: string): number[] {
+  return version
+    .split(/[.-]/)
+    .filter((part) => /^\d+$/.test(part))
+    .map(Number);
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+async function simctlJson<T>(args: string[]): Promise<T> {
+  const result = await simctl(args);
+
+  if (result.exitCode !== 0) {
+    const { code, message } = parseSimctlError(result.stderr);
+    throw createError(code, message, { details: result.stderr });
+  }
+
+  try {
+    return JSON.parse(result.stdout) as T;
+  } catch (error) {
+    throw createError("SIMCTL_FAILED", `Failed to parse output of simctl ${args.join(" ")}`, {
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
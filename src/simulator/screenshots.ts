@@ -6,38 +6,24 @@ import { simctl } from "./simctl.js";
 import { createError } from "../core/errors.js";
 import { logger } from "../core/logger.js";
 import { artifactManager } from "../core/artifacts.js";
-import { stateManager } from "../core/state.js";
-import { getBootedDevice } from "./devices.js";
+import { requireBootedDevice } from "./devices.js";
 
 export interface ScreenshotResult {
   path: string;
+  device: string;
   width?: number;
   height?: number;
   timestamp: string;
 }
 
-export async function takeScreenshot(name: string = "screenshot"): Promise<ScreenshotResult> {
+export async function takeScreenshot(name: string = "screenshot", device?: string): Promise<ScreenshotResult> {
   logger.info("simulator", `Taking screenshot: ${name}`);
 
-  // Check if simulator is booted
-  if (!stateManager.isSimulatorReady()) {
-    const bootedDevice = await getBootedDevice();
-    if (!bootedDevice) {
-      throw createError("SIM_NOT_BOOTED", "No simulator is currently booted", {
-        details: "Boot a simulator first using simulator.boot",
-      });
-    }
-    stateManager.updateSimulator({
-      state: "booted",
-      udid: bootedDevice.udid,
-      deviceName: bootedDevice.name,
-    });
-  }
+  const simulator = await requireBootedDevice(device);
 
   const screenshotPath = await artifactManager.getScreenshotPath(name);
 
-  // Use 'booted' to target the currently booted simulator
-  const result = await simctl(["io", "booted", "screenshot", screenshotPath], {
+  const result = await simctl(["io", simulator.udid, "screenshot", screenshotPath], {
     timeoutMs: 30000,
   });
 
@@ -53,19 +39,20 @@ export async function takeScreenshot(name: string = "screenshot"): Promise<Scree
   artifactManager.registerArtifact({
     type: "screenshot",
     path: screenshotPath,
-    metadata: { name, captureMethod: "simctl" },
+    metadata: { name, captureMethod: "simctl", device: simulator.udid, deviceName: simulator.deviceName },
   });
 
   logger.info("simulator", `Screenshot saved to ${screenshotPath}`);
 
   return {
     path: screenshotPath,
+    device: simulator.udid,
     timestamp,
   };
 }
 
-export async function takeScreenshotToBuffer(): Promise<Buffer> {
-  const { path } = await takeScreenshot("temp");
+export async function takeScreenshotToBuffer(device?: string): Promise<Buffer> {
+  const { path } = await takeScreenshot("temp", device);
   const { readFile, unlink } = await import("fs/promises");
   const buffer = await readFile(path);
   await unlink(path); // Clean up temp file
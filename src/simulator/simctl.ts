@@ -14,9 +14,9 @@ export interface SimctlResult {
 
 export async function simctl(
   args: string[],
-  options: { timeoutMs?: number; cwd?: string } = {}
+  options: { timeoutMs?: number; cwd?: string; env?: Record<string, string> } = {}
 ): Promise<SimctlResult> {
-  const { timeoutMs = 60000, cwd } = options;
+  const { timeoutMs = 60000, cwd, env } = options;
   const cmd = "xcrun";
   const fullArgs = ["simctl", ...args];
 
@@ -30,6 +30,7 @@ export async function simctl(
       timeout: timeoutMs,
       reject: false,
       cwd,
+      env,
     });
 
     logger.debug("simulator", `Command completed with exit code ${result.exitCode}`, {
@@ -7,97 +7,115 @@ import { createError } from "../core/errors.js";
 import { logger } from "../core/logger.js";
 import { artifactManager } from "../core/artifacts.js";
 import { stateManager } from "../core/state.js";
-import { getBootedDevice } from "./devices.js";
+import { requireBootedDevice } from "./devices.js";
 
-let recordingProcess: ResultPromise | null = null;
-let currentVideoPath: string | null = null;
+interface Recording {
+  process: ResultPromise;
+  path: string;
+  startedAt: string;
+}
+
+// One recording per device, keyed by UDID
+const recordings = new Map<string, Recording>();
 
 export interface VideoRecordingInfo {
   isRecording: boolean;
+  device?: string;
   path?: string;
   startedAt?: string;
 }
 
-export async function startVideoRecording(name: string = "recording"): Promise<VideoRecordingInfo> {
+export async function startVideoRecording(name: string = "recording", device?: string): Promise<VideoRecordingInfo> {
   logger.info("simulator", `Starting video recording: ${name}`);
 
-  if (recordingProcess) {
-    throw createError("SIMCTL_FAILED", "Video recording is already in progress", {
-      details: `Current recording: ${currentVideoPath}`,
-    });
-  }
+  const simulator = await requireBootedDevice(device);
+  const current = recordings.get(simulator.udid);
 
-  // Check if simulator is booted
-  if (!stateManager.isSimulatorReady()) {
-    const bootedDevice = await getBootedDevice();
-    if (!bootedDevice) {
-      throw createError("SIM_NOT_BOOTED", "No simulator is currently booted", {
-        details: "Boot a simulator first using simulator.boot",
-      });
-    }
-    stateManager.updateSimulator({
-      state: "booted",
-      udid: bootedDevice.udid,
-      deviceName: bootedDevice.name,
+  if (current) {
+    throw createError("SIMCTL_FAILED", `Video recording is already in progress on ${simulator.deviceName}`, {
+      details: `Current recording: ${current.path}`,
     });
   }
 
-  currentVideoPath = await artifactManager.getVideoPath(name);
+  const videoPath = await artifactManager.getVideoPath(name);
 
   // Start recording in the background
-  recordingProcess = execa("xcrun", ["simctl", "io", "booted", "recordVideo", currentVideoPath], {
-    reject: false,
-  });
-
-  const startedAt = new Date().toISOString();
+  const recording: Recording = {
+    process: execa("xcrun", ["simctl", "io", simulator.udid, "recordVideo", videoPath], {
+      reject: false,
+    }),
+    path: videoPath,
+    startedAt: new Date().toISOString(),
+  };
+  recordings.set(simulator.udid, recording);
 
-  logger.info("simulator", `Video recording started: ${currentVideoPath}`);
+  logger.info("simulator", `Video recording started on ${simulator.deviceName}: ${videoPath}`);
 
   return {
     isRecording: true,
-    path: currentVideoPath,
-    startedAt,
+    device: simulator.udid,
+    path: recording.path,
+    startedAt: recording.startedAt,
   };
 }
 
-export async function stopVideoRecording(): Promise<VideoRecordingInfo> {
+export async function stopVideoRecording(device?: string): Promise<VideoRecordingInfo> {
   logger.info("simulator", "Stopping video recording");
 
-  if (!recordingProcess || !currentVideoPath) {
+  const udid = resolveRecordingDevice(device);
+  const recording = udid ? recordings.get(udid) : undefined;
+
+  if (!udid || !recording) {
     throw createError("SIMCTL_FAILED", "No video recording is in progress");
   }
 
   // Send SIGINT to stop recording gracefully
-  recordingProcess.kill("SIGINT");
+  recording.process.kill("SIGINT");
 
   try {
-    await recordingProcess;
+    await recording.process;
   } catch {
     // Process may exit with non-zero on SIGINT, which is expected
   }
 
-  const savedPath = currentVideoPath;
-
   artifactManager.registerArtifact({
     type: "video",
-    path: savedPath,
-    metadata: { captureMethod: "simctl" },
+    path: recording.path,
+    metadata: { captureMethod: "simctl", device: udid },
   });
 
-  recordingProcess = null;
-  currentVideoPath = null;
+  recordings.delete(udid);
 
-  logger.info("simulator", `Video recording saved: ${savedPath}`);
+  logger.info("simulator", `Video recording saved: ${recording.path}`);
 
   return {
     isRecording: false,
-    path: savedPath,
+    device: udid,
+    path: recording.path,
   };
 }
 
-export function getVideoRecordingStatus(): VideoRecordingInfo {
+export function getVideoRecordingStatus(device?: string): VideoRecordingInfo {
+  const udid = resolveRecordingDevice(device);
+  const recording = udid ? recordings.get(udid) : undefined;
+
   return {
-    isRecording: recordingProcess !== null,
-    path: currentVideoPath ?? undefined,
+    isRecording: recording !== undefined,
+    device: udid,
+    path: recording?.path,
+    startedAt: recording?.startedAt,
   };
 }
+
+/**
+ * UDID of the recording to address: the given device, the only recording, or the default device
+ */
+function resolveRecordingDevice(device?: string): string | undefined {
+  if (device) {
+    return stateManager.findSimulator(device)?.udid ?? device;
+  }
+  if (recordings.size === 1) {
+    return [...recordings.keys()][0];
+  }
+  return stateManager.getDefaultSimulatorUdid();
+}
@@ -8,6 +8,7 @@ import { getConfig, hasConfig } from "../config/load.js";
 import { createError } from "../core/errors.js";
 import { logger } from "../core/logger.js";
 import { takeScreenshot } from "../simulator/screenshots.js";
+import { requireBootedDevice } from "../simulator/devices.js";
 import { stateManager } from "../core/state.js";
 
 export interface BaselineInfo {
@@ -20,15 +21,15 @@ export interface BaselineInfo {
 }
 
 /**
- * Get the baseline directory path for current configuration
+ * Get the baseline directory path for current configuration and device
  */
-export function getBaselineDir(): string {
+export function getBaselineDir(device?: string): string {
   if (!hasConfig()) {
     throw createError("CONFIG_NOT_FOUND", "Configuration required for visual regression");
   }
 
   const config = getConfig();
-  const simState = stateManager.getSimulator();
+  const simState = stateManager.getSimulator(device);
   const deviceName = simState.deviceName ?? config.defaultDeviceName ?? "unknown";
   const configuration = config.detox?.configuration ?? "default";
 
@@ -43,8 +44,8 @@ export function getBaselineDir(): string {
 /**
  * Get the full path for a baseline image
  */
-export function getBaselinePath(name: string): string {
-  const baselineDir = getBaselineDir();
+export function getBaselinePath(name: string, device?: string): string {
+  const baselineDir = getBaselineDir(device);
   const sanitizedName = name.replace(/[^a-zA-Z0-9_-]/g, "_");
   return path.join(baselineDir, `${sanitizedName}.png`);
 }
@@ -52,8 +53,8 @@ export function getBaselinePath(name: string): string {
 /**
  * Check if a baseline exists
  */
-export function baselineExists(name: string): boolean {
-  const baselinePath = getBaselinePath(name);
+export function baselineExists(name: string, device?: string): boolean {
+  const baselinePath = getBaselinePath(name, device);
   return fs.existsSync(baselinePath);
 }
 
@@ -62,14 +63,17 @@ export function baselineExists(name: string): boolean {
  */
 export async function saveBaseline(
   name: string,
-  options?: { overwrite?: boolean }
+  options?: { overwrite?: boolean; device?: string }
 ): Promise<BaselineInfo> {
   const { overwrite = false } = options ?? {};
 
   logger.info("visual", `Saving baseline: ${name}`);
 
+  // Baselines are stored per device name, so resolve the device before looking one up
+  const { udid: device } = await requireBootedDevice(options?.device);
+
   // Check if baseline already exists
-  if (baselineExists(name) && !overwrite) {
+  if (baselineExists(name, device) && !overwrite) {
     throw createError("VISUAL_BASELINE_EXISTS", `Baseline '${name}' already exists`, {
       customRemediation: "Use overwrite: true to replace the existing baseline.",
     });
@@ -77,21 +81,21 @@ export async function saveBaseline(
 
   try {
     // Take a screenshot
-    const screenshot = await takeScreenshot(`baseline-${name}`);
+    const screenshot = await takeScreenshot(`baseline-${name}`, device);
 
     // Ensure baseline directory exists
-    const baselineDir = getBaselineDir();
+    const baselineDir = getBaselineDir(device);
     fs.mkdirSync(baselineDir, { recursive: true });
 
     // Copy screenshot to baseline location
-    const baselinePath = getBaselinePath(name);
+    const baselinePath = getBaselinePath(name, device);
     fs.copyFileSync(screenshot.path, baselinePath);
 
     // Get image dimensions
     const dimensions = await getImageDimensions(baselinePath);
 
     const config = getConfig();
-    const simState = stateManager.getSimulator();
+    const simState = stateManager.getSimulator(device);
 
     const info: BaselineInfo = {
       name,
@@ -120,8 +124,8 @@ export async function saveBaseline(
 /**
  * Load a baseline image as a buffer
  */
-export function loadBaseline(name: string): Buffer {
-  const baselinePath = getBaselinePath(name);
+export function loadBaseline(name: string, device?: string): Buffer {
+  const baselinePath = getBaselinePath(name, device);
 
   if (!fs.existsSync(baselinePath)) {
     throw createError("VISUAL_BASELINE_NOT_FOUND", `Baseline '${name}' not found`, {
@@ -133,10 +137,10 @@ export function loadBaseline(name: string): Buffer {
 }
 
 /**
- * List all baselines for current configuration
+ * List all baselines for current configuration and device
  */
-export function listBaselines(): BaselineInfo[] {
-  const baselineDir = getBaselineDir();
+export function listBaselines(device?: string): BaselineInfo[] {
+  const baselineDir = getBaselineDir(device);
 
   if (!fs.existsSync(baselineDir)) {
     return [];
@@ -145,7 +149,7 @@ export function listBaselines(): BaselineInfo[] {
   const files = fs.readdirSync(baselineDir).filter((f) => f.endsWith(".png"));
 
   const config = getConfig();
-  const simState = stateManager.getSimulator();
+  const simState = stateManager.getSimulator(device);
 
   return files.map((file) => {
     const name = path.basename(file, ".png");
@@ -166,8 +170,8 @@ export function listBaselines(): BaselineInfo[] {
 /**
  * Delete a baseline
  */
-export function deleteBaseline(name: string): void {
-  const baselinePath = getBaselinePath(name);
+export function deleteBaseline(name: string, device?: string): void {
+  const baselinePath = getBaselinePath(name, device);
 
   if (!fs.existsSync(baselinePath)) {
     throw createError("VISUAL_BASELINE_NOT_FOUND", `Baseline '${name}' not found`);
@@ -47,6 +47,8 @@ export interface DesignCompareOptions {
   };
   /** Resize strategy when dimensions differ */
   resizeStrategy?: "design" | "actual" | "none";
+  /** Simulator UDID, name or role to capture; defaults to the default device */
+  device?: string;
 }
 
 /**
@@ -234,7 +236,7 @@ export async function compareToDesign(
   });
 
   // Take current screenshot
-  const screenshot = await takeScreenshot(`actual-${name}`);
+  const screenshot = await takeScreenshot(`actual-${name}`, options?.device);
   const actualPath = screenshot.path;
 
   // Load images
@@ -10,6 +10,7 @@ import { createError } from "../core/errors.js";
 import { logger } from "../core/logger.js";
 import { getArtifactPath } from "../core/artifacts.js";
 import { takeScreenshot } from "../simulator/screenshots.js";
+import { requireBootedDevice } from "../simulator/devices.js";
 import { loadBaseline, getBaselinePath, baselineExists } from "./baseline.js";
 
 export interface CompareResult {
@@ -34,6 +35,7 @@ export interface CompareOptions {
   antialiasing?: boolean; // Whether to detect and ignore anti-aliased pixels
   alpha?: number; // Blending factor of unchanged pixels in diff output
   includeAA?: boolean; // Whether to include anti-aliased pixels in diff
+  device?: string; // Simulator UDID, name or role; defaults to the default device
 }
 
 /**
@@ -50,11 +52,12 @@ export async function compareWithBaseline(
   }
 
   const config = getConfig();
+  const { udid: device } = await requireBootedDevice(options?.device);
 
   // Check baseline exists
-  if (!baselineExists(baselineName)) {
+  if (!baselineExists(baselineName, device)) {
     throw createError("VISUAL_BASELINE_NOT_FOUND", `Baseline '${baselineName}' not found`, {
-      details: `Expected at: ${getBaselinePath(baselineName)}`,
+      details: `Expected at: ${getBaselinePath(baselineName, device)}`,
     });
   }
 
@@ -62,7 +65,7 @@ export async function compareWithBaseline(
 
   try {
     // Take current screenshot
-    const screenshot = await takeScreenshot(`compare-${baselineName}`);
+    const screenshot = await takeScreenshot(`compare-${baselineName}`, device);
     actualPath = screenshot.path;
   } catch (error) {
     throw createError("ARTIFACT_WRITE_FAILED", "Failed to take screenshot for comparison", {
@@ -73,7 +76,7 @@ export async function compareWithBaseline(
   try {
 
   // Load images
-  const baselineBuffer = loadBaseline(baselineName);
+  const baselineBuffer = loadBaseline(baselineName, device);
   const actualBuffer = fs.readFileSync(actualPath);
 
   // Parse PNGs
@@ -128,7 +131,7 @@ export async function compareWithBaseline(
     threshold,
     artifacts: {
       actual: actualPath,
-      baseline: getBaselinePath(baselineName),
+      baseline: getBaselinePath(baselineName, device),
       diff: diffPath,
     },
     dimensions: {